@@ -1,12 +1,35 @@
 import { NextResponse } from "next/server";
-import OpenAI from "openai";
-
-type Mode = "voice" | "text" | "catalog-enrichment";
+import { Marketplace, marketplaces } from "@/lib/catalog";
+import {
+  CopyKind,
+  CopyRewriteRow,
+  REWRITE_BATCH_SIZE,
+  clampCopy,
+  copyColumns,
+  copyLimits,
+  isCopyRewriteRow,
+} from "@/lib/copywriting";
+import { AssistantMode, LLMMessage, getProvider } from "@/lib/llm";
+import { assistantTools, describeWorkspace } from "@/lib/assistantTools";
+import { createTask, listTasks, updateTask } from "@/lib/taskStore";
+import { Session, SessionMessage, summaryBacklog } from "@/lib/sessions";
+import { appendMessages, getSession, saveSummary } from "@/lib/sessionStore";
+import { DEFAULT_LANGUAGE, VoiceLanguage, findLanguage } from "@/lib/voice";
+import {
+  categoryLeaves,
+  categoryTrees,
+  suggestCategories,
+} from "@/lib/taxonomy";
+import {
+  CatalogAction,
+  CatalogWorkspace,
+  readWorkspace,
+} from "@/lib/workspace";
 
 const SYSTEM_PROMPT = `You are Jarvis, a proactive commerce operations copilot.
-- Manage daily agendas, reminders, and execution checklists.
-- Automate catalog updates for Amazon, Flipkart, Meesho, and Myntra.
-- When users mention sheets or data, guide them to upload through the Catalog Autopilot module.
+- Manage daily agendas, reminders, and execution checklists with the task tools; never claim a task was created, listed or completed without calling them.
+- Automate catalog updates for Amazon, Flipkart, Meesho, and Myntra. Operate the Catalog Autopilot with the catalog tools (map columns, switch marketplace, filter the preview, export, enrich) whenever the user asks for a change.
+- When users mention sheets or data that are not uploaded yet, guide them to upload through the Catalog Autopilot module.
 - Provide precise marketplace advice referencing platform policies.
 - Give concise answers with actionable steps.`;
 
@@ -15,47 +38,279 @@ type ChatMessage = {
   content: string;
 };
 
-async function withOpenAI<T>(
-  callback: (client: OpenAI) => Promise<T>
-): Promise<T | null> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) return null;
-  const client = new OpenAI({ apiKey });
-  return callback(client);
+type AssistantTurn = {
+  mode: AssistantMode;
+  message: string;
+  history: ChatMessage[];
+  /** Summary of the session's earlier messages that `history` omits. */
+  summary?: string;
+  timeZone?: string;
+  /** Language the user speaks; replies follow it, catalog data does not. */
+  language?: VoiceLanguage;
+  workspace: CatalogWorkspace;
+};
+
+/** Reports each successful tool call, e.g. so the task board can refresh. */
+type ToolListener = (name: string, result: unknown) => void;
+
+function assistantInput(turn: AssistantTurn): LLMMessage[] {
+  const clock = `Current time: ${new Date().toISOString()}${
+    turn.timeZone ? ` (user time zone ${turn.timeZone})` : ""
+  }.`;
+  const language =
+    turn.language && turn.language.id !== DEFAULT_LANGUAGE
+      ? `\n${turn.language.instruction} Users may mix in English words. Anything written into catalog data stays in English whatever the conversation language: column mappings, expressions, filter values, listing copy and exported files, because the marketplaces only accept English listings.`
+      : "";
+  return [
+    {
+      role: "system",
+      content: `${SYSTEM_PROMPT}${language}\n${clock}\n${describeWorkspace(
+        turn.workspace
+      )}`,
+    },
+    ...(turn.summary
+      ? [
+          {
+            role: "system" as const,
+            content: `Summary of the earlier conversation:\n${turn.summary}`,
+          },
+        ]
+      : []),
+    ...turn.history.map((entry) => ({
+      role: entry.role,
+      content: entry.content,
+    })),
+    { role: "user", content: turn.message },
+  ];
 }
 
 async function handleAssistant(
-  message: string,
-  history: ChatMessage[]
+  turn: AssistantTurn,
+  onTool?: ToolListener,
+  onAction?: (action: CatalogAction) => void
 ): Promise<string> {
-  const response = await withOpenAI((client) =>
-    client.responses.create({
-      model: "gpt-4o-mini",
-      reasoning: { effort: "medium" },
-      input: [
-        { role: "system", content: SYSTEM_PROMPT },
-        ...history.map((entry) => ({
-          role: entry.role,
-          content: entry.content,
-        })),
-        { role: "user", content: message },
-      ],
-    })
-  );
+  const provider = getProvider();
+  if (!provider) {
+    return fallbackJarvis(turn.message, onTool);
+  }
+
+  const reply = await provider.complete({
+    mode: turn.mode,
+    reasoning: "medium",
+    messages: assistantInput(turn),
+    tools: assistantTools({
+      workspace: turn.workspace,
+      onResult: onTool,
+      onAction,
+    }),
+  });
+  return reply || "I have processed the task.";
+}
 
-  if (!response) {
-    return fallbackJarvis(message);
+/**
+ * Server-sent events variant of `handleAssistant`. Emits `{ delta }` events as
+ * tokens arrive, `{ tool, result }` after each tool call and `{ action }` for
+ * catalog changes the browser should apply, then `{ done: true }` (or
+ * `{ error }`). `onReply` runs once the stream is closed with whatever reply
+ * text was produced, also when the provider fails midway or the browser goes
+ * away, so session bookkeeping never delays the answer.
+ */
+function streamAssistant(
+  turn: AssistantTurn,
+  onReply?: (reply: string) => Promise<void>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const provider = getProvider();
+  /** Set once the browser cancels; the reply is still read to the end. */
+  let closed = false;
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (payload: Record<string, unknown>) => {
+        if (closed) return;
+        controller.enqueue(
+          encoder.encode(`data: ${JSON.stringify(payload)}\n\n`)
+        );
+      };
+      const onTool: ToolListener = (tool, result) => send({ tool, result });
+      let reply = "";
+      try {
+        if (!provider) {
+          reply = await fallbackJarvis(turn.message, onTool);
+          send({ delta: reply });
+        } else {
+          const deltas = provider.stream({
+            mode: turn.mode,
+            reasoning: "medium",
+            messages: assistantInput(turn),
+            tools: assistantTools({
+              workspace: turn.workspace,
+              onResult: onTool,
+              onAction: (action) => send({ action }),
+            }),
+          });
+          for await (const delta of deltas) {
+            reply += delta;
+            send({ delta });
+          }
+        }
+        send({ done: true });
+      } catch (error) {
+        console.error(error);
+        send({ error: "Jarvis backend error" });
+      } finally {
+        if (!closed) controller.close();
+        closed = true;
+        // Nothing reached the browser without a delta, so nothing is kept.
+        if (reply) await onReply?.(reply).catch(console.error);
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+}
+
+const SUMMARY_PROMPT = `You maintain the running memory of a conversation between a seller and Jarvis, their commerce operations copilot. Merge the previous summary with the new messages into one summary of at most 150 words. Keep decisions, open requests, task names and due dates, marketplaces, SKUs, column mappings and numbers; drop greetings and filler. Reply with the summary only.`;
+
+function transcript(messages: SessionMessage[]): string {
+  return messages
+    .map(
+      (message) =>
+        `${message.role === "user" ? "User" : "Jarvis"}: ${message.content}`
+    )
+    .join("\n");
+}
+
+/** Without a model: keep the opening sentence of each user request. */
+function extractiveSummary(previous: string, messages: SessionMessage[]) {
+  const points = messages
+    .filter((message) => message.role === "user")
+    .map((message) => {
+      const [opening] = message.content.split(/(?<=[.!?])\s/);
+      return `- ${opening.trim().slice(0, 160)}`;
+    });
+  return [...previous.split("\n").filter(Boolean), ...points]
+    .slice(-20)
+    .join("\n");
+}
+
+/**
+ * Folds all but the most recent messages into the session summary once the
+ * unsummarised tail grows past `SUMMARY_TRIGGER`.
+ */
+async function compactSession(session: Session) {
+  const { absorb } = summaryBacklog(session);
+  if (!absorb.length) return;
+  const provider = getProvider();
+  let summary = "";
+  if (provider) {
+    try {
+      summary = await provider.complete({
+        mode: "session-summary",
+        messages: [
+          { role: "system", content: SUMMARY_PROMPT },
+          {
+            role: "user",
+            content: `Previous summary:\n${
+              session.summary || "(none)"
+            }\n\nNew messages:\n${transcript(absorb)}`,
+          },
+        ],
+      });
+    } catch (error) {
+      console.error(error);
+    }
   }
+  await saveSummary(
+    session.id,
+    summary.trim() || extractiveSummary(session.summary, absorb),
+    session.summarizedCount + absorb.length
+  );
+}
+
+/** Stores the reply and summarises the session if it has grown long. */
+async function recordReply(sessionId: string, reply: string) {
+  const session = await appendMessages(sessionId, [
+    { role: "assistant", content: reply, timestamp: Date.now() },
+  ]);
+  if (session) await compactSession(session);
+}
+
+const remindPattern =
+  /^(?:please\s+)?(?:remind me(?: to)?|(?:add|create)(?: a)? (?:task|reminder|todo)(?: to)?)\s+(.+)$/i;
+const listPattern =
+  /\b(?:list|show|what(?:'s| are| is))\b.*\b(?:tasks?|reminders?|agenda|to-?dos?)\b/i;
+const completePattern =
+  /^(?:mark\s+)?(?:complete|finish|done with|tick off)\s+(.+?)(?:\s+as (?:done|complete))?$/i;
 
-  return response.output_text ?? "I have processed the task.";
+/** "tomorrow" / "today" in a reminder becomes a due time; the rest is the title. */
+function parseReminder(text: string): { title: string; dueAt: string | null } {
+  const due = new Date();
+  let dueAt: string | null = null;
+  if (/\btomorrow\b/i.test(text)) {
+    due.setDate(due.getDate() + 1);
+    due.setHours(9, 0, 0, 0);
+    dueAt = due.toISOString();
+  } else if (/\b(?:today|tonight)\b/i.test(text)) {
+    due.setHours(18, 0, 0, 0);
+    dueAt = due.toISOString();
+  }
+  const title = text
+    .replace(/\b(?:tomorrow|today|tonight)\b/gi, "")
+    .replace(/[\s.!]+$/, "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+  return { title: title.charAt(0).toUpperCase() + title.slice(1), dueAt };
 }
 
-function fallbackJarvis(message: string): string {
+/**
+ * Offline replies. Simple task commands still reach the task store so the
+ * dashboard stays truthful without a language model.
+ */
+async function fallbackJarvis(
+  message: string,
+  onTool?: ToolListener
+): Promise<string> {
+  const text = message.trim();
+  const remind = remindPattern.exec(text);
+  if (remind) {
+    const task = await createTask(parseReminder(remind[1]));
+    onTool?.("create_task", { created: task });
+    return `Added "${task.title}" to your task board${
+      task.dueAt ? ` for ${new Date(task.dueAt).toLocaleString()}` : ""
+    }.`;
+  }
+  const complete = completePattern.exec(text);
+  if (complete) {
+    const fragment = complete[1].toLowerCase();
+    const matches = (await listTasks({ status: "open" })).filter((task) =>
+      task.title.toLowerCase().includes(fragment)
+    );
+    if (matches.length !== 1) {
+      return matches.length
+        ? `That matches ${matches.length} open tasks; tick the right one on the task board.`
+        : `I couldn't find an open task matching "${complete[1]}".`;
+    }
+    const task = await updateTask(matches[0].id, { status: "done" });
+    onTool?.("complete_task", { completed: task });
+    return `Marked "${matches[0].title}" as done.`;
+  }
+  if (listPattern.test(text)) {
+    const open = await listTasks({ status: "open" });
+    if (!open.length) return "Your task board is clear.";
+    return `You have ${open.length} open task${
+      open.length === 1 ? "" : "s"
+    }: ${open
+      .slice(0, 5)
+      .map((task) => task.title)
+      .join("; ")}.`;
+  }
   if (/catalog|sheet|listing/i.test(message)) {
     return `I'm ready to transform your catalog. Upload the marketplace template and raw sheet in the Catalog Autopilot panel. After mapping, use "Enrich copy & SEO" for optimization tips.`;
   }
   if (/task|remind|schedule/i.test(message)) {
-    return `I've scheduled a reminder in your daily dashboard and linked it with the marketplace action items.`;
+    return `I couldn't reach the language model, so I can only handle simple task commands right now: "remind me to … tomorrow", "list my tasks" or "complete …". You can also add tasks on the task board.`;
   }
   return `Jarvis is online. I couldn't reach the language model, but you can continue using the Catalog Autopilot on the right.`;
 }
@@ -64,28 +319,8 @@ async function handleEnrichment(payload: {
   marketplace: string;
   sample: Record<string, string>[];
 }) {
-  const response = await withOpenAI((client) =>
-    client.responses.create({
-      model: "gpt-4o-mini",
-      input: [
-        {
-          role: "system",
-          content:
-            "You are a marketplace catalog strategist. Provide bullet insights with SEO keywords, compliance checks, and creative recommendations.",
-        },
-        {
-          role: "user",
-          content: `Marketplace: ${payload.marketplace}\nSample rows:\n${JSON.stringify(
-            payload.sample,
-            null,
-            2
-          )}\nReturn 4-6 bullet points.`,
-        },
-      ],
-    })
-  );
-
-  if (!response) {
+  const provider = getProvider();
+  if (!provider) {
     return [
       "Tighten your keyword density (brand + usage + material) to lift visibility.",
       "Standardize bullet points with 180 character concision and feature-first copy.",
@@ -94,7 +329,24 @@ async function handleEnrichment(payload: {
     ];
   }
 
-  const text = response.output_text ?? "";
+  const text = await provider.complete({
+    mode: "catalog-enrichment",
+    messages: [
+      {
+        role: "system",
+        content:
+          "You are a marketplace catalog strategist. Provide bullet insights with SEO keywords, compliance checks, and creative recommendations.",
+      },
+      {
+        role: "user",
+        content: `Marketplace: ${payload.marketplace}\nSample rows:\n${JSON.stringify(
+          payload.sample,
+          null,
+          2
+        )}\nReturn 4-6 bullet points.`,
+      },
+    ],
+  });
 
   return text
     .split(/\n+/)
@@ -102,10 +354,188 @@ async function handleEnrichment(payload: {
     .filter(Boolean);
 }
 
+function fallbackRewrite(
+  marketplace: Marketplace,
+  row: CopyRewriteRow,
+  kinds: Record<string, CopyKind>
+): Record<string, string> {
+  const fields: Record<string, string> = {};
+  Object.entries(row.fields).forEach(([header, value]) => {
+    const kind = kinds[header];
+    if (!kind) return;
+    if (kind === "keywords") {
+      const terms = [value, ...Object.values(row.attributes ?? {})]
+        .join(",")
+        .toLowerCase()
+        .split(/[,;|]+/)
+        .map((term) => term.trim())
+        .filter(Boolean);
+      fields[header] = clampCopy(
+        marketplace,
+        kind,
+        Array.from(new Set(terms)).join(", ")
+      );
+      return;
+    }
+    const tidy =
+      kind === "title"
+        ? value.replace(/\b[a-z]/g, (char) => char.toUpperCase())
+        : value.charAt(0).toUpperCase() + value.slice(1);
+    fields[header] = clampCopy(marketplace, kind, tidy);
+  });
+  return fields;
+}
+
+async function handleRewrite(payload: {
+  marketplace: Marketplace;
+  rows: CopyRewriteRow[];
+}): Promise<CopyRewriteRow[]> {
+  const { marketplace } = payload;
+  const rows = payload.rows.slice(0, REWRITE_BATCH_SIZE);
+  const kinds: Record<string, CopyKind> = {};
+  rows.forEach((row) =>
+    copyColumns(Object.keys(row.fields)).forEach(({ header, kind }) => {
+      kinds[header] = kind;
+    })
+  );
+  const limits = copyLimits[marketplace];
+
+  const provider = getProvider();
+  const output = await provider?.complete({
+    mode: "catalog-rewrite",
+    json: true,
+    messages: [
+      {
+        role: "system",
+        content: `You are a ${marketplace} listing copywriter. Rewrite every field you are given for conversion and search while staying factual to the attributes. Limits (characters): title ${limits.title}, each bullet ${limits.bullet}, description ${limits.description}, search keywords ${limits.keywords} (comma separated, no repeats of title words). Never invent certifications, materials or sizes. Reply with JSON: {"rows":[{"index":number,"fields":{"<field name>":"<new value>"}}]} using the exact field names provided.`,
+      },
+      {
+        role: "user",
+        content: JSON.stringify(
+          rows.map((row) => ({
+            index: row.index,
+            fields: row.fields,
+            attributes: row.attributes ?? {},
+          }))
+        ),
+      },
+    ],
+  });
+
+  let rewritten: CopyRewriteRow[] | null = null;
+  if (output) {
+    try {
+      const parsed = JSON.parse(output);
+      if (Array.isArray(parsed.rows)) rewritten = parsed.rows;
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  return rows.map((row) => {
+    const proposal = rewritten?.find((entry) => entry?.index === row.index);
+    if (!proposal?.fields) {
+      return {
+        index: row.index,
+        fields: fallbackRewrite(marketplace, row, kinds),
+      };
+    }
+    const fields: Record<string, string> = {};
+    Object.keys(row.fields).forEach((header) => {
+      const value = proposal.fields[header];
+      if (typeof value === "string" && kinds[header]) {
+        fields[header] = clampCopy(marketplace, kinds[header], value);
+      }
+    });
+    return { index: row.index, fields };
+  });
+}
+
+/** Raw category values matched per request. */
+const TAXONOMY_BATCH_SIZE = 25;
+
+type CategoryPick = {
+  value: string;
+  id: string | null;
+  source: "assistant" | "similarity";
+};
+
+/**
+ * Picks a leaf category for each raw value. The model chooses among the best
+ * string-similarity candidates; without a model, or for values it skips, the
+ * top candidate is used.
+ */
+async function handleTaxonomy(payload: {
+  marketplace: Marketplace;
+  values: string[];
+}): Promise<CategoryPick[]> {
+  const { marketplace } = payload;
+  const values = payload.values
+    .filter((value) => typeof value === "string" && value.trim())
+    .slice(0, TAXONOMY_BATCH_SIZE);
+  const candidates = values.map((value) =>
+    suggestCategories(marketplace, value, 8)
+  );
+  const fallback = (index: number): CategoryPick => ({
+    value: values[index],
+    id: candidates[index][0]?.leaf.id ?? null,
+    source: "similarity",
+  });
+
+  const provider = getProvider();
+  const tree = categoryTrees[marketplace];
+  const output = await provider?.complete({
+    mode: "catalog-taxonomy",
+    json: true,
+    messages: [
+      {
+        role: "system",
+        content: `You map supplier category values to ${marketplace} ${tree.label.toLowerCase()}s. For each value pick the id of the best matching category from its candidates, or from the full list when none fit; use null when nothing fits. Reply with JSON: {"values":[{"value":"<value as given>","id":"<id or null>"}]}.`,
+      },
+      {
+        role: "user",
+        content: JSON.stringify({
+          values: values.map((value, index) => ({
+            value,
+            candidates: candidates[index].map(({ leaf }) => ({
+              id: leaf.id,
+              path: leaf.path.join(" > "),
+            })),
+          })),
+          categories: categoryLeaves(marketplace).map((leaf) => ({
+            id: leaf.id,
+            path: leaf.path.join(" > "),
+          })),
+        }),
+      },
+    ],
+  });
+
+  let picks: { value?: unknown; id?: unknown }[] | null = null;
+  if (output) {
+    try {
+      const parsed = JSON.parse(output);
+      if (Array.isArray(parsed.values)) picks = parsed.values;
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  const known = new Set(categoryLeaves(marketplace).map((leaf) => leaf.id));
+  return values.map((value, index) => {
+    const pick = picks?.find((entry) => entry?.value === value);
+    if (!pick) return fallback(index);
+    if (pick.id === null) return { value, id: null, source: "assistant" };
+    return typeof pick.id === "string" && known.has(pick.id)
+      ? { value, id: pick.id, source: "assistant" }
+      : fallback(index);
+  });
+}
+
 export async function POST(request: Request) {
   try {
     const body = await request.json();
-    const mode = (body.mode ?? "text") as Mode;
+    const mode = (body.mode ?? "text") as AssistantMode;
 
     if (mode === "catalog-enrichment") {
       const enrichment = await handleEnrichment({
@@ -115,7 +545,49 @@ export async function POST(request: Request) {
       return NextResponse.json({ enrichment });
     }
 
-    const history: ChatMessage[] = Array.isArray(body.history)
+    if (mode === "catalog-rewrite") {
+      const marketplace =
+        marketplaces.find((entry) => entry === body.marketplace) ?? "Amazon";
+      const input: unknown = body.rows ?? [];
+      if (!Array.isArray(input) || !input.every(isCopyRewriteRow)) {
+        return NextResponse.json(
+          {
+            error:
+              "`rows` must be a list of { index, fields, attributes? } objects with string values.",
+          },
+          { status: 400 }
+        );
+      }
+      const rows = await handleRewrite({ marketplace, rows: input });
+      return NextResponse.json({ rows });
+    }
+
+    if (mode === "catalog-taxonomy") {
+      const marketplace =
+        marketplaces.find((entry) => entry === body.marketplace) ?? "Amazon";
+      const values = await handleTaxonomy({
+        marketplace,
+        values: Array.isArray(body.values) ? body.values : [],
+      });
+      return NextResponse.json({ values });
+    }
+
+    const sessionId =
+      typeof body.sessionId === "string" ? body.sessionId : undefined;
+    const session = sessionId ? await getSession(sessionId) : null;
+    if (sessionId && !session) {
+      return NextResponse.json(
+        { error: `No session with id "${sessionId}".` },
+        { status: 404 }
+      );
+    }
+
+    const history: ChatMessage[] = session
+      ? summaryBacklog(session).keep.map(({ role, content }) => ({
+          role,
+          content,
+        }))
+      : Array.isArray(body.history)
       ? body.history
           .filter(
             (entry: any) =>
@@ -128,8 +600,45 @@ export async function POST(request: Request) {
           }))
       : [];
 
-    const reply = await handleAssistant(body.message ?? "", history);
-    return NextResponse.json({ reply });
+    const turn: AssistantTurn = {
+      mode,
+      message: body.message ?? "",
+      history,
+      summary: session?.summary,
+      timeZone: typeof body.timeZone === "string" ? body.timeZone : undefined,
+      language: findLanguage(body.language),
+      workspace: readWorkspace(body.workspace),
+    };
+
+    if (session) {
+      await appendMessages(session.id, [
+        { role: "user", content: turn.message, timestamp: Date.now() },
+      ]);
+    }
+    const onReply = session
+      ? (reply: string) => recordReply(session.id, reply)
+      : undefined;
+
+    if (body.stream) {
+      const stream = streamAssistant(turn, onReply);
+      return new Response(stream, {
+        headers: {
+          "Content-Type": "text/event-stream; charset=utf-8",
+          "Cache-Control": "no-cache, no-transform",
+          Connection: "keep-alive",
+        },
+      });
+    }
+
+    const toolCalls: { tool: string; result: unknown }[] = [];
+    const actions: CatalogAction[] = [];
+    const reply = await handleAssistant(
+      turn,
+      (tool, result) => toolCalls.push({ tool, result }),
+      (action) => actions.push(action)
+    );
+    await onReply?.(reply);
+    return NextResponse.json({ reply, toolCalls, actions });
   } catch (error) {
     console.error(error);
     return NextResponse.json(
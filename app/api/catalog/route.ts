@@ -0,0 +1,181 @@
+import { NextResponse } from "next/server";
+import { parseSheetFile } from "@/lib/sheet";
+import {
+  Mapping,
+  isMapping,
+  marketplaces,
+  transformCatalog,
+} from "@/lib/catalog";
+import { validateRows } from "@/lib/validation";
+import { normalizeRows } from "@/lib/normalizers";
+import { readTemplate } from "@/lib/templateSchema";
+import {
+  TemplateExportError,
+  exportFormats,
+  exportRows,
+} from "@/lib/templateExport";
+import {
+  SheetTransferError,
+  createSink,
+  createSource,
+  parseSheetRef,
+} from "@/lib/sheetSources";
+
+/**
+ * Headless Catalog Autopilot. Accepts multipart form data:
+ *   template     marketplace template (.csv / .xlsx)
+ *   raw          raw catalog dump (.csv / .xlsx)
+ *   rawSource    instead of `raw`, a CSV/XLSX link or Google Sheet to read
+ *   target       optional CSV/XLSX upload link or Google Sheet to write to
+ *   targetRange  optional tab title in the target Google Sheet
+ *   mapping      optional JSON object of template header -> raw header
+ *   marketplace  optional, one of Amazon | Flipkart | Meesho | Myntra
+ *   variants     optional, "true" to emit parent/child variation families
+ *   format       optional: xlsx (default) | template (a filled copy of the
+ *                template file) | csv (the marketplace's flat-file format)
+ * and responds with the mapping used plus the filled file (base64, in
+ * `workbook`) and, with a `target`, where the rows were written.
+ */
+export async function POST(request: Request) {
+  try {
+    const form = await request.formData();
+    const templateFile = form.get("template");
+    const rawFile = form.get("raw");
+    const rawSource = form.get("rawSource");
+
+    if (
+      !(templateFile instanceof File) ||
+      !(rawFile instanceof File || typeof rawSource === "string")
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "A `template` file and either a `raw` file or a `rawSource` link are required.",
+        },
+        { status: 400 }
+      );
+    }
+
+    const marketplaceInput = String(form.get("marketplace") ?? "Amazon");
+    const marketplace = marketplaces.find(
+      (entry) => entry.toLowerCase() === marketplaceInput.toLowerCase()
+    );
+    if (!marketplace) {
+      return NextResponse.json(
+        { error: `Unknown marketplace "${marketplaceInput}".` },
+        { status: 400 }
+      );
+    }
+
+    const formatInput = String(form.get("format") ?? "xlsx");
+    const format = exportFormats.find((entry) => entry === formatInput);
+    if (!format) {
+      return NextResponse.json(
+        { error: `Unknown format "${formatInput}".` },
+        { status: 400 }
+      );
+    }
+
+    let mapping: Mapping | undefined;
+    const mappingInput = form.get("mapping");
+    if (typeof mappingInput === "string" && mappingInput.trim()) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(mappingInput);
+      } catch {
+        parsed = null;
+      }
+      if (!isMapping(parsed)) {
+        return NextResponse.json(
+          {
+            error:
+              "`mapping` must be a JSON object of template header -> raw header or { expression }.",
+          },
+          { status: 400 }
+        );
+      }
+      mapping = parsed;
+    }
+
+    const templateBytes = await templateFile.arrayBuffer();
+    const { data: template, schema } = await readTemplate(templateBytes);
+    const raw =
+      rawFile instanceof File
+        ? await parseSheetFile(rawFile)
+        : await createSource(parseSheetRef(String(rawSource))).read();
+    if (!template.headers.length || !raw.headers.length) {
+      return NextResponse.json(
+        { error: "No columns detected in sheet." },
+        { status: 400 }
+      );
+    }
+
+    const result = transformCatalog(template, raw, mapping, {
+      variantsFor: form.get("variants") === "true" ? marketplace : undefined,
+      schema,
+    });
+    const { rows, issues } = normalizeRows(
+      marketplace,
+      template.headers,
+      result.rows,
+      schema
+    );
+    const validation = validateRows(
+      marketplace,
+      template.headers,
+      rows,
+      issues,
+      schema
+    );
+    const file = await exportRows(format, marketplace, template.headers, rows, {
+      name: templateFile.name,
+      bytes: templateBytes,
+      schema,
+    });
+
+    const target = form.get("target");
+    const targetRange = form.get("targetRange");
+    const written =
+      typeof target === "string" && target.trim()
+        ? await createSink(
+            parseSheetRef(
+              target,
+              typeof targetRange === "string" ? targetRange : undefined
+            )
+          ).write({ headers: template.headers, rows })
+        : undefined;
+
+    return NextResponse.json({
+      marketplace,
+      mapping: result.mapping,
+      rowCount: rows.length,
+      variantGroups: result.variantGroups,
+      validation: {
+        errorCount: validation.errorCount,
+        warningCount: validation.warningCount,
+        issues: validation.issues,
+      },
+      filename: `catalog-${marketplace.toLowerCase()}-${Date.now()}.${
+        file.extension
+      }`,
+      contentType: file.type,
+      workbook: Buffer.from(file.bytes).toString("base64"),
+      written,
+    });
+  } catch (error) {
+    if (error instanceof TemplateExportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof SheetTransferError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error(error);
+    return NextResponse.json(
+      { error: "Catalog transformation failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { parseSheetFile } from "@/lib/sheet";
+import {
+  SheetTransferError,
+  createSink,
+  parseSheetRef,
+} from "@/lib/sheetSources";
+
+/**
+ * Writes an exported catalog to a remote target. Accepts multipart form data
+ * with the generated `workbook` (.xlsx), the `target` link and an optional
+ * `range` (tab title) for Google Sheets; responds with `{ label, rows }`.
+ */
+export async function POST(request: Request) {
+  try {
+    const form = await request.formData().catch(() => null);
+    const workbook = form?.get("workbook");
+    const target = form?.get("target");
+    if (!(workbook instanceof File) || typeof target !== "string") {
+      return NextResponse.json(
+        { error: "Expected a `workbook` file and a `target` link." },
+        { status: 400 }
+      );
+    }
+    const range = form?.get("range");
+    const sink = createSink(
+      parseSheetRef(target, typeof range === "string" ? range : undefined)
+    );
+    return NextResponse.json(await sink.write(await parseSheetFile(workbook)));
+  } catch (error) {
+    if (error instanceof SheetTransferError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error(error);
+    return NextResponse.json(
+      { error: "Could not write the sheet" },
+      { status: 500 }
+    );
+  }
+}
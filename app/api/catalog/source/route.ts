@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import {
+  SheetTransferError,
+  createSource,
+  parseSheetRef,
+} from "@/lib/sheetSources";
+
+/**
+ * Reads a catalog sheet from a remote CSV/XLSX link or a Google Sheet.
+ * Accepts `{ source, range? }` and responds with `{ label, data }`, where
+ * `data` is the parsed `SheetData`.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (typeof body?.source !== "string" || !body.source.trim()) {
+      return NextResponse.json(
+        { error: "`source` must be a sheet link." },
+        { status: 400 }
+      );
+    }
+    const source = createSource(
+      parseSheetRef(
+        body.source,
+        typeof body.range === "string" ? body.range : undefined
+      )
+    );
+    const data = await source.read();
+    if (!data.headers.length) {
+      return NextResponse.json(
+        { error: "No columns detected in sheet." },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ label: source.label, data });
+  } catch (error) {
+    if (error instanceof SheetTransferError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error(error);
+    return NextResponse.json(
+      { error: "Could not read the sheet" },
+      { status: 500 }
+    );
+  }
+}
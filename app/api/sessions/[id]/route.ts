@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { deleteSession, getSession, renameSession } from "@/lib/sessionStore";
+import { sessionInfo } from "@/lib/sessions";
+
+type Context = { params: { id: string } };
+
+function notFound(id: string) {
+  return NextResponse.json(
+    { error: `No session with id "${id}".` },
+    { status: 404 }
+  );
+}
+
+/** Full session, including the transcript and running summary. */
+export async function GET(_request: Request, { params }: Context) {
+  try {
+    const session = await getSession(params.id);
+    return session ? NextResponse.json({ session }) : notFound(params.id);
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json(
+      { error: "Failed to load session" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Renames a session: { title }. */
+export async function PATCH(request: Request, { params }: Context) {
+  try {
+    const body = await request.json();
+    if (typeof body?.title !== "string" || !body.title.trim()) {
+      return NextResponse.json(
+        { error: "title must be a non-empty string." },
+        { status: 400 }
+      );
+    }
+    const session = await renameSession(params.id, body.title);
+    return session
+      ? NextResponse.json({ session: sessionInfo(session) })
+      : notFound(params.id);
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(error);
+    return NextResponse.json(
+      { error: "Failed to rename session" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: Request, { params }: Context) {
+  try {
+    return (await deleteSession(params.id))
+      ? NextResponse.json({ deleted: params.id })
+      : notFound(params.id);
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json(
+      { error: "Failed to delete session" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { createSession, listSessions } from "@/lib/sessionStore";
+import { sessionInfo } from "@/lib/sessions";
+
+/**
+ * Conversation sessions. GET lists them most recent first (without the
+ * transcripts); POST creates an empty one from { title? }.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ sessions: await listSessions() });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json(
+      { error: "Failed to load sessions" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const session = await createSession(
+      typeof body?.title === "string" ? body.title : undefined
+    );
+    return NextResponse.json(
+      { session: sessionInfo(session) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json(
+      { error: "Failed to create session" },
+      { status: 500 }
+    );
+  }
+}
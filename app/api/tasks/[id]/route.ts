@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { TaskValidationError, sanitizeTaskInput } from "@/lib/tasks";
+import { deleteTask, getTask, updateTask } from "@/lib/taskStore";
+
+type Context = { params: { id: string } };
+
+function notFound(id: string) {
+  return NextResponse.json(
+    { error: `No task with id "${id}".` },
+    { status: 404 }
+  );
+}
+
+export async function GET(_request: Request, { params }: Context) {
+  try {
+    const task = await getTask(params.id);
+    return task ? NextResponse.json({ task }) : notFound(params.id);
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ error: "Failed to load task" }, { status: 500 });
+  }
+}
+
+/**
+ * Partial update. `{ status: "done" }` completes the task; recurring tasks
+ * stay open with their due date moved to the next occurrence.
+ */
+export async function PATCH(request: Request, { params }: Context) {
+  try {
+    const input = sanitizeTaskInput(await request.json(), true);
+    const task = await updateTask(params.id, input);
+    return task ? NextResponse.json({ task }) : notFound(params.id);
+  } catch (error) {
+    if (error instanceof TaskValidationError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(error);
+    return NextResponse.json(
+      { error: "Failed to update task" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: Request, { params }: Context) {
+  try {
+    return (await deleteTask(params.id))
+      ? NextResponse.json({ deleted: params.id })
+      : notFound(params.id);
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json(
+      { error: "Failed to delete task" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { marketplaces } from "@/lib/catalog";
+import {
+  TaskFilter,
+  TaskValidationError,
+  sanitizeTaskInput,
+} from "@/lib/tasks";
+import { createTask, listTasks } from "@/lib/taskStore";
+
+const statusFilters = ["open", "done", "all"];
+const dueFilters = ["overdue", "today", "upcoming", "any"];
+
+/**
+ * Task board collection. GET accepts optional query filters:
+ *   status       open | done | all (default all)
+ *   due          overdue | today | upcoming | any
+ *   marketplace  Amazon | Flipkart | Meesho | Myntra
+ * POST creates a task from { title, notes?, dueAt?, recurrence?,
+ * marketplaces?, status? }.
+ */
+export async function GET(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const status = params.get("status") ?? "all";
+    const due = params.get("due") ?? "any";
+    const marketplaceInput = params.get("marketplace");
+    const marketplace = marketplaces.find(
+      (entry) => entry.toLowerCase() === marketplaceInput?.toLowerCase()
+    );
+
+    if (
+      !statusFilters.includes(status) ||
+      !dueFilters.includes(due) ||
+      (marketplaceInput && !marketplace)
+    ) {
+      return NextResponse.json(
+        { error: "Unknown status, due or marketplace filter." },
+        { status: 400 }
+      );
+    }
+
+    const tasks = await listTasks({
+      status: status as TaskFilter["status"],
+      due: due as TaskFilter["due"],
+      marketplace,
+    });
+    return NextResponse.json({ tasks });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json(
+      { error: "Failed to load tasks" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const input = sanitizeTaskInput(await request.json());
+    const task = await createTask(input);
+    return NextResponse.json({ task }, { status: 201 });
+  } catch (error) {
+    if (error instanceof TaskValidationError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(error);
+    return NextResponse.json(
+      { error: "Failed to create task" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import {
+  MAX_AUDIO_BYTES,
+  getTranscriber,
+  languageCode,
+} from "@/lib/transcription";
+
+/**
+ * Speech-to-text for browsers without the Web Speech API. Accepts multipart
+ * form data with an `audio` file and an optional `language` tag ("hi-IN")
+ * and returns `{ text }`.
+ */
+export async function POST(request: Request) {
+  try {
+    const transcriber = getTranscriber();
+    if (!transcriber) {
+      return NextResponse.json(
+        { error: "No speech-to-text backend is configured." },
+        { status: 503 }
+      );
+    }
+
+    const form = await request.formData().catch(() => null);
+    const audio = form?.get("audio");
+    if (!(audio instanceof File) || !audio.size) {
+      return NextResponse.json(
+        { error: "Expected an audio file in the `audio` field." },
+        { status: 400 }
+      );
+    }
+    if (audio.size > MAX_AUDIO_BYTES) {
+      return NextResponse.json(
+        { error: "Recording is too long to transcribe." },
+        { status: 413 }
+      );
+    }
+
+    const text = await transcriber.transcribe({
+      audio,
+      language: languageCode(form?.get("language")),
+    });
+    return NextResponse.json({ text });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json(
+      { error: "Transcription failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@
 
 import VoiceAgent from "@/components/VoiceAgent";
 import CatalogAssistant from "@/components/CatalogAssistant";
+import TaskBoard from "@/components/TaskBoard";
 
 export default function Home() {
   return (
@@ -23,6 +24,8 @@ export default function Home() {
         <VoiceAgent />
         <CatalogAssistant />
       </section>
+
+      <TaskBoard />
     </main>
   );
 }
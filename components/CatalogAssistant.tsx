@@ -1,170 +1,275 @@
 'use client';
 
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { SheetData } from "@/lib/sheet";
 import {
-  SheetData,
-  SheetRow,
-  buildSheet,
-  downloadWorkbook,
-  parseSheetFile,
-} from "@/lib/sheet";
-
-type Mapping = Record<string, string>;
-
-const synonymMatrix: Record<string, string[]> = {
-  sku: ["sku", "asin", "item id", "parent sku", "product id"],
-  title: ["title", "product title", "item name", "product name"],
-  description: [
-    "description",
-    "product description",
-    "long desc",
-    "details",
-  ],
-  brand: ["brand", "brand name", "manufacturer"],
-  color: ["color", "colour", "shade"],
-  size: ["size", "dimension", "measurement"],
-  mrp: ["mrp", "maximum retail price", "list price"],
-  price: ["price", "selling price", "offer price", "sale price"],
-  quantity: ["quantity", "stock", "inventory", "available units"],
-  weight: ["weight", "item weight", "unit weight"],
-  material: ["material", "fabric", "primary material"],
-  category: [
-    "category",
-    "product type",
-    "vertical",
-    "myntra category",
-    "flipkart category",
-  ],
-};
+  Mapping,
+  MappingEntry,
+  Marketplace,
+  autoDetectMappings,
+  confidenceFor,
+  imageColumns,
+  isExpression,
+  marketplaces,
+  normalizeKey,
+  scoreMappings,
+} from "@/lib/catalog";
+import { cellKey } from "@/lib/validation";
+import { evaluateExpression, expressionFunctions } from "@/lib/expressions";
+import type { BatchChannelResult } from "@/lib/batchExport";
+import { downloadBlob } from "@/lib/download";
+import {
+  CopyEdit,
+  CopyRewriteRow,
+  REWRITE_BATCH_SIZE,
+  copyColumns,
+} from "@/lib/copywriting";
+import {
+  CATALOG_ACTION_EVENT,
+  CatalogAction,
+  CatalogWorkspace,
+  PreviewFilter,
+  publishWorkspace,
+} from "@/lib/workspace";
+import {
+  MappingProfile,
+  exportProfiles,
+  findProfile,
+  fingerprintHeaders,
+  importProfiles,
+  loadProfiles,
+  saveProfiles,
+  upsertProfile,
+} from "@/lib/profiles";
+import {
+  PartialFeedKind,
+  partialFeedKinds,
+  partialFeedLabels,
+} from "@/lib/syncDiff";
+import type {
+  CategoryValueSuggestions,
+  PreviewSpec,
+  PreviewSummary,
+} from "@/lib/catalogJobs";
+import { TemplateSchema, describeColumn } from "@/lib/templateSchema";
+import {
+  ExportFormat,
+  exportFormatLabels,
+  exportFormats,
+} from "@/lib/templateExport";
+import {
+  CatalogCommand,
+  CommandHistory,
+  changeLogSheet,
+  describeCommand,
+  dropReviews,
+  emptyHistory,
+  record,
+  redo,
+  undo,
+} from "@/lib/history";
+import { isCancelled } from "@/lib/catalogWorker";
+import {
+  CategoryMappings,
+  categoryCellValues,
+  categoryHeader,
+  categoryLeaves,
+  categoryTrees,
+  loadCategoryMappings,
+  saveCategoryMappings,
+} from "@/lib/taxonomy";
+import {
+  ImageAsset,
+  ImageMatch,
+  checkImages,
+  imageCellValues,
+  rawSkuHeader,
+} from "@/lib/images";
+import useCatalogWorker from "@/hooks/useCatalogWorker";
+import PreviewTable from "@/components/PreviewTable";
 
-const marketplaces = ["Amazon", "Flipkart", "Meesho", "Myntra"] as const;
+const EXPRESSION_OPTION = "__expression__";
 
-function normalizeKey(key: string): string {
-  return key.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
-}
+const noImages: ImageMatch = { bySku: {}, unmatched: [] };
+const noCounts: Record<string, number> = {};
 
-function autoDetectMappings(template: SheetData, raw: SheetData): Mapping {
-  const mapping: Mapping = {};
-  const rawNormalized = raw.headers.map((header) => ({
-    original: header,
-    normalized: normalizeKey(header),
-  }));
+const DIFF_LIMIT = 40;
 
-  template.headers.forEach((header) => {
-    const target = normalizeKey(header);
+const CATEGORY_LIMIT = 30;
 
-    const directMatch = rawNormalized.find(
-      (item) => item.normalized === target
-    );
-    if (directMatch) {
-      mapping[header] = directMatch.original;
-      return;
-    }
+const IMAGE_ISSUE_LIMIT = 40;
 
-    const synonymEntry = Object.entries(synonymMatrix).find(([, values]) =>
-      values.includes(target)
-    );
-    if (synonymEntry) {
-      const [, values] = synonymEntry;
-      const matched = rawNormalized.find((item) =>
-        values.some((value) => item.normalized.includes(value))
-      );
-      if (matched) {
-        mapping[header] = matched.original;
-        return;
-      }
-    }
+/** Latest changes listed under the focus controls. */
+const CHANGE_LOG_LIMIT = 8;
 
-    const fuzzy = rawNormalized.find((item) =>
-      item.normalized.includes(target.split(" ")[0] ?? "")
-    );
-    if (fuzzy) {
-      mapping[header] = fuzzy.original;
-    }
-  });
+const XLSX_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
 
-  return mapping;
-}
+const filterLabels: Record<PreviewFilter["condition"], string> = {
+  missing: "missing",
+  error: "with errors in",
+  warning: "with warnings in",
+  issue: "with issues in",
+};
 
-function buildRowFromMappings(
-  headers: string[],
-  row: SheetRow,
-  mapping: Mapping,
-  rawHeaders: string[]
-): SheetRow {
-  const result: SheetRow = {};
-
-  headers.forEach((header) => {
-    const sourceColumn = mapping[header];
-    if (sourceColumn) {
-      result[header] = row[sourceColumn] ?? "";
-      return;
-    }
+export default function CatalogAssistant() {
+  const [templates, setTemplates] = useState<
+    Partial<Record<Marketplace, SheetData>>
+  >({});
+  const [schemas, setSchemas] = useState<
+    Partial<Record<Marketplace, TemplateSchema>>
+  >({});
+  const [raw, setRaw] = useState<SheetData | null>(null);
+  const [previousExports, setPreviousExports] = useState<
+    Partial<Record<Marketplace, SheetData>>
+  >({});
+  const [mappingsByMarketplace, setMappingsByMarketplace] = useState<
+    Partial<Record<Marketplace, Mapping>>
+  >({});
+  const [preview, setPreview] = useState<PreviewSummary | null>(null);
+  const [previewVersion, setPreviewVersion] = useState(0);
+  /** Whether the worker is still building the preview for the current spec. */
+  const previewPending = useRef(false);
+  /** Callers waiting for the next preview; `null` when it could not be built. */
+  const previewWaiters = useRef<((summary: PreviewSummary | null) => void)[]>(
+    []
+  );
+  const [previewFilter, setPreviewFilter] = useState<PreviewFilter | null>(
+    null
+  );
+  const [actionQueue, setActionQueue] = useState<CatalogAction[]>([]);
+  const [enrichmentNotes, setEnrichmentNotes] = useState<string[]>([]);
+  const [activeMarketplace, setActiveMarketplace] =
+    useState<Marketplace>("Amazon");
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [profiles, setProfiles] = useState<MappingProfile[]>([]);
+  const [appliedProfiles, setAppliedProfiles] = useState<
+    Partial<Record<Marketplace, string>>
+  >({});
+  const [profileName, setProfileName] = useState("");
+  const [batchResults, setBatchResults] = useState<BatchChannelResult[]>([]);
+  const [isBatchExporting, setIsBatchExporting] = useState(false);
+  const [groupVariants, setGroupVariants] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("template");
+  const [history, setHistory] = useState<CommandHistory>(emptyHistory);
+  const [includeChangeLog, setIncludeChangeLog] = useState(false);
+  const [copyEdits, setCopyEdits] = useState<CopyEdit[]>([]);
+  const [copyEditsFor, setCopyEditsFor] = useState<Marketplace | null>(null);
+  const [copyRun, setCopyRun] = useState(0);
+  const [rewriteProgress, setRewriteProgress] = useState<string | null>(null);
+  const [categoryMappings, setCategoryMappings] = useState<CategoryMappings>(
+    {}
+  );
+  const [categoryPicks, setCategoryPicks] = useState<
+    Partial<Record<Marketplace, Record<string, string | null>>>
+  >({});
+  const [isMatchingCategories, setIsMatchingCategories] = useState(false);
+  const { run, jobs } = useCatalogWorker();
+  const [rawLink, setRawLink] = useState("");
+  const [targetLink, setTargetLink] = useState("");
+  const [linkStatus, setLinkStatus] = useState<{
+    kind: "info" | "error";
+    text: string;
+  } | null>(null);
+  const [imageAssets, setImageAssets] = useState<ImageAsset[]>([]);
+  const [imageBaseUrl, setImageBaseUrl] = useState("");
 
-    // Smart fill heuristics
-    const normalized = normalizeKey(header);
-    if (normalized.includes("title")) {
-      const brand =
-        row[
-          rawHeaders.find((key) => normalizeKey(key).includes("brand")) ?? ""
-        ] ?? "";
-      const name =
-        row[
-          rawHeaders.find((key) => normalizeKey(key).includes("name")) ?? ""
-        ] ?? "";
-      result[header] = `${brand ? `${brand} ` : ""}${name}`.trim();
-      return;
-    }
+  const template = templates[activeMarketplace] ?? null;
+  const schema = schemas[activeMarketplace] ?? null;
+  const previousExport = previousExports[activeMarketplace] ?? null;
+  const mappings = useMemo(
+    () => mappingsByMarketplace[activeMarketplace] ?? {},
+    [mappingsByMarketplace, activeMarketplace]
+  );
+  const appliedProfile = appliedProfiles[activeMarketplace] ?? null;
 
-    if (normalized.includes("bullet")) {
-      const desc =
-        row[
-          rawHeaders.find((key) => normalizeKey(key).includes("description")) ??
-            ""
-        ];
-      if (desc) {
-        const segments = desc.split(/[.|•|\n]/).map((item) => item.trim());
-        result[header] =
-          segments.find((segment) => segment.length > 20)?.slice(0, 180) ?? "";
-        return;
-      }
-    }
+  useEffect(() => {
+    setProfiles(loadProfiles());
+    setCategoryMappings(loadCategoryMappings());
+  }, []);
 
-    if (normalized.includes("keywords")) {
-      const keywords: string[] = [];
-      ["material", "color", "size", "category"].forEach((key) => {
-        const value =
-          row[
-            rawHeaders.find((headerName) =>
-              normalizeKey(headerName).includes(key)
-            ) ?? ""
-          ];
-        if (value) {
-          keywords.push(value);
+  /** Puts a command's `after` side into the workspace. */
+  const applyCommand = (command: CatalogCommand) => {
+    switch (command.type) {
+      case "map":
+        setMappingsByMarketplace((prev) => {
+          const next = { ...prev[command.marketplace] };
+          if (command.after === undefined) delete next[command.header];
+          else next[command.header] = command.after;
+          return { ...prev, [command.marketplace]: next };
+        });
+        break;
+      case "mapping":
+        setMappingsByMarketplace((prev) => ({
+          ...prev,
+          [command.marketplace]: command.after,
+        }));
+        break;
+      case "marketplace":
+        setActiveMarketplace(command.after);
+        break;
+      case "review":
+        if (copyEditsFor !== command.marketplace || copyRun !== command.run) {
+          break;
         }
-      });
-      result[header] = keywords
-        .map((keyword) => keyword.toLowerCase())
-        .filter(Boolean)
-        .join(", ");
-      return;
+        setCopyEdits((prev) =>
+          prev.map((edit) => {
+            const change = command.changes.find(
+              ({ row, header }) => row === edit.row && header === edit.header
+            );
+            return change ? { ...edit, status: change.after } : edit;
+          })
+        );
+        break;
     }
+  };
 
-    result[header] = "";
-  });
+  const execute = (command: CatalogCommand) => {
+    applyCommand(command);
+    setHistory((prev) => record(prev, command));
+  };
 
-  return result;
-}
+  const step = (direction: "undo" | "redo") => {
+    const next = direction === "undo" ? undo(history) : redo(history);
+    if (!next) return;
+    applyCommand(next.command);
+    setHistory(next.history);
+  };
 
-export default function CatalogAssistant() {
-  const [template, setTemplate] = useState<SheetData | null>(null);
-  const [raw, setRaw] = useState<SheetData | null>(null);
-  const [mappings, setMappings] = useState<Mapping>({});
-  const [preview, setPreview] = useState<SheetRow[]>([]);
-  const [enrichmentNotes, setEnrichmentNotes] = useState<string[]>([]);
-  const [activeMarketplace, setActiveMarketplace] =
-    useState<(typeof marketplaces)[number]>("Amazon");
-  const [isGenerating, setIsGenerating] = useState(false);
+  const switchMarketplace = (marketplace: Marketplace) =>
+    execute({
+      type: "marketplace",
+      before: activeMarketplace,
+      after: marketplace,
+    });
+
+  // Ctrl/Cmd+Z and Shift+Ctrl/Cmd+Z (or Ctrl+Y), except while typing in a
+  // field, where the browser's own undo applies.
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (
+        !(event.ctrlKey || event.metaKey) ||
+        target?.closest("input, textarea, select, [contenteditable]")
+      ) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key !== "z" && key !== "y") return;
+      event.preventDefault();
+      step(key === "y" || event.shiftKey ? "redo" : "undo");
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
+  const fingerprint = useMemo(
+    () =>
+      template && raw
+        ? fingerprintHeaders(template.headers, raw.headers)
+        : null,
+    [template, raw]
+  );
 
   const marketplaceTags = useMemo(() => {
     if (!raw) return [];
@@ -180,71 +285,754 @@ export default function CatalogAssistant() {
     return Array.from(tags);
   }, [raw]);
 
-  const updatePreview = useCallback(() => {
-    if (!template || !raw) return;
-    const rows = raw.rows.map((row) =>
-      buildRowFromMappings(template.headers, row, mappings, raw.headers)
-    );
-    setPreview(rows.slice(0, 25));
-  }, [template, raw, mappings]);
+  const categoryColumn = template ? categoryHeader(template.headers) : null;
+  const categoryEntry = categoryColumn ? mappings[categoryColumn] : undefined;
+  const categorySource =
+    typeof categoryEntry === "string" && categoryEntry ? categoryEntry : null;
+  const confirmedCategories = useMemo(
+    () => categoryMappings[activeMarketplace] ?? {},
+    [categoryMappings, activeMarketplace]
+  );
+
+  const [categoryValues, setCategoryValues] = useState<
+    CategoryValueSuggestions[]
+  >([]);
+  useEffect(() => {
+    if (!raw || !categorySource) {
+      setCategoryValues([]);
+      return;
+    }
+    const job = run({
+      type: "categories",
+      marketplace: activeMarketplace,
+      source: categorySource,
+    });
+    job.promise.then(setCategoryValues).catch((error) => {
+      if (!isCancelled(error)) console.error(error);
+    });
+    return job.cancel;
+  }, [raw, categorySource, activeMarketplace, run]);
+
+  const categoryRows = useMemo(() => {
+    const picks = categoryPicks[activeMarketplace] ?? {};
+    return categoryValues.map((entry) => {
+      const pick = picks[entry.key];
+      return {
+        ...entry,
+        proposal:
+          pick !== undefined
+            ? { id: pick, basis: "assistant" as const }
+            : entry.candidates[0]
+            ? {
+                id: entry.candidates[0].leaf.id,
+                basis: confidenceFor(entry.candidates[0].score),
+              }
+            : null,
+      };
+    });
+  }, [categoryValues, activeMarketplace, categoryPicks]);
 
+  const skuColumn = raw ? rawSkuHeader(raw.headers) : null;
+  const [imageMatch, setImageMatch] = useState<ImageMatch>(noImages);
   useEffect(() => {
-    updatePreview();
-  }, [updatePreview]);
+    if (!imageAssets.length) {
+      setImageMatch(noImages);
+      return;
+    }
+    const job = run({ type: "matchImages", assets: imageAssets });
+    job.promise.then(setImageMatch).catch((error) => {
+      if (!isCancelled(error)) console.error(error);
+    });
+    return job.cancel;
+  }, [imageAssets, raw, run]);
+  const imageValues = useMemo(
+    () => imageCellValues(imageMatch, imageBaseUrl),
+    [imageMatch, imageBaseUrl]
+  );
+  const imageIssues = useMemo(
+    () => checkImages(activeMarketplace, imageMatch),
+    [activeMarketplace, imageMatch]
+  );
+
+  const suggestions = useMemo(
+    () => (template && raw ? scoreMappings(template, raw) : {}),
+    [template, raw]
+  );
+
+  /** Distinct raw values per dropdown column that match none of its values. */
+  const [disallowedValues, setDisallowedValues] =
+    useState<Record<string, number>>(noCounts);
+  useEffect(() => {
+    if (!schema || !raw) {
+      setDisallowedValues(noCounts);
+      return;
+    }
+    const job = run({
+      type: "disallowed",
+      marketplace: activeMarketplace,
+      mapping: mappings,
+    });
+    job.promise.then(setDisallowedValues).catch((error) => {
+      if (!isCancelled(error)) console.error(error);
+    });
+    return job.cancel;
+  }, [schema, raw, mappings, activeMarketplace, run]);
+
+  const unmappedRequired = template
+    ? template.headers.filter(
+        (header) => schema?.columns[header]?.required && !mappings[header]
+      )
+    : [];
 
+  const acceptedCopy = useCallback(
+    (marketplace: Marketplace) => {
+      const overrides: Record<string, string> = {};
+      if (copyEditsFor !== marketplace) return overrides;
+      copyEdits.forEach((edit) => {
+        if (edit.status === "accepted") {
+          overrides[cellKey(edit.row, edit.header)] = edit.proposed;
+        }
+      });
+      return overrides;
+    },
+    [copyEdits, copyEditsFor]
+  );
+
+  const previewSpec = useCallback(
+    (marketplace: Marketplace): PreviewSpec => ({
+      marketplace,
+      mapping: mappingsByMarketplace[marketplace] ?? {},
+      overrides: acceptedCopy(marketplace),
+      categories: categoryCellValues(
+        marketplace,
+        categoryMappings[marketplace] ?? {}
+      ),
+      images: imageValues,
+      groupVariants,
+      filter: marketplace === activeMarketplace ? previewFilter : null,
+    }),
+    [
+      mappingsByMarketplace,
+      acceptedCopy,
+      categoryMappings,
+      imageValues,
+      groupVariants,
+      activeMarketplace,
+      previewFilter,
+    ]
+  );
+
+  // Every change supersedes the preview still being built in the worker.
   useEffect(() => {
-    if (template && raw) {
-      setMappings(autoDetectMappings(template, raw));
+    const settle = (summary: PreviewSummary | null) => {
+      previewPending.current = false;
+      previewWaiters.current.splice(0).forEach((resolve) => resolve(summary));
+    };
+    if (!template || !raw) {
+      settle(null);
+      setPreview(null);
+      return;
     }
-  }, [template, raw]);
+    previewPending.current = true;
+    const job = run(
+      { type: "preview", spec: previewSpec(activeMarketplace) },
+      "Updating preview"
+    );
+    job.promise
+      .then((summary) => {
+        settle(summary);
+        setPreview(summary);
+        setPreviewVersion((version) => version + 1);
+      })
+      .catch((error) => {
+        if (isCancelled(error)) return;
+        console.error(error);
+        // Lets assistant actions waiting on the preview move on.
+        settle(null);
+        setPreviewVersion((version) => version + 1);
+      });
+    return job.cancel;
+  }, [template, raw, previousExport, activeMarketplace, previewSpec, run]);
+
+  /**
+   * The preview built after the state updates queued so far. Ask before
+   * queueing them, since the preview effect only runs on the next render.
+   */
+  const nextPreview = () =>
+    new Promise<PreviewSummary | null>((resolve) => {
+      previewWaiters.current.push(resolve);
+    });
+
+  const loadPreviewRows = useCallback(
+    (start: number, end: number) =>
+      run({ type: "rows", preview: preview?.version ?? 0, start, end }).promise,
+    [run, preview]
+  );
+
+  /** Drops the current suggestions and the reviews that refer to them. */
+  const resetCopyEdits = useCallback((marketplace: Marketplace | null) => {
+    setCopyEdits([]);
+    setCopyEditsFor(marketplace);
+    setCopyRun((prev) => prev + 1);
+    setHistory(dropReviews);
+  }, []);
+
+  useEffect(() => {
+    resetCopyEdits(null);
+  }, [templates, raw, groupVariants, resetCopyEdits]);
+
+  useEffect(() => {
+    setProfileName(appliedProfile ?? "");
+  }, [appliedProfile]);
+
+  useEffect(() => {
+    setPreviewFilter(null);
+  }, [activeMarketplace, templates, raw]);
+
+  useEffect(() => {
+    const channels: CatalogWorkspace["channels"] = {};
+    marketplaces.forEach((marketplace) => {
+      const channelTemplate = templates[marketplace];
+      if (channelTemplate) {
+        channels[marketplace] = {
+          templateHeaders: channelTemplate.headers,
+          mapping: mappingsByMarketplace[marketplace] ?? {},
+        };
+      }
+    });
+    publishWorkspace({
+      activeMarketplace,
+      channels,
+      rawHeaders: raw?.headers ?? [],
+      rowCount: raw?.rows.length ?? 0,
+      errorCount: preview?.errorCount ?? 0,
+      warningCount: preview?.warningCount ?? 0,
+    });
+  }, [activeMarketplace, templates, mappingsByMarketplace, raw, preview]);
+
+  useEffect(() => {
+    const enqueue = (event: Event) => {
+      const action = (event as CustomEvent<CatalogAction>).detail;
+      setActionQueue((prev) => [...prev, action]);
+    };
+    window.addEventListener(CATALOG_ACTION_EVENT, enqueue);
+    return () => window.removeEventListener(CATALOG_ACTION_EVENT, enqueue);
+  }, []);
+
+  const detectChannelMapping = (
+    marketplace: Marketplace,
+    channelTemplate: SheetData,
+    rawData: SheetData
+  ) => {
+    const detected = autoDetectMappings(channelTemplate, rawData);
+    const profile = findProfile(
+      loadProfiles(),
+      fingerprintHeaders(channelTemplate.headers, rawData.headers)
+    );
+    const after = profile ? { ...detected, ...profile.mapping } : detected;
+    const mapped = Object.values(after).filter(Boolean).length;
+    const summary = `Auto-mapped ${mapped} of ${channelTemplate.headers.length} columns`;
+    execute({
+      type: "mapping",
+      marketplace,
+      summary: profile ? `${summary} with profile '${profile.name}'` : summary,
+      before: mappingsByMarketplace[marketplace] ?? {},
+      after,
+    });
+    setAppliedProfiles((prev) => ({ ...prev, [marketplace]: profile?.name }));
+  };
 
   const handleFileUpload = async (
     file: File,
-    type: "template" | "raw"
+    type: "template" | "raw" | "previous"
   ): Promise<void> => {
     if (!file) return;
-    const data = await parseSheetFile(file);
-    if (!data.headers.length) {
-      throw new Error("No columns detected in sheet.");
+    const key =
+      type === "raw"
+        ? "raw"
+        : type === "template"
+        ? (`template:${activeMarketplace}` as const)
+        : (`previous:${activeMarketplace}` as const);
+    setLinkStatus(null);
+    try {
+      const { schema: parsedSchema, ...data } = await run(
+        { type: "parse", key, file },
+        `Reading ${file.name}`
+      ).promise;
+      if (!data.headers.length) {
+        throw new Error("No columns detected in sheet.");
+      }
+      if (type === "template") {
+        setSchemas((prev) => ({ ...prev, [activeMarketplace]: parsedSchema }));
+      }
+      applySheet(data, type);
+    } catch (error) {
+      if (isCancelled(error)) return;
+      setLinkStatus({
+        kind: "error",
+        text: `Could not read ${file.name}: ${(error as Error).message}`,
+      });
     }
+  };
 
+  const applySheet = (
+    data: SheetData,
+    type: "template" | "raw" | "previous",
+    keepMappings = false
+  ) => {
+    if (type === "previous") {
+      setPreviousExports((prev) => ({ ...prev, [activeMarketplace]: data }));
+      return;
+    }
+    setBatchResults([]);
     if (type === "template") {
-      setTemplate(data);
+      setTemplates((prev) => ({ ...prev, [activeMarketplace]: data }));
+      if (raw) detectChannelMapping(activeMarketplace, data, raw);
     } else {
       setRaw(data);
+      if (keepMappings) return;
+      marketplaces.forEach((marketplace) => {
+        const channelTemplate = templates[marketplace];
+        if (channelTemplate) {
+          detectChannelMapping(marketplace, channelTemplate, data);
+        }
+      });
     }
   };
 
-  const handleMappingChange = (header: string, value: string) => {
-    setMappings((prev) => ({
-      ...prev,
-      [header]: value,
-    }));
+  /** Inspects picked photos in the worker; files with the same path replace. */
+  const attachImages = async (files: File[]) => {
+    if (!files.length) return;
+    try {
+      const assets = await run({ type: "images", files }, "Checking images")
+        .promise;
+      setImageAssets((prev) => {
+        const paths = new Set(assets.map((asset) => asset.path));
+        return [...prev.filter((asset) => !paths.has(asset.path)), ...assets];
+      });
+    } catch (error) {
+      if (!isCancelled(error)) console.error(error);
+    }
   };
 
-  const generateFullWorkbook = () => {
-    if (!template || !raw) return;
-    const filled = raw.rows.map((row) =>
-      buildRowFromMappings(template.headers, row, mappings, raw.headers)
-    );
-    const workbook = buildSheet(template.headers, filled);
-    downloadWorkbook(
-      workbook,
-      `catalog-${activeMarketplace.toLowerCase()}-${Date.now()}.xlsx`
+  /** (Re)loads the raw catalog from a link, keeping mappings if columns match. */
+  const loadRawFromLink = async () => {
+    const source = rawLink.trim();
+    if (!source) return;
+    setLinkStatus({ kind: "info", text: "Reading sheet…" });
+    try {
+      const response = await fetch("/api/catalog/source", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ source }),
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error ?? response.statusText);
+      const data = body.data as SheetData;
+      await run({ type: "load", key: "raw", data }).promise;
+      applySheet(
+        data,
+        "raw",
+        raw?.headers.join("\n") === data.headers.join("\n")
+      );
+      setLinkStatus({
+        kind: "info",
+        text: `Loaded ${data.rows.length} rows from ${body.label}`,
+      });
+    } catch (error) {
+      setLinkStatus({ kind: "error", text: (error as Error).message });
+    }
+  };
+
+  const writeToTarget = async () => {
+    const target = targetLink.trim();
+    if (!target || !template || !raw || hasBlockingErrors) return;
+    const marketplace = activeMarketplace;
+    try {
+      const { bytes } = await run(
+        { type: "export", spec: previewSpec(marketplace), format: "xlsx" },
+        `Exporting ${marketplace} workbook`
+      ).promise;
+      setLinkStatus({ kind: "info", text: "Writing to target sheet…" });
+      const form = new FormData();
+      form.append(
+        "workbook",
+        new File([bytes], `catalog-${marketplace.toLowerCase()}.xlsx`, {
+          type: XLSX_TYPE,
+        })
+      );
+      form.append("target", target);
+      const response = await fetch("/api/catalog/sink", {
+        method: "POST",
+        body: form,
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error ?? response.statusText);
+      setLinkStatus({
+        kind: "info",
+        text: `Wrote ${body.rows} rows to ${body.label}`,
+      });
+    } catch (error) {
+      if (isCancelled(error)) return;
+      setLinkStatus({ kind: "error", text: (error as Error).message });
+    }
+  };
+
+  const updateCategoryMappings = (
+    update: (confirmed: Record<string, string>) => Record<string, string>
+  ) => {
+    setCategoryMappings((prev) => {
+      const next = {
+        ...prev,
+        [activeMarketplace]: update({ ...(prev[activeMarketplace] ?? {}) }),
+      };
+      saveCategoryMappings(next);
+      return next;
+    });
+  };
+
+  const setCategory = (key: string, id: string | null) =>
+    updateCategoryMappings((confirmed) => {
+      if (id) confirmed[key] = id;
+      else delete confirmed[key];
+      return confirmed;
+    });
+
+  /** Confirms every assistant pick and every medium/high similarity match. */
+  const confirmCategorySuggestions = () =>
+    updateCategoryMappings((confirmed) => {
+      categoryRows.forEach(({ key, proposal }) => {
+        if (confirmed[key] || !proposal?.id || proposal.basis === "low") {
+          return;
+        }
+        confirmed[key] = proposal.id;
+      });
+      return confirmed;
+    });
+
+  const matchCategoriesWithAssistant = async () => {
+    const marketplace = activeMarketplace;
+    const pending = categoryRows
+      .filter(({ key }) => !confirmedCategories[key])
+      .slice(0, CATEGORY_LIMIT);
+    if (!pending.length) return;
+    setIsMatchingCategories(true);
+    try {
+      const response = await fetch("/api/assistant", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          mode: "catalog-taxonomy",
+          marketplace,
+          values: pending.map(({ value }) => value),
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      const data = await response.json();
+      const picks: Record<string, string | null> = {};
+      (data.values as { value: string; id: string | null }[]).forEach(
+        ({ value, id }) => {
+          const entry = pending.find((row) => row.value === value);
+          if (entry) picks[entry.key] = id;
+        }
+      );
+      setCategoryPicks((prev) => ({
+        ...prev,
+        [marketplace]: { ...prev[marketplace], ...picks },
+      }));
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setIsMatchingCategories(false);
+    }
+  };
+
+  const handleMappingChange = (header: string, value: MappingEntry) =>
+    execute({
+      type: "map",
+      marketplace: activeMarketplace,
+      header,
+      before: mappings[header],
+      after: value,
+    });
+
+  const updateProfiles = (next: MappingProfile[]) => {
+    setProfiles(next);
+    saveProfiles(next);
+  };
+
+  const saveProfile = () => {
+    const name = profileName.trim();
+    if (!fingerprint || !name) return;
+    updateProfiles(upsertProfile(profiles, name, fingerprint, mappings));
+    setAppliedProfiles((prev) => ({ ...prev, [activeMarketplace]: name }));
+  };
+
+  const downloadProfiles = () => {
+    downloadBlob(
+      new Blob([exportProfiles(profiles)], { type: "application/json" }),
+      `jarvis-mapping-profiles-${Date.now()}.json`
     );
   };
 
+  const handleProfileImport = async (file: File) => {
+    try {
+      const next = importProfiles(profiles, await file.text());
+      updateProfiles(next);
+      const match = fingerprint ? findProfile(next, fingerprint) : undefined;
+      if (match) {
+        execute({
+          type: "mapping",
+          marketplace: activeMarketplace,
+          summary: `Applied profile '${match.name}'`,
+          before: mappings,
+          after: { ...mappings, ...match.mapping },
+        });
+        setAppliedProfiles((prev) => ({
+          ...prev,
+          [activeMarketplace]: match.name,
+        }));
+      }
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const hasBlockingErrors = Boolean(preview?.errorCount);
+  const syncDiff = preview?.diff ?? null;
+
+  const generateFullWorkbook = async () => {
+    if (!template || !raw || hasBlockingErrors) return;
+    const marketplace = activeMarketplace;
+    try {
+      const file = await run(
+        {
+          type: "export",
+          spec: previewSpec(marketplace),
+          format: exportFormat,
+          extraSheets: includeChangeLog
+            ? [changeLogSheet(history.past, marketplace)]
+            : [],
+        },
+        `Exporting ${marketplace} workbook`
+      ).promise;
+      downloadBlob(
+        new Blob([file.bytes], { type: file.type }),
+        `catalog-${marketplace.toLowerCase()}-${Date.now()}.${file.extension}`
+      );
+    } catch (error) {
+      if (!isCancelled(error)) console.error(error);
+    }
+  };
+
+  const diffEntries = useMemo(() => {
+    if (!syncDiff) return [];
+    return [
+      ...syncDiff.added.map((change) => ({
+        key: `added-${change.sku}`,
+        sku: change.sku,
+        label: "New SKU",
+        before: "",
+        after: "",
+      })),
+      ...syncDiff.removed.map((change) => ({
+        key: `removed-${change.sku}`,
+        sku: change.sku,
+        label: "Removed SKU",
+        before: "",
+        after: "",
+      })),
+      ...syncDiff.changed.flatMap((change) =>
+        change.fields.map((field) => ({
+          key: `${change.sku}-${field.header}`,
+          sku: change.sku,
+          label: `${field.header} (${field.category})`,
+          before: field.before,
+          after: field.after,
+        }))
+      ),
+    ];
+  }, [syncDiff]);
+
+  const downloadPartialFeed = async (kind: PartialFeedKind) => {
+    if (!template || !raw || !syncDiff) return;
+    const marketplace = activeMarketplace;
+    try {
+      const bytes = await run(
+        { type: "feed", spec: previewSpec(marketplace), kind },
+        `Building ${partialFeedLabels[kind].toLowerCase()}`
+      ).promise;
+      downloadBlob(
+        new Blob([bytes], { type: XLSX_TYPE }),
+        `${kind}-update-${marketplace.toLowerCase()}-${Date.now()}.xlsx`
+      );
+    } catch (error) {
+      if (!isCancelled(error)) console.error(error);
+    }
+  };
+
+  const channelsReady = marketplaces.filter((marketplace) =>
+    Boolean(templates[marketplace])
+  );
+
+  const exportAllChannels = async () => {
+    if (!raw || !channelsReady.length) return;
+    setIsBatchExporting(true);
+    try {
+      const { zip, results } = await run(
+        {
+          type: "batch",
+          channels: channelsReady.map((marketplace) =>
+            previewSpec(marketplace)
+          ),
+          groupVariants,
+          format: exportFormat,
+          extraSheets: includeChangeLog
+            ? Object.fromEntries(
+                channelsReady.map((marketplace) => [
+                  marketplace,
+                  [changeLogSheet(history.past, marketplace)],
+                ])
+              )
+            : {},
+        },
+        "Packaging channels"
+      ).promise;
+      setBatchResults(results);
+      downloadBlob(zip, `catalog-batch-${Date.now()}.zip`);
+    } catch (error) {
+      if (!isCancelled(error)) console.error(error);
+    } finally {
+      setIsBatchExporting(false);
+    }
+  };
+
+  const runRewrite = async () => {
+    if (!template || !raw || !preview) return;
+    const columns = copyColumns(template.headers);
+    if (!columns.length) {
+      setEnrichmentNotes([
+        "No title, bullet, description or keyword columns found in this template to rewrite.",
+      ]);
+      return;
+    }
+    const copyHeaders = new Set(columns.map((column) => column.header));
+    const marketplace = activeMarketplace;
+    const edits: CopyEdit[] = [];
+    // Dropping the edits rebuilds the preview without them; the rows must
+    // come from that one, not from the one still cached in the worker.
+    const ready = nextPreview();
+    resetCopyEdits(marketplace);
+
+    try {
+      setRewriteProgress("Updating preview");
+      const current = await ready;
+      if (!current) throw new Error("The preview could not be built.");
+      const total = current.total;
+      for (let start = 0; start < total; start += REWRITE_BATCH_SIZE) {
+        setRewriteProgress(
+          `Rewriting ${Math.min(start + REWRITE_BATCH_SIZE, total)}/${total}`
+        );
+        const rows = await run({
+          type: "rows",
+          preview: current.version,
+          start,
+          end: start + REWRITE_BATCH_SIZE,
+          all: true,
+        }).promise;
+        const originals = new Map(rows.map(({ index, row }) => [index, row]));
+        const batch: CopyRewriteRow[] = rows.map(({ index, row }) => {
+          const fields: Record<string, string> = {};
+          const attributes: Record<string, string> = {};
+          Object.entries(row).forEach(([header, value]) => {
+            if (copyHeaders.has(header)) fields[header] = value;
+            else if (value) attributes[header] = value;
+          });
+          return { index, fields, attributes };
+        });
+
+        const response = await fetch("/api/assistant", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            mode: "catalog-rewrite",
+            marketplace,
+            rows: batch,
+          }),
+        });
+        if (!response.ok) {
+          throw new Error(await response.text());
+        }
+        const data = await response.json();
+        (data.rows as CopyRewriteRow[]).forEach((result) => {
+          Object.entries(result.fields).forEach(([header, proposed]) => {
+            const original = originals.get(result.index)?.[header] ?? "";
+            if (proposed && proposed !== original) {
+              edits.push({
+                row: result.index,
+                header,
+                original,
+                proposed,
+                status: "pending",
+              });
+            }
+          });
+        });
+        setCopyEdits([...edits]);
+      }
+    } catch (error) {
+      console.error(error);
+      setEnrichmentNotes([
+        "Copy rewrite stopped early. Partial suggestions are listed below; retry to finish the remaining rows.",
+      ]);
+    } finally {
+      setRewriteProgress(null);
+    }
+  };
+
+  const reviewCopyEdit = (
+    target: CopyEdit | "all",
+    status: CopyEdit["status"]
+  ) => {
+    if (!copyEditsFor) return;
+    execute({
+      type: "review",
+      marketplace: copyEditsFor,
+      run: copyRun,
+      changes: copyEdits
+        .filter((edit) => target === "all" || edit === target)
+        .map(({ row, header, status: before }) => ({
+          row,
+          header,
+          before,
+          after: status,
+        })),
+    });
+  };
+
+  const acceptedCopyCount = copyEdits.filter(
+    (edit) => edit.status === "accepted"
+  ).length;
+
   const runEnrichment = async () => {
-    if (!raw || !preview.length) return;
+    if (!raw || !preview?.matches) return;
     setIsGenerating(true);
     try {
+      const sample = await run({
+        type: "rows",
+        preview: preview.version,
+        start: 0,
+        end: 5,
+      }).promise;
       const response = await fetch("/api/assistant", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           mode: "catalog-enrichment",
           marketplace: activeMarketplace,
-          sample: preview.slice(0, 5),
+          sample: sample.map(({ row }) => row),
         }),
       });
       if (!response.ok) {
@@ -262,6 +1050,53 @@ export default function CatalogAssistant() {
     }
   };
 
+  const applyAction = (action: CatalogAction) => {
+    switch (action.type) {
+      case "map":
+        execute({
+          type: "map",
+          marketplace: action.marketplace,
+          header: action.header,
+          before: mappingsByMarketplace[action.marketplace]?.[action.header],
+          after: action.entry,
+        });
+        break;
+      case "marketplace":
+        switchMarketplace(action.marketplace);
+        break;
+      case "filter":
+        setPreviewFilter(action.filter);
+        break;
+      case "export":
+        if (action.scope === "all") void exportAllChannels();
+        else void generateFullWorkbook();
+        break;
+      case "enrich":
+        void runEnrichment();
+        break;
+    }
+  };
+
+  const applyActionRef = useRef(applyAction);
+  applyActionRef.current = applyAction;
+
+  // Assistant actions run one per render so each sees the previous one's
+  // state. Exports and enrichment read the preview, so they wait until the
+  // preview for what earlier actions changed is done; the preview effect runs
+  // first and has marked it pending by the time this one runs.
+  useEffect(() => {
+    const [action] = actionQueue;
+    if (!action) return;
+    if (
+      (action.type === "export" || action.type === "enrich") &&
+      previewPending.current
+    ) {
+      return;
+    }
+    applyActionRef.current(action);
+    setActionQueue((prev) => prev.slice(1));
+  }, [actionQueue, previewVersion]);
+
   return (
     <div className="panel">
       <div className="panel-title">
@@ -276,8 +1111,12 @@ export default function CatalogAssistant() {
 
       <div className="grid" style={{ marginTop: 18, gap: 20 }}>
         <div>
-          <label htmlFor="template-upload">Marketplace template</label>
+          <label htmlFor="template-upload">
+            {activeMarketplace} template
+            {template ? " (loaded)" : ""}
+          </label>
           <input
+            key={activeMarketplace}
             id="template-upload"
             type="file"
             accept=".csv,.xlsx"
@@ -298,6 +1137,85 @@ export default function CatalogAssistant() {
               if (file) void handleFileUpload(file, "raw");
             }}
           />
+          <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+            <input
+              type="url"
+              placeholder="…or a CSV/XLSX link or Google Sheet"
+              value={rawLink}
+              onChange={(event) => setRawLink(event.target.value)}
+              style={{ flex: 1, width: "auto" }}
+            />
+            <button
+              type="button"
+              className="tag"
+              onClick={() => void loadRawFromLink()}
+              disabled={!rawLink.trim()}
+            >
+              {raw && rawLink.trim() ? "Reload" : "Load"}
+            </button>
+          </div>
+        </div>
+        <div>
+          <label htmlFor="previous-upload">
+            Previous {activeMarketplace} export (optional)
+            {previousExport ? " (loaded)" : ""}
+          </label>
+          <input
+            key={`previous-${activeMarketplace}`}
+            id="previous-upload"
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) void handleFileUpload(file, "previous");
+            }}
+          />
+        </div>
+        <div>
+          <label htmlFor="image-folder">
+            Product images (optional)
+            {imageAssets.length ? ` (${imageAssets.length} files)` : ""}
+          </label>
+          <div style={{ display: "flex", gap: 8 }}>
+            <input
+              id="image-folder"
+              type="file"
+              title="Pick a folder of images"
+              ref={(input) => input?.setAttribute("webkitdirectory", "")}
+              onChange={(event) => {
+                void attachImages(Array.from(event.target.files ?? []));
+                event.target.value = "";
+              }}
+            />
+            <input
+              type="file"
+              title="Pick a ZIP or image files"
+              accept=".zip,image/*"
+              multiple
+              onChange={(event) => {
+                void attachImages(Array.from(event.target.files ?? []));
+                event.target.value = "";
+              }}
+            />
+          </div>
+          <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+            <input
+              type="url"
+              placeholder="Image base URL (blank fills file names)"
+              value={imageBaseUrl}
+              onChange={(event) => setImageBaseUrl(event.target.value)}
+              style={{ flex: 1, width: "auto" }}
+            />
+            {imageAssets.length ? (
+              <button
+                type="button"
+                className="tag"
+                onClick={() => setImageAssets([])}
+              >
+                Clear images
+              </button>
+            ) : null}
+          </div>
         </div>
       </div>
 
@@ -317,7 +1235,7 @@ export default function CatalogAssistant() {
             style={{ marginTop: 8 }}
             value={activeMarketplace}
             onChange={(event) =>
-              setActiveMarketplace(event.target.value as (typeof marketplaces)[number])
+              switchMarketplace(event.target.value as Marketplace)
             }
           >
             {marketplaces.map((marketplace) => (
@@ -325,6 +1243,39 @@ export default function CatalogAssistant() {
             ))}
           </select>
         </label>
+        <label
+          htmlFor="group-variants"
+          style={{ display: "flex", alignItems: "center", gap: 6, margin: 0 }}
+        >
+          <input
+            id="group-variants"
+            type="checkbox"
+            checked={groupVariants}
+            onChange={(event) => setGroupVariants(event.target.checked)}
+            style={{
+              width: 18,
+              height: 18,
+              cursor: "pointer",
+              accentColor: "#5c7cfa",
+            }}
+          />
+          Group variants (parent/child)
+        </label>
+        {groupVariants && preview ? (
+          <span className="tag">
+            {preview.variantGroups} variant famil
+            {preview.variantGroups === 1 ? "y" : "ies"}
+          </span>
+        ) : null}
+        {channelsReady.length ? (
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+            {channelsReady.map((marketplace) => (
+              <span key={marketplace} className="tag">
+                {marketplace} template ✓
+              </span>
+            ))}
+          </div>
+        ) : null}
         {marketplaceTags.length ? (
           <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
             {marketplaceTags.map((tag) => (
@@ -334,8 +1285,128 @@ export default function CatalogAssistant() {
             ))}
           </div>
         ) : null}
+        <div style={{ display: "flex", gap: 8, marginLeft: "auto" }}>
+          <button
+            type="button"
+            className="tag"
+            onClick={() => step("undo")}
+            disabled={!history.past.length}
+            title={
+              history.past.length
+                ? `Undo: ${describeCommand(
+                    history.past[history.past.length - 1].command
+                  )} (Ctrl+Z)`
+                : undefined
+            }
+          >
+            ↶ Undo
+          </button>
+          <button
+            type="button"
+            className="tag"
+            onClick={() => step("redo")}
+            disabled={!history.future.length}
+            title={
+              history.future.length
+                ? `Redo: ${describeCommand(
+                    history.future[0].command
+                  )} (Ctrl+Shift+Z)`
+                : undefined
+            }
+          >
+            ↷ Redo
+          </button>
+        </div>
       </div>
 
+      {history.past.length ? (
+        <div style={{ marginTop: 14 }}>
+          <div
+            style={{
+              display: "flex",
+              gap: 10,
+              alignItems: "center",
+              flexWrap: "wrap",
+            }}
+          >
+            <span className="microphone-status">
+              Change log · {history.past.length} change
+              {history.past.length === 1 ? "" : "s"}
+            </span>
+            <label
+              htmlFor="include-change-log"
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: 6,
+                margin: 0,
+              }}
+            >
+              <input
+                id="include-change-log"
+                type="checkbox"
+                checked={includeChangeLog}
+                onChange={(event) => setIncludeChangeLog(event.target.checked)}
+                style={{
+                  width: 18,
+                  height: 18,
+                  cursor: "pointer",
+                  accentColor: "#5c7cfa",
+                }}
+              />
+              Add as a sheet to exported workbooks
+            </label>
+          </div>
+          <ul className="task-list" style={{ marginTop: 8 }}>
+            {history.past
+              .slice(-CHANGE_LOG_LIMIT)
+              .reverse()
+              .map(({ command, at }, index) => (
+                <li
+                  key={`${at}-${index}`}
+                  className="microphone-status"
+                  style={{ textTransform: "none", letterSpacing: 0 }}
+                >
+                  {new Date(at).toLocaleTimeString()} ·{" "}
+                  {command.type === "marketplace"
+                    ? ""
+                    : `${command.marketplace}: `}
+                  {describeCommand(command)}
+                </li>
+              ))}
+          </ul>
+        </div>
+      ) : null}
+
+      {jobs.map((job) => (
+        <div key={job.id} className="job-progress">
+          <progress
+            value={job.total ? job.done : undefined}
+            max={job.total || undefined}
+          />
+          <span>
+            {job.phase}
+            {job.total > 1 ? ` ${job.done}/${job.total}` : ""}
+          </span>
+          <button type="button" className="tag" onClick={job.cancel}>
+            Cancel
+          </button>
+        </div>
+      ))}
+      {linkStatus ? (
+        <p
+          className="microphone-status"
+          style={{
+            marginTop: 10,
+            textTransform: "none",
+            letterSpacing: 0,
+            color: linkStatus.kind === "error" ? "#ffb3a8" : undefined,
+          }}
+        >
+          {linkStatus.text}
+        </p>
+      ) : null}
+
       {template && raw ? (
         <>
           <div style={{ marginTop: 24 }}>
@@ -348,43 +1419,452 @@ export default function CatalogAssistant() {
             >
               Column alignment
             </h3>
-            <div className="grid" style={{ gap: 12 }}>
-              {template.headers.map((header) => (
-                <div
-                  key={header}
-                  style={{
-                    display: "grid",
-                    gap: 6,
-                    gridTemplateColumns: "1fr 1fr",
-                    alignItems: "center",
+            <div
+              style={{
+                display: "flex",
+                gap: 10,
+                flexWrap: "wrap",
+                alignItems: "center",
+                marginBottom: 14,
+              }}
+            >
+              <input
+                type="text"
+                placeholder="Profile name, e.g. Amazon apparel x Supplier A"
+                value={profileName}
+                onChange={(event) => setProfileName(event.target.value)}
+                style={{ flex: "1 1 220px", width: "auto" }}
+              />
+              <button
+                type="button"
+                onClick={saveProfile}
+                disabled={!profileName.trim()}
+                style={{
+                  background: "rgba(92, 124, 250, 0.2)",
+                  color: "#d3e5ff",
+                  padding: "10px 16px",
+                }}
+              >
+                Save profile
+              </button>
+              <button
+                type="button"
+                onClick={downloadProfiles}
+                disabled={!profiles.length}
+                style={{
+                  background: "rgba(92, 124, 250, 0.15)",
+                  color: "#d3e5ff",
+                  padding: "10px 16px",
+                }}
+              >
+                Export profiles
+              </button>
+              <label
+                htmlFor="profile-import"
+                style={{ margin: 0, cursor: "pointer" }}
+              >
+                <span className="tag">Import profiles</span>
+                <input
+                  id="profile-import"
+                  type="file"
+                  accept=".json,application/json"
+                  style={{ display: "none" }}
+                  onChange={(event) => {
+                    const file = event.target.files?.[0];
+                    if (file) void handleProfileImport(file);
+                    event.target.value = "";
                   }}
+                />
+              </label>
+              {appliedProfile ? (
+                <span className="tag">Profile applied: {appliedProfile}</span>
+              ) : null}
+              {unmappedRequired.length ? (
+                <span
+                  className="tag"
+                  title={unmappedRequired.join(", ")}
+                  style={{ color: "#ffb3a8" }}
                 >
+                  {unmappedRequired.length} required column
+                  {unmappedRequired.length === 1 ? "" : "s"} unmapped
+                </span>
+              ) : null}
+            </div>
+            <div className="grid" style={{ gap: 12 }}>
+              {template.headers.map((header) => {
+                const suggestion = suggestions[header];
+                const entry = mappings[header];
+                const selected = isExpression(entry) ? "" : entry ?? "";
+                let expressionPreview = "";
+                let expressionError: string | null = null;
+                if (isExpression(entry) && entry.expression.trim()) {
+                  try {
+                    expressionPreview = evaluateExpression(
+                      entry.expression,
+                      raw.rows[0] ?? {},
+                      raw.headers
+                    );
+                  } catch (error) {
+                    expressionError = (error as Error).message;
+                  }
+                }
+                const selectedScore = suggestion?.candidates.find(
+                  (candidate) => candidate.header === selected
+                )?.score;
+                const column = schema?.columns[header];
+                const rules = column ? describeColumn(column) : [];
+                const alternatives = (suggestion?.candidates ?? [])
+                  .filter(
+                    (candidate) =>
+                      candidate.header !== selected && candidate.score > 0
+                  )
+                  .slice(0, 3);
+
+                return (
                   <div
+                    key={header}
                     style={{
-                      fontWeight: 600,
-                      color: "#e0ecff",
-                      fontSize: "0.95rem",
+                      display: "grid",
+                      gap: 6,
+                      gridTemplateColumns: "1fr 1fr",
+                      alignItems: "center",
                     }}
                   >
-                    {header}
+                    <div
+                      style={{
+                        fontWeight: 600,
+                        color: "#e0ecff",
+                        fontSize: "0.95rem",
+                      }}
+                    >
+                      {header}
+                      {selected && selectedScore !== undefined ? (
+                        <span
+                          className={`confidence ${confidenceFor(
+                            selectedScore
+                          )}`}
+                        >
+                          {Math.round(selectedScore * 100)}%
+                        </span>
+                      ) : !selected && suggestion?.best ? (
+                        <span className="confidence low">Needs review</span>
+                      ) : null}
+                      {column?.required ? (
+                        <span
+                          className={`confidence ${entry ? "medium" : "low"}`}
+                        >
+                          Required
+                        </span>
+                      ) : null}
+                      {rules.length ? (
+                        <div
+                          className="microphone-status"
+                          title={
+                            column?.allowedValues.length
+                              ? column.allowedValues.join(", ")
+                              : undefined
+                          }
+                          style={{
+                            marginTop: 4,
+                            textTransform: "none",
+                            letterSpacing: 0,
+                            fontWeight: 400,
+                          }}
+                        >
+                          {rules.join(" · ")}
+                          {disallowedValues[header]
+                            ? ` · ${disallowedValues[header]} raw value${
+                                disallowedValues[header] === 1 ? "" : "s"
+                              } not in the list`
+                            : ""}
+                        </div>
+                      ) : null}
+                    </div>
+                    <select
+                      value={isExpression(entry) ? EXPRESSION_OPTION : selected}
+                      onChange={(event) =>
+                        handleMappingChange(
+                          header,
+                          event.target.value === EXPRESSION_OPTION
+                            ? { expression: selected ? `[${selected}]` : "" }
+                            : event.target.value
+                        )
+                      }
+                    >
+                      <option value="">-- Empty --</option>
+                      {raw.headers.map((rawHeader) => (
+                        <option key={rawHeader} value={rawHeader}>
+                          {rawHeader}
+                        </option>
+                      ))}
+                      <option value={EXPRESSION_OPTION}>ƒ Expression…</option>
+                    </select>
+                    {isExpression(entry) ? (
+                      <div style={{ gridColumn: "1 / -1" }}>
+                        <input
+                          type="text"
+                          value={entry.expression}
+                          placeholder='concat(brand, " ", [Product Name])'
+                          spellCheck={false}
+                          title={`Functions: ${expressionFunctions.join(", ")}`}
+                          onChange={(event) =>
+                            handleMappingChange(header, {
+                              expression: event.target.value,
+                            })
+                          }
+                          style={{
+                            fontFamily: "monospace",
+                            borderColor: expressionError
+                              ? "rgba(255, 110, 96, 0.7)"
+                              : undefined,
+                          }}
+                        />
+                        <div
+                          className="microphone-status"
+                          style={{
+                            marginTop: 6,
+                            textTransform: "none",
+                            letterSpacing: 0,
+                            color: expressionError ? "#ffb3a8" : undefined,
+                          }}
+                        >
+                          {expressionError
+                            ? expressionError
+                            : `Row 1 → ${expressionPreview || "(empty)"}`}
+                        </div>
+                      </div>
+                    ) : null}
+                    {alternatives.length ? (
+                      <div
+                        style={{
+                          gridColumn: "1 / -1",
+                          display: "flex",
+                          gap: 6,
+                          flexWrap: "wrap",
+                          alignItems: "center",
+                        }}
+                      >
+                        <span className="microphone-status">Alternatives</span>
+                        {alternatives.map((candidate) => (
+                          <button
+                            key={candidate.header}
+                            type="button"
+                            className="tag"
+                            onClick={() =>
+                              handleMappingChange(header, candidate.header)
+                            }
+                          >
+                            {candidate.header} ·{" "}
+                            {Math.round(candidate.score * 100)}%
+                          </button>
+                        ))}
+                      </div>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {categoryColumn ? (
+            <div style={{ marginTop: 28 }}>
+              <h3
+                style={{
+                  fontSize: "1.1rem",
+                  marginBottom: 12,
+                  color: "#9fc5ff",
+                }}
+              >
+                {categoryColumn} values →{" "}
+                {categoryTrees[activeMarketplace].label}
+                {categoryRows.length
+                  ? ` (${
+                      categoryRows.filter(({ key }) => confirmedCategories[key])
+                        .length
+                    }/${categoryRows.length} confirmed)`
+                  : ""}
+              </h3>
+              {categoryRows.length ? (
+                <>
+                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                    <button
+                      type="button"
+                      className="tag"
+                      onClick={confirmCategorySuggestions}
+                    >
+                      Confirm suggestions
+                    </button>
+                    <button
+                      type="button"
+                      className="tag"
+                      onClick={() => void matchCategoriesWithAssistant()}
+                      disabled={isMatchingCategories}
+                    >
+                      {isMatchingCategories
+                        ? "Matching..."
+                        : "Ask assistant to match"}
+                    </button>
                   </div>
-                  <select
-                    value={mappings[header] ?? ""}
-                    onChange={(event) =>
-                      handleMappingChange(header, event.target.value)
-                    }
+                  <table className="catalog-table">
+                    <thead>
+                      <tr>
+                        <th>Raw value</th>
+                        <th>Rows</th>
+                        <th>{categoryTrees[activeMarketplace].label}</th>
+                        <th>Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {categoryRows
+                        .slice(0, CATEGORY_LIMIT)
+                        .map(({ value, key, count, candidates, proposal }) => {
+                          const confirmed = confirmedCategories[key];
+                          const selected = confirmed ?? proposal?.id ?? "";
+                          return (
+                            <tr key={key}>
+                              <td>{value}</td>
+                              <td>{count}</td>
+                              <td>
+                                <select
+                                  value={selected}
+                                  onChange={(event) =>
+                                    setCategory(key, event.target.value || null)
+                                  }
+                                >
+                                  <option value="">-- Keep raw value --</option>
+                                  {candidates.length ? (
+                                    <optgroup label="Suggested">
+                                      {candidates.map(({ leaf }) => (
+                                        <option key={leaf.id} value={leaf.id}>
+                                          {leaf.path.join(" › ")}
+                                        </option>
+                                      ))}
+                                    </optgroup>
+                                  ) : null}
+                                  <optgroup label="All categories">
+                                    {categoryLeaves(activeMarketplace).map(
+                                      (leaf) => (
+                                        <option key={leaf.id} value={leaf.id}>
+                                          {leaf.path.join(" › ")}
+                                        </option>
+                                      )
+                                    )}
+                                  </optgroup>
+                                </select>
+                              </td>
+                              <td>
+                                {confirmed ? (
+                                  <span className="confidence high">
+                                    Confirmed
+                                  </span>
+                                ) : proposal?.id ? (
+                                  <button
+                                    type="button"
+                                    className={`confidence ${
+                                      proposal.basis === "assistant"
+                                        ? "medium"
+                                        : proposal.basis
+                                    }`}
+                                    onClick={() =>
+                                      setCategory(key, proposal.id)
+                                    }
+                                    title="Confirm this category"
+                                  >
+                                    {proposal.basis === "assistant"
+                                      ? "Assistant pick"
+                                      : "Suggested"}{" "}
+                                    · confirm
+                                  </button>
+                                ) : (
+                                  <span className="confidence low">
+                                    No match
+                                  </span>
+                                )}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                    </tbody>
+                  </table>
+                  {categoryRows.length > CATEGORY_LIMIT ? (
+                    <p className="microphone-status" style={{ marginTop: 8 }}>
+                      +{categoryRows.length - CATEGORY_LIMIT} less frequent
+                      values
+                    </p>
+                  ) : null}
+                </>
+              ) : (
+                <div className="empty-state">
+                  {categorySource
+                    ? `No values in ${categorySource}.`
+                    : `Map ${categoryColumn} to a raw column to translate its values into ${activeMarketplace} categories.`}
+                </div>
+              )}
+            </div>
+          ) : null}
+
+          {imageAssets.length ? (
+            <div style={{ marginTop: 28 }}>
+              <h3
+                style={{
+                  fontSize: "1.1rem",
+                  marginBottom: 12,
+                  color: "#9fc5ff",
+                }}
+              >
+                Images for {activeMarketplace} (
+                {Object.keys(imageMatch.bySku).length} SKUs matched)
+              </h3>
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                {skuColumn ? (
+                  <span className="tag">Matched on {skuColumn}</span>
+                ) : null}
+                {imageMatch.unmatched.length ? (
+                  <span
+                    className="tag"
+                    title={imageMatch.unmatched
+                      .slice(0, 20)
+                      .map((asset) => asset.path)
+                      .join("\n")}
                   >
-                    <option value="">-- Empty --</option>
-                    {raw.headers.map((rawHeader) => (
-                      <option key={rawHeader} value={rawHeader}>
-                        {rawHeader}
-                      </option>
-                    ))}
-                  </select>
+                    {imageMatch.unmatched.length} files matched no SKU
+                  </span>
+                ) : null}
+                <span className="tag">
+                  {imageColumns(template.headers).length
+                    ? `Filling ${imageColumns(template.headers).join(", ")}`
+                    : "No image columns in this template"}
+                </span>
+              </div>
+              {!skuColumn ? (
+                <div className="empty-state" style={{ marginTop: 12 }}>
+                  No SKU column in the raw sheet to match image names on.
                 </div>
-              ))}
+              ) : imageIssues.length ? (
+                <ul className="validation-list" style={{ marginTop: 12 }}>
+                  {imageIssues.slice(0, IMAGE_ISSUE_LIMIT).map((issue) => (
+                    <li
+                      key={`${issue.path}-${issue.message}`}
+                      className={issue.severity}
+                    >
+                      <strong>{issue.path}</strong> ({issue.sku}):{" "}
+                      {issue.message}
+                    </li>
+                  ))}
+                  {imageIssues.length > IMAGE_ISSUE_LIMIT ? (
+                    <li>
+                      +{imageIssues.length - IMAGE_ISSUE_LIMIT} more image
+                      issues
+                    </li>
+                  ) : null}
+                </ul>
+              ) : Object.keys(imageMatch.bySku).length ? (
+                <p className="microphone-status" style={{ marginTop: 12 }}>
+                  Every matched image meets {activeMarketplace}&apos;s rules.
+                </p>
+              ) : null}
             </div>
-          </div>
+          ) : null}
 
           <div style={{ marginTop: 28 }}>
             <h3
@@ -394,36 +1874,188 @@ export default function CatalogAssistant() {
                 color: "#9fc5ff",
               }}
             >
-              Preview (first {preview.length} rows)
+              {!preview
+                ? "Preview"
+                : previewFilter
+                ? `Preview (${preview.matches} of ${preview.total} rows ${
+                    filterLabels[previewFilter.condition]
+                  } ${previewFilter.header ?? "any column"})`
+                : `Preview (${preview.total} rows)`}
+              {previewFilter ? (
+                <button
+                  type="button"
+                  className="tag"
+                  onClick={() => setPreviewFilter(null)}
+                  style={{ marginLeft: 10, verticalAlign: "middle" }}
+                >
+                  Clear filter
+                </button>
+              ) : null}
             </h3>
-            {preview.length ? (
-              <div style={{ overflowX: "auto" }}>
-                <table className="catalog-table">
-                  <thead>
-                    <tr>
-                      {template.headers.map((header) => (
-                        <th key={header}>{header}</th>
-                      ))}
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {preview.map((row, rowIndex) => (
-                      <tr key={rowIndex}>
-                        {template.headers.map((header) => (
-                          <td key={header}>{row[header] ?? ""}</td>
-                        ))}
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
+            {preview?.matches ? (
+              <PreviewTable
+                headers={template.headers}
+                total={preview.matches}
+                version={previewVersion}
+                loadRows={loadPreviewRows}
+              />
             ) : (
               <div className="empty-state">
-                Mapping ready. Tap enrich or export to generate the catalog.
+                {!preview
+                  ? "Building preview…"
+                  : previewFilter
+                  ? "No rows match the current filter."
+                  : "Mapping ready. Tap enrich or export to generate the catalog."}
               </div>
             )}
           </div>
 
+          {preview && preview.issueCount ? (
+            <div style={{ marginTop: 18 }}>
+              <h3
+                style={{
+                  fontSize: "1.05rem",
+                  color: hasBlockingErrors ? "#ff8a7a" : "#ffc27a",
+                  marginBottom: 10,
+                }}
+              >
+                {activeMarketplace} checks: {preview.errorCount} blocking error
+                {preview.errorCount === 1 ? "" : "s"}, {preview.warningCount}{" "}
+                warning
+                {preview.warningCount === 1 ? "" : "s"}
+              </h3>
+              <ul className="validation-list">
+                {preview.issues.slice(0, 12).map((issue, index) => (
+                  <li key={index} className={issue.severity}>
+                    {issue.row >= 0 ? `Row ${issue.row + 1}: ` : ""}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+              {preview.issueCount > 12 ? (
+                <p className="microphone-status" style={{ marginTop: 8 }}>
+                  +{preview.issueCount - 12} more issues
+                </p>
+              ) : null}
+            </div>
+          ) : null}
+
+          {previousExport ? (
+            <div style={{ marginTop: 18 }}>
+              <h3
+                style={{
+                  fontSize: "1.05rem",
+                  color: "#9fc5ff",
+                  marginBottom: 10,
+                }}
+              >
+                Changes since previous {activeMarketplace} export
+              </h3>
+              {syncDiff ? (
+                <>
+                  <div
+                    style={{
+                      display: "flex",
+                      gap: 8,
+                      flexWrap: "wrap",
+                      marginBottom: 10,
+                    }}
+                  >
+                    <span className="tag">{syncDiff.added.length} new</span>
+                    <span className="tag">
+                      {syncDiff.removed.length} removed
+                    </span>
+                    <span className="tag">
+                      {syncDiff.counts.price} price changes
+                    </span>
+                    <span className="tag">
+                      {syncDiff.counts.stock} stock changes
+                    </span>
+                    <span className="tag">
+                      {syncDiff.counts.copy} copy changes
+                    </span>
+                    <span className="tag">
+                      {syncDiff.counts.attribute} other changes
+                    </span>
+                    <span className="tag">{syncDiff.unchanged} unchanged</span>
+                    {syncDiff.duplicates.length ? (
+                      <span
+                        className="confidence low"
+                        title={syncDiff.duplicates.join(", ")}
+                      >
+                        {syncDiff.duplicates.length} duplicate SKUs
+                      </span>
+                    ) : null}
+                  </div>
+                  {diffEntries.length ? (
+                    <div style={{ overflowX: "auto" }}>
+                      <table className="catalog-table" style={{ marginTop: 0 }}>
+                        <thead>
+                          <tr>
+                            <th>{syncDiff.skuHeader}</th>
+                            <th>Change</th>
+                            <th>Before</th>
+                            <th>After</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {diffEntries.slice(0, DIFF_LIMIT).map((entry) => (
+                            <tr key={entry.key}>
+                              <td>{entry.sku}</td>
+                              <td>{entry.label}</td>
+                              <td>
+                                <del>{entry.before}</del>
+                              </td>
+                              <td>
+                                <ins>{entry.after}</ins>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      {diffEntries.length > DIFF_LIMIT ? (
+                        <p
+                          className="microphone-status"
+                          style={{ marginTop: 8 }}
+                        >
+                          +{diffEntries.length - DIFF_LIMIT} more changes
+                        </p>
+                      ) : null}
+                    </div>
+                  ) : (
+                    <div className="empty-state">
+                      No SKU changes since the previous export.
+                    </div>
+                  )}
+                  <div
+                    style={{
+                      display: "flex",
+                      gap: 8,
+                      flexWrap: "wrap",
+                      marginTop: 10,
+                    }}
+                  >
+                    {partialFeedKinds.map((kind) => (
+                      <button
+                        key={kind}
+                        type="button"
+                        className="tag"
+                        onClick={() => void downloadPartialFeed(kind)}
+                      >
+                        {partialFeedLabels[kind]}
+                      </button>
+                    ))}
+                  </div>
+                </>
+              ) : (
+                <div className="empty-state">
+                  No SKU column found in the template or the previous export, so
+                  rows cannot be matched.
+                </div>
+              )}
+            </div>
+          ) : null}
+
           <div
             style={{
               display: "flex",
@@ -448,7 +2080,41 @@ export default function CatalogAssistant() {
 
             <button
               type="button"
-              onClick={generateFullWorkbook}
+              onClick={runRewrite}
+              disabled={Boolean(rewriteProgress)}
+              className="microphone-button"
+              style={{
+                background: "linear-gradient(135deg, #ff9a9e 0%, #fad0c4 100%)",
+                color: "#2b0a0c",
+              }}
+            >
+              {rewriteProgress ?? "Rewrite all copy"}
+            </button>
+
+            <select
+              value={exportFormat}
+              onChange={(event) =>
+                setExportFormat(event.target.value as ExportFormat)
+              }
+              title="Template workbook fills a copy of the uploaded template; Marketplace CSV uses the channel's delimiter and encoding"
+              style={{ width: "auto" }}
+            >
+              {exportFormats.map((format) => (
+                <option key={format} value={format}>
+                  {exportFormatLabels[format]}
+                </option>
+              ))}
+            </select>
+
+            <button
+              type="button"
+              onClick={() => void generateFullWorkbook()}
+              disabled={hasBlockingErrors}
+              title={
+                hasBlockingErrors
+                  ? "Fix blocking validation errors before exporting"
+                  : undefined
+              }
               className="microphone-button"
               style={{
                 background:
@@ -456,10 +2122,168 @@ export default function CatalogAssistant() {
                 color: "#012016",
               }}
             >
-              Export XLSX
+              Export {exportFormat === "csv" ? "CSV" : "workbook"}
+            </button>
+
+            <button
+              type="button"
+              onClick={exportAllChannels}
+              disabled={isBatchExporting || !channelsReady.length}
+              className="microphone-button"
+              style={{
+                background:
+                  "linear-gradient(135deg, #7f7fd5 0%, #86a8e7 50%, #91eae4 100%)",
+                color: "#0b1430",
+              }}
+            >
+              {isBatchExporting
+                ? "Packaging..."
+                : `Export all channels (${channelsReady.length}) as ZIP`}
+            </button>
+          </div>
+
+          <div
+            style={{
+              display: "flex",
+              gap: 8,
+              marginTop: 14,
+              flexWrap: "wrap",
+              alignItems: "center",
+            }}
+          >
+            <input
+              type="url"
+              placeholder="Target sheet: upload link or Google Sheet"
+              value={targetLink}
+              onChange={(event) => setTargetLink(event.target.value)}
+              style={{ flex: "1 1 260px", width: "auto" }}
+            />
+            <button
+              type="button"
+              onClick={() => void writeToTarget()}
+              disabled={!targetLink.trim() || hasBlockingErrors}
+              style={{
+                background: "rgba(92, 124, 250, 0.2)",
+                color: "#d3e5ff",
+                padding: "10px 16px",
+              }}
+            >
+              Write {activeMarketplace} rows to sheet
             </button>
           </div>
 
+          {batchResults.length ? (
+            <div style={{ marginTop: 18 }}>
+              <h3
+                style={{
+                  fontSize: "1.05rem",
+                  color: "#9fc5ff",
+                  marginBottom: 10,
+                }}
+              >
+                Batch export summary
+              </h3>
+              <table className="catalog-table" style={{ marginTop: 0 }}>
+                <thead>
+                  <tr>
+                    <th>Marketplace</th>
+                    <th>Rows exported</th>
+                    <th>Rows dropped</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {batchResults.map((result) => (
+                    <tr key={result.marketplace}>
+                      <td>{result.marketplace}</td>
+                      <td>{result.exported}</td>
+                      <td
+                        title={result.dropped
+                          .map(
+                            (entry) =>
+                              `Row ${entry.row}: ${entry.reasons.join("; ")}`
+                          )
+                          .join("\n")}
+                      >
+                        {result.dropped.length}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+
+          {copyEdits.length && copyEditsFor === activeMarketplace ? (
+            <div style={{ marginTop: 18 }}>
+              <div
+                style={{
+                  display: "flex",
+                  gap: 10,
+                  alignItems: "center",
+                  flexWrap: "wrap",
+                  marginBottom: 10,
+                }}
+              >
+                <h3 style={{ fontSize: "1.05rem", color: "#ffc2c7" }}>
+                  Copy rewrites ({acceptedCopyCount}/{copyEdits.length}{" "}
+                  accepted)
+                </h3>
+                <button
+                  type="button"
+                  className="tag"
+                  onClick={() => reviewCopyEdit("all", "accepted")}
+                >
+                  Accept all
+                </button>
+                <button
+                  type="button"
+                  className="tag"
+                  onClick={() => reviewCopyEdit("all", "rejected")}
+                >
+                  Reject all
+                </button>
+              </div>
+              <div className="copy-diff-list">
+                {copyEdits.slice(0, 60).map((edit) => (
+                  <div
+                    key={cellKey(edit.row, edit.header)}
+                    className={`copy-diff ${edit.status}`}
+                  >
+                    <div className="microphone-status">
+                      Row {edit.row + 1} · {edit.header}
+                    </div>
+                    <del>{edit.original || "(empty)"}</del>
+                    <ins>{edit.proposed}</ins>
+                    <div style={{ display: "flex", gap: 8 }}>
+                      <button
+                        type="button"
+                        className="tag"
+                        disabled={edit.status === "accepted"}
+                        onClick={() => reviewCopyEdit(edit, "accepted")}
+                      >
+                        Accept
+                      </button>
+                      <button
+                        type="button"
+                        className="tag"
+                        disabled={edit.status === "rejected"}
+                        onClick={() => reviewCopyEdit(edit, "rejected")}
+                      >
+                        Reject
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {copyEdits.length > 60 ? (
+                <p className="microphone-status" style={{ marginTop: 8 }}>
+                  +{copyEdits.length - 60} more suggestions (use Accept all /
+                  Reject all)
+                </p>
+              ) : null}
+            </div>
+          ) : null}
+
           {enrichmentNotes.length ? (
             <div style={{ marginTop: 18 }}>
               <h3
@@ -483,8 +2307,9 @@ export default function CatalogAssistant() {
         </>
       ) : (
         <div className="empty-state" style={{ marginTop: 24 }}>
-          Upload both the marketplace template and your raw catalog extract to
-          activate Jarvis catalog automation.
+          Upload the {activeMarketplace} template and your raw catalog extract
+          to activate Jarvis catalog automation. Switch the focus marketplace to
+          attach templates for the other channels.
         </div>
       )}
     </div>
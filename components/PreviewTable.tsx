@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useRef, useState } from "react";
+import type { PreviewRow } from "@/lib/catalogJobs";
+
+const ROW_HEIGHT = 36;
+
+const VIEWPORT_HEIGHT = 420;
+
+/** Rows rendered beyond each edge of the viewport. */
+const OVERSCAN = 10;
+
+/** Rows fetched from the worker per request. */
+const BLOCK_SIZE = 100;
+
+type PreviewTableProps = {
+  headers: string[];
+  /** Rows in the preview (after the filter). */
+  total: number;
+  /** Bumped whenever the worker holds a new preview; drops fetched rows. */
+  version: number;
+  loadRows(start: number, end: number): Promise<PreviewRow[]>;
+};
+
+/**
+ * Scrolls through every generated row while only rendering the visible
+ * window. Rows stay in the catalog worker and are fetched in blocks as they
+ * scroll into view.
+ */
+export default function PreviewTable({
+  headers,
+  total,
+  version,
+  loadRows,
+}: PreviewTableProps) {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [cache, setCache] = useState<{
+    version: number;
+    blocks: Record<number, PreviewRow[]>;
+  }>({ version, blocks: {} });
+  const requested = useRef({ version, blocks: new Set<number>() });
+  const latestVersion = useRef(version);
+  latestVersion.current = version;
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(
+    total,
+    Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN
+  );
+  const blocks = cache.version === version ? cache.blocks : {};
+
+  useEffect(() => {
+    if (requested.current.version !== version) {
+      requested.current = { version, blocks: new Set() };
+    }
+    const pending = requested.current.blocks;
+    for (
+      let block = Math.floor(first / BLOCK_SIZE);
+      block * BLOCK_SIZE < last;
+      block += 1
+    ) {
+      if (pending.has(block)) continue;
+      pending.add(block);
+      loadRows(block * BLOCK_SIZE, (block + 1) * BLOCK_SIZE)
+        .then((rows) => {
+          if (latestVersion.current !== version) return;
+          setCache((prev) => ({
+            version,
+            blocks: {
+              ...(prev.version === version ? prev.blocks : {}),
+              [block]: rows,
+            },
+          }));
+        })
+        .catch((error) => {
+          pending.delete(block);
+          // Rows of a replaced preview are refused; the new one refetches.
+          if (latestVersion.current !== version) return;
+          console.error(error);
+        });
+    }
+  }, [first, last, version, loadRows]);
+
+  const visible = [];
+  for (let position = first; position < last; position += 1) {
+    const entry =
+      blocks[Math.floor(position / BLOCK_SIZE)]?.[position % BLOCK_SIZE];
+    visible.push(
+      entry ? (
+        <tr key={position}>
+          <td className="row-number">{entry.index + 1}</td>
+          {headers.map((header) => {
+            const cellIssues = entry.issues[header] ?? [];
+            const severity = cellIssues.some(
+              (issue) => issue.severity === "error"
+            )
+              ? "cell-error"
+              : cellIssues.length
+              ? "cell-warning"
+              : undefined;
+            const value = entry.row[header] ?? "";
+            return (
+              <td
+                key={header}
+                className={severity}
+                title={
+                  cellIssues.length
+                    ? cellIssues.map((issue) => issue.message).join("\n")
+                    : value || undefined
+                }
+              >
+                {value}
+              </td>
+            );
+          })}
+        </tr>
+      ) : (
+        <tr key={position}>
+          <td className="row-number microphone-status">…</td>
+          <td colSpan={headers.length} />
+        </tr>
+      )
+    );
+  }
+
+  return (
+    <div
+      className="virtual-table"
+      style={{ maxHeight: VIEWPORT_HEIGHT }}
+      onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+    >
+      <table className="catalog-table" style={{ marginTop: 0 }}>
+        <thead>
+          <tr>
+            <th className="row-number">#</th>
+            {headers.map((header) => (
+              <th key={header}>{header}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {first > 0 ? (
+            <tr aria-hidden style={{ height: first * ROW_HEIGHT }} />
+          ) : null}
+          {visible}
+          {last < total ? (
+            <tr aria-hidden style={{ height: (total - last) * ROW_HEIGHT }} />
+          ) : null}
+        </tbody>
+      </table>
+    </div>
+  );
+}
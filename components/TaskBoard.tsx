@@ -0,0 +1,373 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Marketplace, marketplaces } from "@/lib/catalog";
+import {
+  Recurrence,
+  TASKS_CHANGED_EVENT,
+  Task,
+  isOverdue,
+  recurrences,
+} from "@/lib/tasks";
+
+type Section = { title: string; tasks: Task[] };
+
+function dueLabel(task: Task): string {
+  if (!task.dueAt) return "No due date";
+  return new Date(task.dueAt).toLocaleString(undefined, {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export default function TaskBoard() {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [filterMarketplace, setFilterMarketplace] = useState<Marketplace | "">(
+    ""
+  );
+  const [showDone, setShowDone] = useState(false);
+  const [title, setTitle] = useState("");
+  const [due, setDue] = useState("");
+  const [recurrence, setRecurrence] = useState<Recurrence>("none");
+  const [tags, setTags] = useState<Marketplace[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTasks = useCallback(async () => {
+    try {
+      const query = filterMarketplace
+        ? `?marketplace=${encodeURIComponent(filterMarketplace)}`
+        : "";
+      const response = await fetch(`/api/tasks${query}`);
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      const data = await response.json();
+      setTasks(data.tasks ?? []);
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError("Could not load tasks. Check the server logs.");
+    }
+  }, [filterMarketplace]);
+
+  useEffect(() => {
+    void loadTasks();
+    const refresh = () => void loadTasks();
+    window.addEventListener(TASKS_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(TASKS_CHANGED_EVENT, refresh);
+  }, [loadTasks]);
+
+  const sections = useMemo<Section[]>(() => {
+    const now = new Date();
+    const today = now.toDateString();
+    const open = tasks.filter((task) => task.status !== "done");
+    const result: Section[] = [
+      { title: "Overdue", tasks: open.filter((task) => isOverdue(task, now)) },
+      {
+        title: "Today",
+        tasks: open.filter(
+          (task) =>
+            !!task.dueAt &&
+            !isOverdue(task, now) &&
+            new Date(task.dueAt).toDateString() === today
+        ),
+      },
+      {
+        title: "Upcoming",
+        tasks: open.filter(
+          (task) =>
+            !!task.dueAt &&
+            !isOverdue(task, now) &&
+            new Date(task.dueAt).toDateString() !== today
+        ),
+      },
+      { title: "Anytime", tasks: open.filter((task) => !task.dueAt) },
+    ];
+    if (showDone) {
+      result.push({
+        title: "Done",
+        tasks: tasks.filter((task) => task.status === "done"),
+      });
+    }
+    return result.filter((section) => section.tasks.length);
+  }, [tasks, showDone]);
+
+  const sendTask = async (
+    url: string,
+    method: "POST" | "PATCH" | "DELETE",
+    body?: Record<string, unknown>
+  ) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error ?? response.statusText);
+      }
+      await loadTasks();
+      return true;
+    } catch (err) {
+      console.error(err);
+      setError((err as Error).message);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const addTask = async () => {
+    if (!title.trim()) return;
+    const saved = await sendTask("/api/tasks", "POST", {
+      title,
+      dueAt: due ? new Date(due).toISOString() : null,
+      recurrence,
+      marketplaces: tags,
+    });
+    if (saved) {
+      setTitle("");
+      setDue("");
+      setRecurrence("none");
+      setTags([]);
+    }
+  };
+
+  const toggleTag = (marketplace: Marketplace) =>
+    setTags((prev) =>
+      prev.includes(marketplace)
+        ? prev.filter((entry) => entry !== marketplace)
+        : [...prev, marketplace]
+    );
+
+  const openCount = tasks.filter((task) => task.status !== "done").length;
+
+  return (
+    <div className="panel">
+      <div className="panel-title">
+        <div className="pill">Daily agenda</div>
+        <h2>Task Board</h2>
+      </div>
+      <p style={{ color: "rgba(188, 215, 255, 0.7)" }}>
+        Reminders and execution checklists for every channel. Ask Jarvis to add,
+        list or complete tasks by voice, or manage them here.
+      </p>
+
+      <div
+        style={{
+          display: "grid",
+          gap: 12,
+          gridTemplateColumns: "repeat(auto-fit, minmax(180px, 1fr))",
+          alignItems: "end",
+          marginTop: 18,
+        }}
+      >
+        <div>
+          <label htmlFor="task-title">New task</label>
+          <input
+            id="task-title"
+            type="text"
+            value={title}
+            placeholder="Refresh Myntra size charts"
+            onChange={(event) => setTitle(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") void addTask();
+            }}
+          />
+        </div>
+        <div>
+          <label htmlFor="task-due">Due</label>
+          <input
+            id="task-due"
+            type="datetime-local"
+            value={due}
+            onChange={(event) => setDue(event.target.value)}
+          />
+        </div>
+        <div>
+          <label htmlFor="task-recurrence">Repeats</label>
+          <select
+            id="task-recurrence"
+            value={recurrence}
+            onChange={(event) =>
+              setRecurrence(event.target.value as Recurrence)
+            }
+          >
+            {recurrences.map((entry) => (
+              <option key={entry} value={entry}>
+                {entry === "none" ? "Never" : entry}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="button"
+          className="microphone-button"
+          onClick={() => void addTask()}
+          disabled={isSaving || !title.trim()}
+        >
+          Add task
+        </button>
+      </div>
+
+      <div
+        style={{
+          display: "flex",
+          gap: 8,
+          flexWrap: "wrap",
+          alignItems: "center",
+          marginTop: 12,
+        }}
+      >
+        {marketplaces.map((marketplace) => (
+          <button
+            key={marketplace}
+            type="button"
+            className="tag"
+            onClick={() => toggleTag(marketplace)}
+            style={{
+              background: tags.includes(marketplace)
+                ? "rgba(0, 230, 179, 0.3)"
+                : undefined,
+            }}
+          >
+            {marketplace}
+          </button>
+        ))}
+      </div>
+
+      <div
+        style={{
+          display: "flex",
+          gap: 12,
+          flexWrap: "wrap",
+          alignItems: "center",
+          justifyContent: "space-between",
+          marginTop: 20,
+        }}
+      >
+        <span className="microphone-status">
+          {openCount} open task{openCount === 1 ? "" : "s"}
+        </span>
+        <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
+          <select
+            aria-label="Filter by marketplace"
+            value={filterMarketplace}
+            onChange={(event) =>
+              setFilterMarketplace(event.target.value as Marketplace | "")
+            }
+            style={{ width: "auto" }}
+          >
+            <option value="">All marketplaces</option>
+            {marketplaces.map((marketplace) => (
+              <option key={marketplace} value={marketplace}>
+                {marketplace}
+              </option>
+            ))}
+          </select>
+          <label
+            htmlFor="show-done"
+            style={{ display: "flex", alignItems: "center", gap: 6, margin: 0 }}
+          >
+            <input
+              id="show-done"
+              type="checkbox"
+              checked={showDone}
+              onChange={(event) => setShowDone(event.target.checked)}
+              style={{ width: 18, height: 18, accentColor: "#5c7cfa" }}
+            />
+            Show done
+          </label>
+        </div>
+      </div>
+
+      {error ? (
+        <p style={{ color: "#ffb3a8", marginTop: 12, fontSize: "0.9rem" }}>
+          {error}
+        </p>
+      ) : null}
+
+      {sections.length === 0 ? (
+        <div className="empty-state" style={{ marginTop: 16 }}>
+          Nothing on the board. Try &ldquo;Jarvis, remind me to reconcile
+          Flipkart returns tomorrow at 10&rdquo;.
+        </div>
+      ) : (
+        sections.map((section) => (
+          <div key={section.title} style={{ marginTop: 16 }}>
+            <label>
+              {section.title} ({section.tasks.length})
+            </label>
+            <ul className="task-list">
+              {section.tasks.map((task) => (
+                <li
+                  key={task.id}
+                  className={`task-item ${
+                    task.status === "done"
+                      ? "done"
+                      : isOverdue(task)
+                      ? "overdue"
+                      : ""
+                  }`}
+                >
+                  <button
+                    type="button"
+                    className="task-check"
+                    title={task.status === "done" ? "Reopen" : "Complete"}
+                    disabled={isSaving}
+                    onClick={() =>
+                      void sendTask(`/api/tasks/${task.id}`, "PATCH", {
+                        status: task.status === "done" ? "todo" : "done",
+                      })
+                    }
+                  >
+                    {task.status === "done" ? "✓" : ""}
+                  </button>
+                  <div style={{ display: "grid", gap: 4 }}>
+                    <span>{task.title}</span>
+                    <span className="microphone-status">
+                      {dueLabel(task)}
+                      {task.recurrence !== "none"
+                        ? ` · repeats ${task.recurrence}`
+                        : ""}
+                    </span>
+                    {task.marketplaces.length ? (
+                      <div>
+                        {task.marketplaces.map((marketplace) => (
+                          <span key={marketplace} className="tag">
+                            {marketplace}
+                          </span>
+                        ))}
+                      </div>
+                    ) : null}
+                  </div>
+                  <button
+                    type="button"
+                    title="Delete"
+                    disabled={isSaving}
+                    onClick={() =>
+                      void sendTask(`/api/tasks/${task.id}`, "DELETE")
+                    }
+                    style={{
+                      background: "transparent",
+                      color: "rgba(255, 255, 255, 0.5)",
+                      padding: "4px 8px",
+                    }}
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,30 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import useSpeechRecognition from "@/hooks/useSpeechRecognition";
+import { downloadBlob } from "@/lib/download";
+import { readEventStream } from "@/lib/eventStream";
+import {
+  Session,
+  SessionInfo,
+  sessionToJSON,
+  sessionToMarkdown,
+} from "@/lib/sessions";
+import {
+  END_OF_TURN_SILENCE_MS,
+  WAKE_WINDOW_MS,
+  VoiceLanguageId,
+  VoiceSettings,
+  afterWakePhrase,
+  defaultVoiceSettings,
+  findLanguage,
+  loadVoiceSettings,
+  pickVoice,
+  saveVoiceSettings,
+  voiceLanguages,
+  wakePhrases,
+} from "@/lib/voice";
+import { TASKS_CHANGED_EVENT } from "@/lib/tasks";
+import { currentWorkspace, dispatchCatalogAction } from "@/lib/workspace";
 
 type Message = {
   role: "user" | "assistant";
@@ -9,8 +33,29 @@ type Message = {
   timestamp: number;
 };
 
+function fileSlug(title: string): string {
+  return (
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "conversation"
+  );
+}
+
 const synth = typeof window !== "undefined" ? window.speechSynthesis : null;
 
+/** End of the last complete sentence in `text`, searching from `from`. */
+function sentenceBoundary(text: string, from: number): number {
+  const pattern = /[.!?।]["')\]]?\s+|\n+/g;
+  pattern.lastIndex = from;
+  let end = from;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    end = match.index + match[0].length;
+  }
+  return end;
+}
+
 const defaultPrompts = [
   "Summarise my Amazon order KPIs for the week.",
   "Draft listing copy for a Men's running shoe.",
@@ -23,27 +68,168 @@ export default function VoiceAgent() {
   const [input, setInput] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
   const [autoSpeak, setAutoSpeak] = useState(true);
+  const [handsFree, setHandsFree] = useState(false);
+  const [settings, setSettings] = useState<VoiceSettings>(defaultVoiceSettings);
+  const { wakePhrase } = settings;
+  const language = findLanguage(settings.language) ?? voiceLanguages[0];
+  const [awake, setAwake] = useState(false);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const speech = useRef({ generation: 0, pending: 0 });
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [sessionError, setSessionError] = useState<string | null>(null);
   const assistantConsoleRef = useRef<HTMLDivElement | null>(null);
 
-  const { transcript, isFinal, state, error, start, stop } =
-    useSpeechRecognition();
+  const { transcript, isFinal, state, engine, error, start, stop } =
+    useSpeechRecognition(language.locale);
+
+  useEffect(() => {
+    setSettings(loadVoiceSettings());
+  }, []);
+
+  /**
+   * Stops any speech in progress. Utterances from before the cancel may still
+   * report `end` or `error`; the generation counter makes them ignored.
+   */
+  const cancelSpeech = useCallback(() => {
+    synth?.cancel();
+    speech.current = { generation: speech.current.generation + 1, pending: 0 };
+    setIsSpeaking(false);
+  }, []);
 
   const playSpeech = useCallback(
-    (text: string) => {
-      if (!autoSpeak || !synth) return;
-      synth.cancel();
-      const voice = synth
-        .getVoices()
-        .find((v) => v.lang.startsWith("en") && v.name.includes("Assistant"));
+    (text: string, queue = false) => {
+      if (!autoSpeak || !synth || !text.trim()) return;
+      if (!queue) cancelSpeech();
       const utterance = new SpeechSynthesisUtterance(text);
-      utterance.voice = voice ?? null;
+      utterance.lang = language.locale;
+      utterance.voice = pickVoice(synth.getVoices(), language);
       utterance.rate = 1.05;
       utterance.pitch = 1.02;
+      const { generation } = speech.current;
+      utterance.onend = utterance.onerror = () => {
+        if (speech.current.generation !== generation) return;
+        speech.current.pending = Math.max(0, speech.current.pending - 1);
+        if (!speech.current.pending) setIsSpeaking(false);
+      };
+      speech.current.pending += 1;
+      setIsSpeaking(true);
       synth.speak(utterance);
     },
-    [autoSpeak]
+    [autoSpeak, cancelSpeech, language]
   );
 
+  const loadSessions = useCallback(async () => {
+    try {
+      const response = await fetch("/api/sessions");
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      const data = await response.json();
+      setSessions(data.sessions ?? []);
+      setSessionError(null);
+    } catch (err) {
+      console.error(err);
+      setSessionError("Could not load saved conversations.");
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadSessions();
+  }, [loadSessions]);
+
+  const fetchSession = async (id: string): Promise<Session> => {
+    const response = await fetch(`/api/sessions/${id}`);
+    if (!response.ok) {
+      throw new Error(await response.text());
+    }
+    return (await response.json()).session;
+  };
+
+  const resumeSession = async (id: string) => {
+    setRenaming(null);
+    if (!id) {
+      setSessionId(null);
+      setMessages([]);
+      return;
+    }
+    try {
+      const session = await fetchSession(id);
+      setSessionId(session.id);
+      setMessages(session.messages);
+      setSessionError(null);
+    } catch (err) {
+      console.error(err);
+      setSessionError("Could not open that conversation.");
+    }
+  };
+
+  const renameSession = async () => {
+    const title = renaming?.trim();
+    setRenaming(null);
+    if (!sessionId || !title) return;
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      });
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      await loadSessions();
+    } catch (err) {
+      console.error(err);
+      setSessionError("Could not rename the conversation.");
+    }
+  };
+
+  const deleteSession = async () => {
+    if (!sessionId || !window.confirm("Delete this conversation?")) return;
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      setSessionId(null);
+      setMessages([]);
+      await loadSessions();
+    } catch (err) {
+      console.error(err);
+      setSessionError("Could not delete the conversation.");
+    }
+  };
+
+  const exportSession = async (format: "md" | "json") => {
+    if (!sessionId) return;
+    try {
+      const session = await fetchSession(sessionId);
+      const blob =
+        format === "md"
+          ? new Blob([sessionToMarkdown(session)], { type: "text/markdown" })
+          : new Blob([sessionToJSON(session)], { type: "application/json" });
+      downloadBlob(blob, `${fileSlug(session.title)}.${format}`);
+    } catch (err) {
+      console.error(err);
+      setSessionError("Could not export the conversation.");
+    }
+  };
+
+  /** The open session, created on the first message of a new conversation. */
+  const ensureSession = useCallback(async (): Promise<string> => {
+    if (sessionId) return sessionId;
+    const response = await fetch("/api/sessions", { method: "POST" });
+    if (!response.ok) {
+      throw new Error(await response.text());
+    }
+    const { session } = await response.json();
+    setSessionId(session.id);
+    return session.id;
+  }, [sessionId]);
+
   const handleSubmit = useCallback(
     async (pendingInput?: string, fromVoice = false) => {
       const content = (pendingInput ?? input).trim();
@@ -56,14 +242,28 @@ export default function VoiceAgent() {
         { role: "user", content, timestamp: Date.now() },
       ]);
 
+      const replyTimestamp = Date.now() + 1;
+      const updateReply = (reply: string) =>
+        setMessages((curr) =>
+          curr.map((message) =>
+            message.role === "assistant" && message.timestamp === replyTimestamp
+              ? { ...message, content: reply }
+              : message
+          )
+        );
+
       try {
         const response = await fetch("/api/assistant", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             message: content,
-            history: messages.slice(-6),
+            sessionId: await ensureSession(),
             mode: fromVoice ? "voice" : "text",
+            stream: true,
+            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+            language: language.id,
+            workspace: currentWorkspace(),
           }),
         });
 
@@ -71,20 +271,42 @@ export default function VoiceAgent() {
           throw new Error(await response.text());
         }
 
-        const data = await response.json();
         setMessages((curr) => [
           ...curr,
-          {
-            role: "assistant",
-            content: data.reply,
-            timestamp: Date.now(),
-          },
+          { role: "assistant", content: "", timestamp: replyTimestamp },
         ]);
+        cancelSpeech();
 
-        playSpeech(data.reply);
+        let reply = "";
+        let spoken = 0;
+        await readEventStream(response, (event) => {
+          if (event.error) throw new Error(event.error);
+          if (event.action) {
+            dispatchCatalogAction(event.action);
+            return;
+          }
+          if (typeof event.tool === "string") {
+            window.dispatchEvent(new Event(TASKS_CHANGED_EVENT));
+            return;
+          }
+          if (typeof event.delta !== "string") return;
+          reply += event.delta;
+          updateReply(reply);
+          // Speak each sentence as soon as it is complete.
+          const boundary = sentenceBoundary(reply, spoken);
+          if (boundary > spoken) {
+            playSpeech(reply.slice(spoken, boundary), true);
+            spoken = boundary;
+          }
+        });
+        playSpeech(reply.slice(spoken), true);
+        if (!reply) updateReply("I have processed the task.");
       } catch (err) {
         setMessages((curr) => [
-          ...curr,
+          ...curr.filter(
+            (message) =>
+              !(message.timestamp === replyTimestamp && !message.content)
+          ),
           {
             role: "assistant",
             content:
@@ -95,9 +317,10 @@ export default function VoiceAgent() {
         console.error(err);
       } finally {
         setIsProcessing(false);
+        void loadSessions();
       }
     },
-    [input, messages, playSpeech]
+    [cancelSpeech, ensureSession, input, language, loadSessions, playSpeech]
   );
 
   useEffect(() => {
@@ -106,9 +329,70 @@ export default function VoiceAgent() {
   }, [transcript]);
 
   useEffect(() => {
-    if (!isFinal || !transcript) return;
+    if (handsFree || !isFinal || !transcript) return;
     void handleSubmit(transcript, true);
-  }, [handleSubmit, isFinal, transcript]);
+  }, [handleSubmit, handsFree, isFinal, transcript]);
+
+  // Hands-free: listen only while Jarvis is neither thinking nor talking, so
+  // it never hears its own replies. The short delay lets the speaker settle.
+  const shouldListen = handsFree && !isProcessing && !isSpeaking;
+  useEffect(() => {
+    if (!handsFree) return;
+    if (!shouldListen) {
+      if (state === "listening") stop();
+      return;
+    }
+    if (state === "listening" || state === "unsupported") return;
+    const timer = window.setTimeout(start, 300);
+    return () => window.clearTimeout(timer);
+  }, [handsFree, shouldListen, start, state, stop]);
+
+  useEffect(() => {
+    if (error === "not-allowed" || error === "service-not-allowed") {
+      setHandsFree(false);
+    }
+  }, [error]);
+
+  // End of turn: once the room has been quiet for a moment, act on whatever
+  // followed the wake phrase. Stopping clears the transcript for the next turn.
+  useEffect(() => {
+    if (!handsFree || state !== "listening" || !transcript) return;
+    const timer = window.setTimeout(() => {
+      const heard =
+        wakePhrases(wakePhrase, language)
+          .map((phrase) => afterWakePhrase(transcript, phrase))
+          .find((rest) => rest !== null) ?? null;
+      const command = heard ?? (awake ? transcript.trim() : null);
+      stop();
+      if (command === null) {
+        setInput("");
+        return;
+      }
+      if (!command) {
+        setAwake(true);
+        setInput("");
+        return;
+      }
+      setAwake(false);
+      void handleSubmit(command, true);
+    }, END_OF_TURN_SILENCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [
+    awake,
+    handleSubmit,
+    handsFree,
+    language,
+    state,
+    stop,
+    transcript,
+    wakePhrase,
+  ]);
+
+  useEffect(() => {
+    if (!awake) return;
+    const timer = window.setTimeout(() => setAwake(false), WAKE_WINDOW_MS);
+    return () => window.clearTimeout(timer);
+  }, [awake]);
 
   useEffect(() => {
     if (!assistantConsoleRef.current) return;
@@ -116,6 +400,25 @@ export default function VoiceAgent() {
       assistantConsoleRef.current.scrollHeight;
   }, [messages]);
 
+  const toggleHandsFree = () => {
+    if (handsFree) {
+      stop();
+      setAwake(false);
+    } else {
+      cancelSpeech();
+    }
+    setHandsFree(!handsFree);
+  };
+
+  const updateSettings = (patch: Partial<VoiceSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveVoiceSettings({
+      ...next,
+      wakePhrase: next.wakePhrase.trim() || defaultVoiceSettings.wakePhrase,
+    });
+  };
+
   const toggleMic = useCallback(() => {
     if (state === "listening") {
       stop();
@@ -125,6 +428,12 @@ export default function VoiceAgent() {
   }, [start, stop, state]);
 
   const micLabel = useMemo(() => {
+    if (handsFree && state !== "unsupported" && state !== "error") {
+      if (isSpeaking) return "Speaking… mic paused";
+      if (isProcessing) return "Thinking… mic paused";
+      if (awake) return "Listening for your command…";
+      return `Hands-free: say “${wakePhrase.trim() || "Jarvis"}” and a command`;
+    }
     switch (state) {
       case "unsupported":
         return "Browser doesn't support voice capture";
@@ -135,7 +444,7 @@ export default function VoiceAgent() {
       default:
         return "Push to talk";
     }
-  }, [state, error]);
+  }, [awake, error, handsFree, isProcessing, isSpeaking, state, wakePhrase]);
 
   return (
     <div className="panel" style={{ position: "relative" }}>
@@ -148,10 +457,100 @@ export default function VoiceAgent() {
         routines, inventory updates, and cross-marketplace listings.
       </p>
 
+      <div
+        style={{
+          display: "flex",
+          gap: 8,
+          flexWrap: "wrap",
+          alignItems: "center",
+          marginTop: 18,
+        }}
+      >
+        {renaming !== null ? (
+          <input
+            aria-label="Conversation title"
+            type="text"
+            value={renaming}
+            autoFocus
+            onChange={(event) => setRenaming(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") void renameSession();
+              if (event.key === "Escape") setRenaming(null);
+            }}
+            onBlur={() => void renameSession()}
+            style={{ flex: "1 1 200px" }}
+          />
+        ) : (
+          <select
+            aria-label="Conversation"
+            value={sessionId ?? ""}
+            onChange={(event) => void resumeSession(event.target.value)}
+            disabled={isProcessing}
+            style={{ flex: "1 1 200px", width: "auto" }}
+          >
+            <option value="">New conversation</option>
+            {sessions.map((session) => (
+              <option key={session.id} value={session.id}>
+                {session.title} ({session.messageCount})
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          type="button"
+          className="tag"
+          onClick={() => void resumeSession("")}
+          disabled={!sessionId || isProcessing}
+        >
+          New
+        </button>
+        <button
+          type="button"
+          className="tag"
+          onClick={() =>
+            setRenaming(
+              sessions.find((session) => session.id === sessionId)?.title ?? ""
+            )
+          }
+          disabled={!sessionId}
+        >
+          Rename
+        </button>
+        <button
+          type="button"
+          className="tag"
+          onClick={() => void exportSession("md")}
+          disabled={!sessionId}
+        >
+          Export .md
+        </button>
+        <button
+          type="button"
+          className="tag"
+          onClick={() => void exportSession("json")}
+          disabled={!sessionId}
+        >
+          Export .json
+        </button>
+        <button
+          type="button"
+          className="tag"
+          onClick={() => void deleteSession()}
+          disabled={!sessionId || isProcessing}
+        >
+          Delete
+        </button>
+      </div>
+      {sessionError ? (
+        <p style={{ color: "#ffb3a8", marginTop: 8, fontSize: "0.9rem" }}>
+          {sessionError}
+        </p>
+      ) : null}
+
       <div
         ref={assistantConsoleRef}
         className="assistant-console"
-        style={{ marginTop: 18 }}
+        style={{ marginTop: 12 }}
       >
         {messages.length === 0 ? (
           <div className="empty-state">
@@ -193,14 +592,53 @@ export default function VoiceAgent() {
                 state === "listening" ? "active" : ""
               }`}
               onClick={toggleMic}
-              disabled={state === "unsupported"}
+              disabled={state === "unsupported" || handsFree}
             >
-              {state === "listening" ? "● Recording" : "🎙️ Mic"}
+              {state === "listening" && !handsFree ? "● Recording" : "🎙️ Mic"}
+            </button>
+            <button
+              type="button"
+              className={`microphone-button ${handsFree ? "active" : ""}`}
+              onClick={toggleHandsFree}
+              disabled={state === "unsupported" || engine === "recorder"}
+              title={
+                engine === "recorder"
+                  ? "Hands-free needs live speech recognition, which this browser lacks"
+                  : "Listen continuously and respond to the wake phrase"
+              }
+            >
+              {handsFree ? "● Hands-free" : "Hands-free"}
             </button>
             <div className="microphone-status">{micLabel}</div>
           </div>
 
           <div style={{ display: "flex", gap: 12, alignItems: "center" }}>
+            <input
+              aria-label="Wake phrase"
+              type="text"
+              value={wakePhrase}
+              placeholder="Wake phrase"
+              onChange={(event) =>
+                updateSettings({ wakePhrase: event.target.value })
+              }
+              style={{ width: 120 }}
+            />
+            <select
+              aria-label="Voice language"
+              value={language.id}
+              onChange={(event) =>
+                updateSettings({
+                  language: event.target.value as VoiceLanguageId,
+                })
+              }
+              style={{ width: "auto" }}
+            >
+              {voiceLanguages.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.label}
+                </option>
+              ))}
+            </select>
             <label
               htmlFor="autospeak"
               style={{ display: "flex", alignItems: "center", gap: 6 }}
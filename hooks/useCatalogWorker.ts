@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { CatalogJob, JobProgress } from "@/lib/catalogJobs";
+import { CatalogWorker, createCatalogWorker } from "@/lib/catalogWorker";
+
+export type ActiveJob = JobProgress & {
+  id: number;
+  label: string;
+  cancel(): void;
+};
+
+/**
+ * One catalog worker per component. Jobs given a label are listed in `jobs`
+ * with their latest progress until they settle.
+ */
+export default function useCatalogWorker() {
+  const workerRef = useRef<CatalogWorker | null>(null);
+  const nextId = useRef(1);
+  const [jobs, setJobs] = useState<ActiveJob[]>([]);
+
+  useEffect(
+    () => () => {
+      workerRef.current?.dispose();
+      workerRef.current = null;
+    },
+    []
+  );
+
+  const run = useCallback(<T extends CatalogJob>(job: T, label?: string) => {
+    const worker = (workerRef.current ??= createCatalogWorker());
+    if (!label) return worker.run(job);
+
+    const id = nextId.current++;
+    const handle = worker.run(job, (progress) =>
+      setJobs((prev) =>
+        prev.map((entry) =>
+          entry.id === id ? { ...entry, ...progress } : entry
+        )
+      )
+    );
+    setJobs((prev) => [
+      ...prev,
+      { id, label, phase: label, done: 0, total: 0, cancel: handle.cancel },
+    ]);
+    const settle = () =>
+      setJobs((prev) => prev.filter((entry) => entry.id !== id));
+    handle.promise.then(settle, settle);
+    return handle;
+  }, []);
+
+  return { run, jobs };
+}
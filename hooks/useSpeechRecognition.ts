@@ -1,7 +1,17 @@
 import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  createRecorderRecognition,
+  recorderRecognitionSupported,
+} from "@/lib/recorderRecognition";
 
 type RecognitionState = "idle" | "listening" | "error" | "unsupported";
 
+/**
+ * "speech" is the browser's live recogniser; "recorder" records a clip and
+ * transcribes it on the server once stopped, so it has no interim results.
+ */
+type RecognitionEngine = "speech" | "recorder";
+
 type SpeechRecognitionConstructor = new () => any;
 
 interface RecognitionResult {
@@ -9,9 +19,11 @@ interface RecognitionResult {
   isFinal: boolean;
 }
 
-export default function useSpeechRecognition() {
+/** `lang` is a BCP 47 tag; changes apply from the next `start()`. */
+export default function useSpeechRecognition(lang = "en-US") {
   const recognitionRef = useRef<any>(null);
   const [state, setState] = useState<RecognitionState>("idle");
+  const [engine, setEngine] = useState<RecognitionEngine | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<RecognitionResult>({
     transcript: "",
@@ -25,13 +37,17 @@ export default function useSpeechRecognition() {
       (window as unknown as { SpeechRecognition: SpeechRecognitionConstructor })
         .SpeechRecognition ?? window.webkitSpeechRecognition;
 
-    if (!SpeechRecognition) {
+    const recorder = !SpeechRecognition && recorderRecognitionSupported();
+    if (!SpeechRecognition && !recorder) {
       setState("unsupported");
       return;
     }
 
-    const recognition = new SpeechRecognition();
-    recognition.lang = "en-US";
+    const recognition: any = recorder
+      ? createRecorderRecognition()
+      : new SpeechRecognition();
+    setEngine(recorder ? "recorder" : "speech");
+    recognition.lang = lang;
     recognition.interimResults = true;
     recognition.maxAlternatives = 1;
     recognition.continuous = true;
@@ -49,7 +65,6 @@ export default function useSpeechRecognition() {
 
     recognition.onend = () => {
       setState("idle");
-      recognitionRef.current = null;
     };
 
     recognition.onresult = (event: any) => {
@@ -72,8 +87,14 @@ export default function useSpeechRecognition() {
       recognition.onresult = null;
       recognition.stop();
     };
+    // Created once; the language effect below keeps `lang` current.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useEffect(() => {
+    if (recognitionRef.current) recognitionRef.current.lang = lang;
+  }, [lang]);
+
   const start = useCallback(() => {
     if (!recognitionRef.current) return;
     try {
@@ -91,6 +112,7 @@ export default function useSpeechRecognition() {
     transcript: result.transcript,
     isFinal: result.isFinal,
     state,
+    engine,
     error,
     start,
     stop,
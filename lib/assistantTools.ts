@@ -0,0 +1,418 @@
+import {
+  MappingEntry,
+  marketplaces,
+  normalizeKey,
+  resolveHeaders,
+} from "@/lib/catalog";
+import { evaluateExpression } from "@/lib/expressions";
+import { ToolCall, ToolDefinition, ToolSet } from "@/lib/llm";
+import { Task, TaskFilter, recurrences, sanitizeTaskInput } from "@/lib/tasks";
+import { createTask, listTasks, updateTask } from "@/lib/taskStore";
+import {
+  CatalogAction,
+  CatalogWorkspace,
+  ChannelSnapshot,
+  PreviewCondition,
+} from "@/lib/workspace";
+
+export const taskToolDefinitions: ToolDefinition[] = [
+  {
+    name: "create_task",
+    description:
+      "Create a task or reminder on the user's dashboard. Use for anything the user asks to be reminded of, scheduled or tracked.",
+    parameters: {
+      type: "object",
+      properties: {
+        title: { type: "string", description: "Short imperative summary." },
+        notes: { type: "string" },
+        due_at: {
+          type: "string",
+          description:
+            "ISO 8601 date-time with offset, resolved from phrases like 'tomorrow 10am'. Omit when no time was given.",
+        },
+        recurrence: { type: "string", enum: [...recurrences] },
+        marketplaces: {
+          type: "array",
+          items: { type: "string", enum: [...marketplaces] },
+        },
+      },
+      required: ["title"],
+    },
+  },
+  {
+    name: "list_tasks",
+    description: "List tasks on the dashboard, optionally filtered.",
+    parameters: {
+      type: "object",
+      properties: {
+        status: { type: "string", enum: ["open", "done", "all"] },
+        due: { type: "string", enum: ["overdue", "today", "upcoming", "any"] },
+        marketplace: { type: "string", enum: [...marketplaces] },
+      },
+    },
+  },
+  {
+    name: "complete_task",
+    description:
+      "Mark a task as done. Recurring tasks move to their next due date. Pass the id from list_tasks, or a title fragment when the id is unknown.",
+    parameters: {
+      type: "object",
+      properties: {
+        id: { type: "string" },
+        title: { type: "string" },
+      },
+    },
+  },
+];
+
+/** Trimmed task shape handed back to the model. */
+function summarize(task: Task) {
+  return {
+    id: task.id,
+    title: task.title,
+    due_at: task.dueAt,
+    recurrence: task.recurrence,
+    marketplaces: task.marketplaces,
+    status: task.status,
+  };
+}
+
+async function findOpenTask(args: Record<string, unknown>): Promise<Task> {
+  const open = await listTasks({ status: "open" });
+  if (typeof args.id === "string" && args.id) {
+    const task = open.find((entry) => entry.id === args.id);
+    if (task) return task;
+  }
+  const fragment = typeof args.title === "string" ? args.title.trim() : "";
+  if (!fragment) throw new Error("Pass the task id or part of its title.");
+  const matches = open.filter((task) =>
+    task.title.toLowerCase().includes(fragment.toLowerCase())
+  );
+  if (matches.length === 1) return matches[0];
+  if (!matches.length) throw new Error(`No open task matches "${fragment}".`);
+  throw new Error(
+    `"${fragment}" matches ${matches.length} tasks: ${matches
+      .map((task) => task.title)
+      .join("; ")}. Ask which one.`
+  );
+}
+
+export async function runTaskTool(call: ToolCall): Promise<unknown> {
+  const args = call.arguments;
+  switch (call.name) {
+    case "create_task": {
+      const input = sanitizeTaskInput({
+        title: args.title,
+        notes: args.notes,
+        dueAt: args.due_at,
+        recurrence: args.recurrence,
+        marketplaces: args.marketplaces,
+      });
+      return { created: summarize(await createTask(input)) };
+    }
+    case "list_tasks": {
+      const filter: TaskFilter = {
+        status: (args.status as TaskFilter["status"]) ?? "open",
+        due: args.due as TaskFilter["due"],
+        marketplace: marketplaces.find((entry) => entry === args.marketplace),
+      };
+      const tasks = await listTasks(filter);
+      return { tasks: tasks.slice(0, 25).map(summarize), total: tasks.length };
+    }
+    case "complete_task": {
+      const task = await findOpenTask(args);
+      const updated = await updateTask(task.id, { status: "done" });
+      return { completed: updated && summarize(updated) };
+    }
+    default:
+      throw new Error(`Unknown tool ${call.name}.`);
+  }
+}
+
+export const catalogToolDefinitions: ToolDefinition[] = [
+  {
+    name: "map_column",
+    description:
+      'Map a marketplace template column to a raw sheet column, or to a mapping expression such as concat(brand, " ", [Product Name]). Pass an empty source_column to clear the mapping.',
+    parameters: {
+      type: "object",
+      properties: {
+        template_column: { type: "string" },
+        source_column: { type: "string" },
+        expression: { type: "string" },
+      },
+      required: ["template_column"],
+    },
+  },
+  {
+    name: "switch_marketplace",
+    description: "Change the focus marketplace of the Catalog Autopilot.",
+    parameters: {
+      type: "object",
+      properties: {
+        marketplace: { type: "string", enum: [...marketplaces] },
+      },
+      required: ["marketplace"],
+    },
+  },
+  {
+    name: "filter_rows",
+    description:
+      "Filter the catalog preview, e.g. rows with a missing price or rows with validation errors. Use condition 'clear' to show every row again.",
+    parameters: {
+      type: "object",
+      properties: {
+        column: {
+          type: "string",
+          description:
+            "Template column or concept (price, title, size...). Omit to test every column.",
+        },
+        condition: {
+          type: "string",
+          enum: ["missing", "error", "warning", "issue", "clear"],
+        },
+      },
+      required: ["condition"],
+    },
+  },
+  {
+    name: "export_catalog",
+    description:
+      "Download the generated catalog: 'current' for the focus marketplace workbook, 'all' for a ZIP of every channel with a template.",
+    parameters: {
+      type: "object",
+      properties: {
+        scope: { type: "string", enum: ["current", "all"] },
+      },
+    },
+  },
+  {
+    name: "run_enrichment",
+    description:
+      "Run copy & SEO enrichment on the preview rows of the focus marketplace.",
+    parameters: { type: "object", properties: {} },
+  },
+];
+
+/** Exact, then normalised, then synonym/phrase match against `headers`. */
+function matchHeader(headers: string[], name: unknown): string | undefined {
+  const wanted = typeof name === "string" ? name.trim() : "";
+  if (!wanted) return undefined;
+  return (
+    headers.find((header) => header === wanted) ??
+    headers.find((header) => normalizeKey(header) === normalizeKey(wanted)) ??
+    resolveHeaders(headers, wanted)[0]
+  );
+}
+
+/** The focus channel, or an error the model can relay to the user. */
+function requireSheets(workspace: CatalogWorkspace): ChannelSnapshot {
+  const channel = workspace.channels[workspace.activeMarketplace];
+  if (!channel?.templateHeaders.length || !workspace.rawHeaders.length) {
+    throw new Error(
+      `Upload the ${workspace.activeMarketplace} template and the raw catalog in the Catalog Autopilot first.`
+    );
+  }
+  return channel;
+}
+
+/**
+ * Validates a catalog tool call against the workspace snapshot and turns it
+ * into a `CatalogAction` for the browser. The snapshot is updated in place so
+ * later calls in the same turn see the change.
+ */
+export function runCatalogTool(
+  call: ToolCall,
+  workspace: CatalogWorkspace
+): { applied: string; action: CatalogAction } {
+  const args = call.arguments;
+  switch (call.name) {
+    case "map_column": {
+      const channel = requireSheets(workspace);
+      const header = matchHeader(channel.templateHeaders, args.template_column);
+      if (!header) {
+        throw new Error(
+          `No template column "${
+            args.template_column
+          }". Columns: ${channel.templateHeaders.join(", ")}.`
+        );
+      }
+      let entry: MappingEntry;
+      let applied: string;
+      if (typeof args.expression === "string" && args.expression.trim()) {
+        const expression = args.expression.trim();
+        // Surfaces syntax errors and unknown columns before the UI sees it.
+        evaluateExpression(expression, {}, workspace.rawHeaders);
+        entry = { expression };
+        applied = `Mapped '${header}' ← ${expression}`;
+      } else if (
+        typeof args.source_column === "string" &&
+        args.source_column.trim()
+      ) {
+        const source = matchHeader(workspace.rawHeaders, args.source_column);
+        if (!source) {
+          throw new Error(
+            `No raw column "${
+              args.source_column
+            }". Columns: ${workspace.rawHeaders.join(", ")}.`
+          );
+        }
+        entry = source;
+        applied = `Mapped '${header}' ← '${source}'`;
+      } else {
+        entry = "";
+        applied = `Cleared the mapping for '${header}'`;
+      }
+      channel.mapping = { ...channel.mapping, [header]: entry };
+      return {
+        applied,
+        action: {
+          type: "map",
+          marketplace: workspace.activeMarketplace,
+          header,
+          entry,
+        },
+      };
+    }
+    case "switch_marketplace": {
+      const marketplace = marketplaces.find(
+        (entry) =>
+          entry.toLowerCase() === String(args.marketplace).toLowerCase()
+      );
+      if (!marketplace) {
+        throw new Error(`Unknown marketplace "${args.marketplace}".`);
+      }
+      if (marketplace !== workspace.activeMarketplace) {
+        // Validation totals belong to the previous focus channel.
+        workspace.errorCount = 0;
+        workspace.warningCount = 0;
+      }
+      workspace.activeMarketplace = marketplace;
+      const hasTemplate = Boolean(workspace.channels[marketplace]);
+      return {
+        applied: `Switched focus to ${marketplace}${
+          hasTemplate ? "" : " (no template attached yet)"
+        }`,
+        action: { type: "marketplace", marketplace },
+      };
+    }
+    case "filter_rows": {
+      if (args.condition === "clear") {
+        return {
+          applied: "Cleared the preview filter",
+          action: { type: "filter", filter: null },
+        };
+      }
+      const channel = requireSheets(workspace);
+      const condition = (
+        ["missing", "error", "warning", "issue"] as const
+      ).find((entry) => entry === args.condition);
+      if (!condition) throw new Error(`Unknown condition "${args.condition}".`);
+      let header: string | null = null;
+      if (args.column) {
+        header = matchHeader(channel.templateHeaders, args.column) ?? null;
+        if (!header) throw new Error(`No template column "${args.column}".`);
+      }
+      const labels: Record<PreviewCondition, string> = {
+        missing: "missing",
+        error: "with errors in",
+        warning: "with warnings in",
+        issue: "with issues in",
+      };
+      return {
+        applied: `Showing rows ${labels[condition]} ${
+          header ? `'${header}'` : "any column"
+        }`,
+        action: { type: "filter", filter: { header, condition } },
+      };
+    }
+    case "export_catalog": {
+      const scope = args.scope === "all" ? "all" : "current";
+      if (!workspace.rawHeaders.length) {
+        throw new Error("Upload the raw catalog before exporting.");
+      }
+      if (scope === "all") {
+        const attached = Object.keys(workspace.channels);
+        if (!attached.length) {
+          throw new Error("No marketplace templates are attached yet.");
+        }
+        return {
+          applied: `Exporting ${attached.join(", ")} as a ZIP`,
+          action: { type: "export", scope },
+        };
+      }
+      requireSheets(workspace);
+      if (workspace.errorCount) {
+        throw new Error(
+          `Export is blocked by ${workspace.errorCount} validation error(s) on ${workspace.activeMarketplace}.`
+        );
+      }
+      return {
+        applied: `Exporting the ${workspace.activeMarketplace} workbook`,
+        action: { type: "export", scope },
+      };
+    }
+    case "run_enrichment":
+      requireSheets(workspace);
+      return {
+        applied: `Running enrichment for ${workspace.activeMarketplace}`,
+        action: { type: "enrich" },
+      };
+    default:
+      throw new Error(`Unknown tool ${call.name}.`);
+  }
+}
+
+/** Workspace summary appended to the system prompt. */
+export function describeWorkspace(workspace: CatalogWorkspace): string {
+  const channel = workspace.channels[workspace.activeMarketplace];
+  const attached = Object.keys(workspace.channels);
+  if (!channel && !workspace.rawHeaders.length) {
+    return `Catalog Autopilot: focus ${workspace.activeMarketplace}, no sheets uploaded.`;
+  }
+  const lines = [
+    `Catalog Autopilot: focus ${workspace.activeMarketplace}`,
+    `templates attached for ${attached.join(", ") || "none"}`,
+    `${workspace.rowCount} raw rows`,
+    `raw columns: ${workspace.rawHeaders.join(" | ") || "none uploaded"}`,
+  ];
+  if (channel) {
+    const mapped = channel.templateHeaders.filter(
+      (header) => channel.mapping[header]
+    ).length;
+    lines.push(
+      `${mapped}/${channel.templateHeaders.length} template columns mapped`,
+      `${workspace.errorCount} errors, ${workspace.warningCount} warnings`,
+      `template columns: ${channel.templateHeaders.join(" | ")}`
+    );
+  }
+  return lines.join("; ");
+}
+
+const catalogToolNames = new Set(
+  catalogToolDefinitions.map((tool) => tool.name)
+);
+
+/**
+ * Task and catalog tools for one assistant turn. `onResult` hears about every
+ * successful task call; `onAction` receives catalog changes for the browser.
+ */
+export function assistantTools(options: {
+  workspace: CatalogWorkspace;
+  onResult?: (name: string, result: unknown) => void;
+  onAction?: (action: CatalogAction) => void;
+}): ToolSet {
+  return {
+    definitions: [...taskToolDefinitions, ...catalogToolDefinitions],
+    async execute(call) {
+      if (catalogToolNames.has(call.name)) {
+        const { applied, action } = runCatalogTool(call, options.workspace);
+        options.onAction?.(action);
+        return { applied };
+      }
+      const result = await runTaskTool(call);
+      options.onResult?.(call.name, result);
+      return result;
+    },
+  };
+}
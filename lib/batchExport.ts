@@ -0,0 +1,170 @@
+import JSZip from "jszip";
+import * as XLSX from "xlsx";
+import { SheetData, SheetRow, buildSheet } from "@/lib/sheet";
+import { Mapping, Marketplace, transformCatalog } from "@/lib/catalog";
+import { validateRows } from "@/lib/validation";
+import { applyCellOverrides } from "@/lib/copywriting";
+import { applyCategoryValues } from "@/lib/taxonomy";
+import { normalizeRows } from "@/lib/normalizers";
+import { variantFamilies } from "@/lib/variants";
+import {
+  ExportFormat,
+  NamedSheet,
+  TemplateFile,
+  exportRows,
+} from "@/lib/templateExport";
+
+export type BatchChannel = {
+  marketplace: Marketplace;
+  template: SheetData;
+  mapping: Mapping;
+  /** Reviewed cell values (keyed by `cellKey`) that replace generated ones. */
+  overrides?: Record<string, string>;
+  /** Confirmed category translations, see `categoryCellValues`. */
+  categories?: Record<string, string>;
+  /** Attached image values per SKU, see `imageCellValues`. */
+  images?: Record<string, string[]>;
+  /** The uploaded template, for its rules and to export into a copy of it. */
+  templateFile?: TemplateFile | null;
+  /** Added to this channel's workbook, e.g. its change log. */
+  extraSheets?: NamedSheet[];
+};
+
+export type DroppedRow = {
+  /** One-based output row number, matching the preview and validation list. */
+  row: number;
+  reasons: string[];
+};
+
+export type BatchChannelResult = {
+  marketplace: Marketplace;
+  filename: string;
+  exported: number;
+  dropped: DroppedRow[];
+};
+
+/**
+ * Builds one file per channel from the same raw sheet, in `options.format`
+ * (a plain workbook by default). Rows with blocking validation errors for a
+ * channel are left out of that channel's file, together with the rest of
+ * their variation family, and reported in the summary instead.
+ */
+export async function buildBatchZip(
+  raw: SheetData,
+  channels: BatchChannel[],
+  options: { groupVariants?: boolean; format?: ExportFormat } = {}
+): Promise<{ zip: Blob; results: BatchChannelResult[] }> {
+  const zip = new JSZip();
+  const stamp = Date.now();
+
+  const results: BatchChannelResult[] = [];
+  for (const channel of channels) {
+    const { marketplace, template, mapping } = channel;
+    const schema = channel.templateFile?.schema ?? null;
+    const generated = transformCatalog(template, raw, mapping, {
+      variantsFor: options.groupVariants ? marketplace : undefined,
+      images: channel.images,
+      schema,
+    });
+    const { rows, issues } = normalizeRows(
+      marketplace,
+      template.headers,
+      applyCellOverrides(
+        applyCategoryValues(
+          template.headers,
+          generated.rows,
+          channel.categories ?? {}
+        ),
+        channel.overrides ?? {}
+      ),
+      schema
+    );
+    const validation = validateRows(
+      marketplace,
+      template.headers,
+      rows,
+      issues,
+      schema
+    );
+
+    const reasons = new Map<number, string[]>();
+    validation.issues.forEach((issue) => {
+      if (issue.severity !== "error" || issue.row < 0) return;
+      reasons.set(issue.row, [
+        ...(reasons.get(issue.row) ?? []),
+        issue.message,
+      ]);
+    });
+    // A parent without its children, or children without their parent, is
+    // rejected by the marketplace, so families go together.
+    variantFamilies(marketplace, template.headers, rows).forEach((family) => {
+      const failed = family.filter((index) => reasons.has(index));
+      if (!failed.length) return;
+      const message = `Dropped with its variant family (row ${
+        failed[0] + 1
+      } has errors).`;
+      family.forEach((index) => {
+        if (!reasons.has(index)) reasons.set(index, [message]);
+      });
+    });
+
+    const kept = rows.filter((_, index) => !reasons.has(index));
+    const file = await exportRows(
+      options.format ?? "xlsx",
+      marketplace,
+      template.headers,
+      kept,
+      channel.templateFile,
+      channel.extraSheets
+    );
+    const filename = `catalog-${marketplace.toLowerCase()}-${stamp}.${
+      file.extension
+    }`;
+    zip.file(filename, file.bytes);
+
+    results.push({
+      marketplace,
+      filename,
+      exported: kept.length,
+      dropped: Array.from(reasons.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([row, messages]) => ({ row: row + 1, reasons: messages })),
+    });
+  }
+
+  const summaryHeaders = [
+    "Marketplace",
+    "File",
+    "Rows exported",
+    "Rows dropped",
+    "Dropped row numbers",
+  ];
+  const summaryRows: SheetRow[] = results.map((result) => ({
+    Marketplace: result.marketplace,
+    File: result.filename,
+    "Rows exported": String(result.exported),
+    "Rows dropped": String(result.dropped.length),
+    "Dropped row numbers": result.dropped.map((entry) => entry.row).join(", "),
+  }));
+  const summary = buildSheet(summaryHeaders, summaryRows);
+
+  const droppedHeaders = ["Marketplace", "Row", "Reasons"];
+  const droppedRows = results.flatMap((result) =>
+    result.dropped.map((entry) => ({
+      Marketplace: result.marketplace,
+      Row: String(entry.row),
+      Reasons: entry.reasons.join(" | "),
+    }))
+  );
+  XLSX.utils.book_append_sheet(
+    summary,
+    XLSX.utils.json_to_sheet(droppedRows, { header: droppedHeaders }),
+    "Dropped rows"
+  );
+  zip.file(
+    `summary-${stamp}.xlsx`,
+    XLSX.write(summary, { type: "array", bookType: "xlsx" })
+  );
+
+  return { zip: await zip.generateAsync({ type: "blob" }), results };
+}
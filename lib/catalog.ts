@@ -0,0 +1,507 @@
+import type { SheetData, SheetRow } from "@/lib/sheet";
+import { evaluateExpression } from "@/lib/expressions";
+import { detectVariantGroups, expandVariantRows } from "@/lib/variants";
+import { rowImages } from "@/lib/images";
+import { TemplateSchema, constrainValue } from "@/lib/templateSchema";
+
+export const marketplaces = ["Amazon", "Flipkart", "Meesho", "Myntra"] as const;
+
+export type Marketplace = (typeof marketplaces)[number];
+
+export const synonymMatrix: Record<string, string[]> = {
+  sku: ["sku", "asin", "item id", "parent sku", "product id"],
+  title: ["title", "product title", "item name", "product name"],
+  description: [
+    "description",
+    "product description",
+    "long desc",
+    "details",
+  ],
+  brand: ["brand", "brand name", "manufacturer"],
+  color: ["color", "colour", "shade"],
+  size: ["size", "dimension", "measurement"],
+  mrp: ["mrp", "maximum retail price", "list price"],
+  price: ["price", "selling price", "offer price", "sale price"],
+  quantity: ["quantity", "stock", "inventory", "available units"],
+  weight: ["weight", "item weight", "unit weight"],
+  material: ["material", "fabric", "primary material"],
+  category: [
+    "category",
+    "product type",
+    "vertical",
+    "myntra category",
+    "flipkart category",
+  ],
+  gender: ["gender", "target gender", "ideal for", "department"],
+  image: ["image", "main image", "main image url", "image url", "image 1"],
+  hsn: ["hsn", "hsn code", "hsn sac", "hsn number"],
+  origin: ["country of origin", "origin country", "made in", "manufactured in"],
+};
+
+export function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/**
+ * Resolves a concept (a `synonymMatrix` key) or a plain header phrase to the
+ * template headers that carry it. Exact matches win over partial ones.
+ */
+export function resolveHeaders(headers: string[], field: string): string[] {
+  const candidates = synonymMatrix[field] ?? [normalizeKey(field)];
+  const normalized = headers.map((header) => ({
+    original: header,
+    normalized: normalizeKey(header),
+  }));
+
+  const exact = normalized.filter((item) =>
+    candidates.includes(item.normalized)
+  );
+  if (exact.length) return exact.map((item) => item.original);
+
+  return normalized
+    .filter((item) =>
+      candidates.some((candidate) => item.normalized.includes(candidate))
+    )
+    .map((item) => item.original);
+}
+
+/**
+ * Every image column of a template, main image first: "Main Image URL",
+ * "Other Image URL1", ... or Myntra's "Front Image", "Image 2", ...
+ */
+export function imageColumns(headers: string[]): string[] {
+  const main = resolveHeaders(headers, "image");
+  return [
+    ...main,
+    ...headers.filter(
+      (header) =>
+        !main.includes(header) &&
+        normalizeKey(header).includes("image") &&
+        !normalizeKey(header).includes("swatch")
+    ),
+  ];
+}
+
+/** A raw column name, or an expression evaluated per row (see lib/expressions). */
+export type MappingEntry = string | { expression: string };
+
+export type Mapping = Record<string, MappingEntry>;
+
+export function isExpression(
+  entry: MappingEntry | undefined
+): entry is { expression: string } {
+  return typeof entry === "object" && entry !== null;
+}
+
+/** Checks an untrusted value, e.g. a request field, before it is used. */
+export function isMapping(input: unknown): input is Mapping {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return false;
+  }
+  return Object.values(input).every(
+    (entry) =>
+      typeof entry === "string" ||
+      (typeof entry === "object" &&
+        entry !== null &&
+        typeof (entry as { expression?: unknown }).expression === "string")
+  );
+}
+
+export type Confidence = "high" | "medium" | "low";
+
+export type MatchCandidate = {
+  header: string;
+  score: number;
+};
+
+export type MatchSuggestion = {
+  /** Every raw header, best first. */
+  candidates: MatchCandidate[];
+  best: MatchCandidate | null;
+  confidence: Confidence;
+};
+
+type ValueShape =
+  | "empty"
+  | "currency"
+  | "measure"
+  | "size"
+  | "numeric"
+  | "colour"
+  | "text";
+
+/** Matches scoring below this are left unmapped for manual review. */
+export const MIN_MATCH_SCORE = 0.55;
+
+const colourNames = new Set([
+  "black",
+  "white",
+  "red",
+  "maroon",
+  "blue",
+  "navy",
+  "green",
+  "olive",
+  "yellow",
+  "mustard",
+  "orange",
+  "pink",
+  "purple",
+  "grey",
+  "gray",
+  "brown",
+  "beige",
+  "cream",
+  "gold",
+  "silver",
+  "multicolor",
+  "multicolour",
+]);
+
+const shapeExpectations: Record<string, ValueShape[]> = {
+  mrp: ["currency", "numeric"],
+  price: ["currency", "numeric"],
+  quantity: ["numeric"],
+  weight: ["measure", "numeric"],
+  color: ["colour"],
+  size: ["size", "numeric", "measure"],
+  sku: ["text", "numeric"],
+  title: ["text"],
+  description: ["text"],
+  brand: ["text"],
+  material: ["text"],
+  category: ["text"],
+  gender: ["text"],
+  hsn: ["numeric"],
+  origin: ["text"],
+};
+
+const currencyPattern =
+  /^(rs\.?|inr|₹|\$)\s*[\d,]+(\.\d+)?$|^[\d,]+(\.\d+)?\s*(inr|\/-)$/;
+const measurePattern =
+  /^\d+(\.\d+)?\s*(g|gm|gms|grams?|kg|kgs|mg|ml|l|ltr|cm|mm|m|in|inch|lbs?)$/;
+const sizePattern =
+  /^(xxs|xs|s|m|l|xl|xxl|xxxl|\dxl|free size|uk ?\d{1,2}|us ?\d{1,2})(\s*\/\s*\d+)?$/;
+
+function detectValueShape(value: string): ValueShape {
+  const trimmed = value.trim().toLowerCase();
+  if (!trimmed) return "empty";
+  if (currencyPattern.test(trimmed)) return "currency";
+  if (measurePattern.test(trimmed)) return "measure";
+  if (sizePattern.test(trimmed)) return "size";
+  if (/^-?[\d,]*\.?\d+$/.test(trimmed)) return "numeric";
+  if (
+    /^[a-z\s/&]+$/.test(trimmed) &&
+    trimmed.split(/[\s/&]+/).some((token) => colourNames.has(token))
+  ) {
+    return "colour";
+  }
+  return "text";
+}
+
+function columnShape(rows: SheetRow[], header: string): ValueShape {
+  const counts = new Map<ValueShape, number>();
+  rows.slice(0, 25).forEach((row) => {
+    const shape = detectValueShape(row[header] ?? "");
+    if (shape !== "empty") counts.set(shape, (counts.get(shape) ?? 0) + 1);
+  });
+  let best: ValueShape = "empty";
+  let bestCount = 0;
+  counts.forEach((count, shape) => {
+    if (count > bestCount) {
+      best = shape;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+function conceptOf(normalized: string): string | null {
+  const exact = Object.entries(synonymMatrix).find(([, values]) =>
+    values.includes(normalized)
+  );
+  if (exact) return exact[0];
+  let concept: string | null = null;
+  let longest = 0;
+  Object.entries(synonymMatrix).forEach(([key, values]) => {
+    values.forEach((value) => {
+      if (value.length > longest && normalized.includes(value)) {
+        concept = key;
+        longest = value.length;
+      }
+    });
+  });
+  return concept;
+}
+
+export function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function tokenOverlap(a: string, b: string): number {
+  const left = new Set(a.split(" ").filter(Boolean));
+  const right = new Set(b.split(" ").filter(Boolean));
+  const shared = Array.from(left).filter((token) => right.has(token)).length;
+  const union = new Set([...Array.from(left), ...Array.from(right)]).size;
+  return union ? shared / union : 0;
+}
+
+function shapeFit(concept: string | null, shape: ValueShape): number {
+  const expected = concept ? shapeExpectations[concept] : undefined;
+  if (!expected || shape === "empty") return 0;
+  if (expected.includes(shape)) return 1;
+  return shape === "text" ? 0 : -1;
+}
+
+export function confidenceFor(score: number): Confidence {
+  if (score >= 0.75) return "high";
+  if (score >= MIN_MATCH_SCORE) return "medium";
+  return "low";
+}
+
+/**
+ * Ranks every raw header against every template header using token overlap,
+ * edit distance, shared `synonymMatrix` concepts and the shape of sample values.
+ */
+export function scoreMappings(
+  template: SheetData,
+  raw: SheetData
+): Record<string, MatchSuggestion> {
+  const rawProfiles = raw.headers.map((header) => {
+    const normalized = normalizeKey(header);
+    return {
+      header,
+      normalized,
+      concept: conceptOf(normalized),
+      shape: columnShape(raw.rows, header),
+    };
+  });
+
+  const suggestions: Record<string, MatchSuggestion> = {};
+
+  template.headers.forEach((templateHeader) => {
+    const target = normalizeKey(templateHeader);
+    const targetConcept = conceptOf(target);
+
+    const candidates = rawProfiles
+      .map((item) => {
+        if (item.normalized === target) {
+          return { header: item.header, score: 1 };
+        }
+        const lexical =
+          0.6 * tokenOverlap(target, item.normalized) +
+          0.4 *
+            (1 -
+              editDistance(target, item.normalized) /
+                Math.max(target.length, item.normalized.length, 1));
+        // Signals only count where they apply, so a header no synonym covers
+        // is scored on its name alone and a strong lexical match can pass.
+        const signals: [number, number][] = [[0.3, lexical]];
+        if (targetConcept && item.concept) {
+          signals.push([0.55, targetConcept === item.concept ? 1 : -0.5]);
+        }
+        if (shapeExpectations[targetConcept ?? ""] && item.shape !== "empty") {
+          signals.push([0.15, shapeFit(targetConcept, item.shape)]);
+        }
+        const score =
+          signals.reduce((sum, [weight, value]) => sum + weight * value, 0) /
+          signals.reduce((sum, [weight]) => sum + weight, 0);
+        return {
+          header: item.header,
+          score: Math.round(Math.min(Math.max(score, 0), 1) * 100) / 100,
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+
+    const best = candidates[0] ?? null;
+    suggestions[templateHeader] = {
+      candidates,
+      best,
+      confidence: confidenceFor(best?.score ?? 0),
+    };
+  });
+
+  return suggestions;
+}
+
+export function autoDetectMappings(
+  template: SheetData,
+  raw: SheetData
+): Mapping {
+  const mapping: Mapping = {};
+  Object.entries(scoreMappings(template, raw)).forEach(
+    ([header, suggestion]) => {
+      if (suggestion.best && suggestion.best.score >= MIN_MATCH_SCORE) {
+        mapping[header] = suggestion.best.header;
+      }
+    }
+  );
+  return mapping;
+}
+
+export function buildRowFromMappings(
+  headers: string[],
+  row: SheetRow,
+  mapping: Mapping,
+  rawHeaders: string[],
+  /** Attached image values for this row, filling unmapped image columns. */
+  images: string[] = [],
+  /** Template rules; values are snapped to their dropdown spelling. */
+  schema: TemplateSchema | null = null
+): SheetRow {
+  const result: SheetRow = {};
+  const imageSlots = images.length
+    ? imageColumns(headers).filter((header) => !mapping[header])
+    : [];
+
+  headers.forEach((header) => {
+    const entry = mapping[header];
+    if (isExpression(entry)) {
+      try {
+        result[header] = evaluateExpression(entry.expression, row, rawHeaders);
+      } catch {
+        result[header] = "";
+      }
+      return;
+    }
+    if (entry) {
+      result[header] = row[entry] ?? "";
+      return;
+    }
+
+    const slot = imageSlots.indexOf(header);
+    if (slot >= 0) {
+      result[header] = images[slot] ?? "";
+      return;
+    }
+
+    // Smart fill heuristics
+    const normalized = normalizeKey(header);
+    if (normalized.includes("title")) {
+      const brand =
+        row[
+          rawHeaders.find((key) => normalizeKey(key).includes("brand")) ?? ""
+        ] ?? "";
+      const name =
+        row[
+          rawHeaders.find((key) => normalizeKey(key).includes("name")) ?? ""
+        ] ?? "";
+      result[header] = `${brand ? `${brand} ` : ""}${name}`.trim();
+      return;
+    }
+
+    if (normalized.includes("bullet")) {
+      const desc =
+        row[
+          rawHeaders.find((key) => normalizeKey(key).includes("description")) ??
+            ""
+        ];
+      if (desc) {
+        const segments = desc.split(/[.|•|\n]/).map((item) => item.trim());
+        result[header] =
+          segments.find((segment) => segment.length > 20)?.slice(0, 180) ?? "";
+        return;
+      }
+    }
+
+    if (normalized.includes("keywords")) {
+      const keywords: string[] = [];
+      ["material", "color", "size", "category"].forEach((key) => {
+        const value =
+          row[
+            rawHeaders.find((headerName) =>
+              normalizeKey(headerName).includes(key)
+            ) ?? ""
+          ];
+        if (value) {
+          keywords.push(value);
+        }
+      });
+      result[header] = keywords
+        .map((keyword) => keyword.toLowerCase())
+        .filter(Boolean)
+        .join(", ");
+      return;
+    }
+
+    result[header] = "";
+  });
+
+  if (schema) {
+    headers.forEach((header) => {
+      const column = schema.columns[header];
+      if (column) result[header] = constrainValue(column, result[header]);
+    });
+  }
+
+  return result;
+}
+
+export type CatalogTransform = {
+  mapping: Mapping;
+  rows: SheetRow[];
+  /** Number of parent/child families emitted when variant grouping is on. */
+  variantGroups: number;
+};
+
+export type TransformOptions = {
+  /** Emit parent/child variation families shaped for this marketplace. */
+  variantsFor?: Marketplace;
+  /** Image cell values per SKU, see `imageCellValues`. */
+  images?: Record<string, string[]>;
+  /** Rules read from the template file, see `readTemplate`. */
+  schema?: TemplateSchema | null;
+};
+
+/**
+ * Runs the full mapping pipeline without any UI state: auto-detects a mapping
+ * (unless one is supplied) and fills every template column for every raw row.
+ */
+export function transformCatalog(
+  template: SheetData,
+  raw: SheetData,
+  mapping?: Mapping,
+  options: TransformOptions = {}
+): CatalogTransform {
+  const resolved = mapping ?? autoDetectMappings(template, raw);
+  const imagesFor = rowImages(options.images ?? {}, raw.headers);
+  const rows = raw.rows.map((row) =>
+    buildRowFromMappings(
+      template.headers,
+      row,
+      resolved,
+      raw.headers,
+      imagesFor(row),
+      options.schema
+    )
+  );
+  if (!options.variantsFor) {
+    return { mapping: resolved, rows, variantGroups: 0 };
+  }
+
+  const groups = detectVariantGroups(raw);
+  return {
+    mapping: resolved,
+    rows: expandVariantRows(
+      options.variantsFor,
+      template.headers,
+      rows,
+      groups
+    ),
+    variantGroups: groups.length,
+  };
+}
@@ -0,0 +1,8 @@
+import { WorkerRequest, createJobDispatcher } from "@/lib/catalogJobs";
+
+/** Entry point of the catalog worker; see lib/catalogWorker.ts. */
+const dispatch = createJobDispatcher((response, transfer = []) =>
+  self.postMessage(response, { transfer })
+);
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => dispatch(event.data);
@@ -0,0 +1,557 @@
+import * as XLSX from "xlsx";
+import { SheetData, SheetRow, buildSheet, parseSheetFile } from "@/lib/sheet";
+import {
+  Mapping,
+  Marketplace,
+  buildRowFromMappings,
+  isExpression,
+  normalizeKey,
+} from "@/lib/catalog";
+import { detectVariantGroups, expandVariantRows } from "@/lib/variants";
+import { applyCellOverrides } from "@/lib/copywriting";
+import {
+  CategorySuggestion,
+  CategoryValueCount,
+  applyCategoryValues,
+  distinctCategoryValues,
+  suggestCategories,
+} from "@/lib/taxonomy";
+import { normalizeRows } from "@/lib/normalizers";
+import {
+  ImageAsset,
+  ImageMatch,
+  inspectImage,
+  matchImages,
+  rawSkuHeader,
+  readImageFiles,
+  rowImages,
+} from "@/lib/images";
+import {
+  ValidationIssue,
+  ValidationReport,
+  cellKey,
+  validateRows,
+} from "@/lib/validation";
+import {
+  CatalogDiff,
+  PartialFeedKind,
+  buildPartialFeed,
+  diffCatalogs,
+} from "@/lib/syncDiff";
+import { BatchChannelResult, buildBatchZip } from "@/lib/batchExport";
+import type { PreviewFilter } from "@/lib/workspace";
+import { TemplateSchema, readTemplate } from "@/lib/templateSchema";
+import {
+  ExportFormat,
+  ExportedFile,
+  NamedSheet,
+  TemplateFile,
+  exportRows,
+} from "@/lib/templateExport";
+
+/**
+ * The heavy half of the Catalog Autopilot: parsing, mapping every raw row,
+ * validation and export. It runs inside lib/catalog.worker.ts so 50k-row
+ * supplier dumps never block the page (or inline where workers are missing).
+ * Parsed sheets stay in the runner under a key ("raw", "template:Amazon",
+ * "previous:Amazon"), and the rows of the last preview stay cached so the
+ * table can page through them without shipping every row to the page.
+ */
+
+export type DatasetKey =
+  | "raw"
+  | `template:${Marketplace}`
+  | `previous:${Marketplace}`;
+
+export type ChannelSpec = {
+  marketplace: Marketplace;
+  mapping: Mapping;
+  /** Reviewed cell values (keyed by `cellKey`) that replace generated ones. */
+  overrides: Record<string, string>;
+  /** Confirmed category translations, see `categoryCellValues`. */
+  categories: Record<string, string>;
+  /** Attached image values per SKU, see `imageCellValues`. */
+  images: Record<string, string[]>;
+};
+
+export type PreviewSpec = ChannelSpec & {
+  groupVariants: boolean;
+  filter: PreviewFilter | null;
+};
+
+export type PreviewRow = {
+  index: number;
+  row: SheetRow;
+  /** Validation issues for this row, by template header. */
+  issues: Record<string, ValidationIssue[]>;
+};
+
+/** Issues sent to the page with a preview; the full list stays in the worker. */
+export const ISSUE_SAMPLE = 200;
+
+export type PreviewSummary = {
+  /** Names this preview in `rows` jobs, which fail once it is replaced. */
+  version: number;
+  total: number;
+  /** Rows passing the preview filter. */
+  matches: number;
+  variantGroups: number;
+  errorCount: number;
+  warningCount: number;
+  issueCount: number;
+  issues: ValidationIssue[];
+  diff: CatalogDiff | null;
+};
+
+/** A distinct raw category value with the channel's best leaves for it. */
+export type CategoryValueSuggestions = CategoryValueCount & {
+  candidates: CategorySuggestion[];
+};
+
+export type CatalogJob =
+  | { type: "parse"; key: DatasetKey; file: File }
+  | { type: "load"; key: DatasetKey; data: SheetData }
+  | { type: "drop"; key: DatasetKey }
+  /** Reads the size and background of attached photos (and unpacks ZIPs). */
+  | { type: "images"; files: File[] }
+  /** Assigns inspected photos to the SKUs of the raw sheet. */
+  | { type: "matchImages"; assets: ImageAsset[] }
+  /** Distinct values of a raw category column, with suggested leaves. */
+  | { type: "categories"; marketplace: Marketplace; source: string }
+  /** Per dropdown column, distinct mapped raw values outside its list. */
+  | { type: "disallowed"; marketplace: Marketplace; mapping: Mapping }
+  | { type: "preview"; spec: PreviewSpec }
+  /**
+   * A window of the preview with that version, which must still be the last
+   * one; `all` ignores the preview filter.
+   */
+  | {
+      type: "rows";
+      preview: number;
+      start: number;
+      end: number;
+      all?: boolean;
+    }
+  | {
+      type: "export";
+      spec: PreviewSpec;
+      format: ExportFormat;
+      /** Added to workbook exports, e.g. the change log. */
+      extraSheets?: NamedSheet[];
+    }
+  | { type: "feed"; spec: PreviewSpec; kind: PartialFeedKind }
+  | {
+      type: "batch";
+      channels: ChannelSpec[];
+      groupVariants: boolean;
+      format: ExportFormat;
+      extraSheets?: Partial<Record<Marketplace, NamedSheet[]>>;
+    };
+
+/** Templates also carry the rules read from the file. */
+export type ParsedSheet = SheetData & { schema?: TemplateSchema };
+
+export type JobResults = {
+  parse: ParsedSheet;
+  load: null;
+  drop: null;
+  images: ImageAsset[];
+  matchImages: ImageMatch;
+  categories: CategoryValueSuggestions[];
+  disallowed: Record<string, number>;
+  preview: PreviewSummary;
+  rows: PreviewRow[];
+  export: ExportedFile;
+  feed: ArrayBuffer;
+  batch: { zip: Blob; results: BatchChannelResult[] };
+};
+
+export type JobProgress = { phase: string; done: number; total: number };
+
+export type JobContext = {
+  progress(update: JobProgress): void;
+  /** Throws `JobCancelled` once the job has been cancelled. */
+  checkpoint(): Promise<void>;
+};
+
+export type WorkerRequest =
+  | { id: number; job: CatalogJob }
+  | { id: number; cancel: true };
+
+export type WorkerResponse =
+  | { id: number; type: "progress"; progress: JobProgress }
+  | { id: number; type: "result"; result: unknown }
+  | { id: number; type: "error"; message: string }
+  | { id: number; type: "cancelled" };
+
+export class JobCancelled extends Error {
+  constructor() {
+    super("Job cancelled");
+    this.name = "JobCancelled";
+  }
+}
+
+/** Rows mapped between progress reports and cancellation checks. */
+const CHUNK_SIZE = 2000;
+
+function matchesFilter(
+  filter: PreviewFilter | null,
+  headers: string[],
+  index: number,
+  row: SheetRow,
+  report: ValidationReport
+): boolean {
+  if (!filter) return true;
+  const targets = filter.header ? [filter.header] : headers;
+  return targets.some((header) => {
+    if (filter.condition === "missing") {
+      return !(row[header] ?? "").trim();
+    }
+    const issues = report.byCell[cellKey(index, header)] ?? [];
+    return filter.condition === "issue"
+      ? issues.length > 0
+      : issues.some((issue) => issue.severity === filter.condition);
+  });
+}
+
+function workbookBytes(workbook: XLSX.WorkBook): ArrayBuffer {
+  return XLSX.write(workbook, { type: "array", bookType: "xlsx" });
+}
+
+export function createJobRunner() {
+  const datasets = new Map<DatasetKey, SheetData>();
+  /** Uploaded template files, kept to export into copies of them. */
+  const templateFiles = new Map<DatasetKey, TemplateFile>();
+  let previewCount = 0;
+  let preview: {
+    version: number;
+    headers: string[];
+    rows: SheetRow[];
+    report: ValidationReport;
+    matches: number[];
+  } | null = null;
+
+  const dataset = (key: DatasetKey): SheetData => {
+    const data = datasets.get(key);
+    if (!data) throw new Error(`No sheet loaded for ${key}.`);
+    return data;
+  };
+
+  /** Maps every raw row in chunks so progress and cancellation get a turn. */
+  const generate = async (
+    spec: ChannelSpec & { groupVariants: boolean },
+    context: JobContext
+  ) => {
+    const template = dataset(`template:${spec.marketplace}`);
+    const schema =
+      templateFiles.get(`template:${spec.marketplace}`)?.schema ?? null;
+    const raw = dataset("raw");
+    const imagesFor = rowImages(spec.images, raw.headers);
+    let rows: SheetRow[] = [];
+    for (let start = 0; start < raw.rows.length; start += CHUNK_SIZE) {
+      raw.rows.slice(start, start + CHUNK_SIZE).forEach((row) => {
+        rows.push(
+          buildRowFromMappings(
+            template.headers,
+            row,
+            spec.mapping,
+            raw.headers,
+            imagesFor(row),
+            schema
+          )
+        );
+      });
+      context.progress({
+        phase: "Mapping rows",
+        done: Math.min(start + CHUNK_SIZE, raw.rows.length),
+        total: raw.rows.length,
+      });
+      await context.checkpoint();
+    }
+    let variantGroups = 0;
+    if (spec.groupVariants) {
+      const groups = detectVariantGroups(raw);
+      rows = expandVariantRows(
+        spec.marketplace,
+        template.headers,
+        rows,
+        groups
+      );
+      variantGroups = groups.length;
+    }
+    const normalized = normalizeRows(
+      spec.marketplace,
+      template.headers,
+      applyCellOverrides(
+        applyCategoryValues(template.headers, rows, spec.categories),
+        spec.overrides
+      ),
+      schema
+    );
+    return {
+      template,
+      schema,
+      rows: normalized.rows,
+      issues: normalized.issues,
+      variantGroups,
+    };
+  };
+
+  async function run<T extends CatalogJob>(
+    job: T,
+    context: JobContext
+  ): Promise<JobResults[T["type"]]>;
+  async function run(job: CatalogJob, context: JobContext): Promise<unknown> {
+    switch (job.type) {
+      case "parse": {
+        context.progress({
+          phase: `Reading ${job.file.name}`,
+          done: 0,
+          total: 1,
+        });
+        let data: ParsedSheet;
+        if (job.key.startsWith("template:")) {
+          const bytes = await job.file.arrayBuffer();
+          const parsed = await readTemplate(bytes);
+          templateFiles.set(job.key, {
+            name: job.file.name,
+            bytes,
+            schema: parsed.schema,
+          });
+          data = { ...parsed.data, schema: parsed.schema };
+        } else {
+          data = await parseSheetFile(job.file);
+        }
+        await context.checkpoint();
+        datasets.set(job.key, data);
+        context.progress({
+          phase: `Reading ${job.file.name}`,
+          done: 1,
+          total: 1,
+        });
+        return data;
+      }
+      case "load":
+        datasets.set(job.key, job.data);
+        templateFiles.delete(job.key);
+        return null;
+      case "drop":
+        datasets.delete(job.key);
+        templateFiles.delete(job.key);
+        return null;
+      case "images": {
+        context.progress({ phase: "Unpacking images", done: 0, total: 0 });
+        const files = await readImageFiles(job.files);
+        const assets: ImageAsset[] = [];
+        for (const [index, file] of files.entries()) {
+          assets.push(await inspectImage(file));
+          context.progress({
+            phase: "Checking images",
+            done: index + 1,
+            total: files.length,
+          });
+          await context.checkpoint();
+        }
+        return assets;
+      }
+      case "matchImages": {
+        const raw = datasets.get("raw");
+        const skuColumn = raw ? rawSkuHeader(raw.headers) : null;
+        return matchImages(
+          job.assets,
+          raw && skuColumn ? raw.rows.map((row) => row[skuColumn] ?? "") : []
+        );
+      }
+      case "categories":
+        return distinctCategoryValues(dataset("raw").rows, job.source).map(
+          (entry) => ({
+            ...entry,
+            candidates: suggestCategories(job.marketplace, entry.value),
+          })
+        );
+      case "disallowed": {
+        const counts: Record<string, number> = {};
+        const schema = templateFiles.get(`template:${job.marketplace}`)?.schema;
+        const raw = datasets.get("raw");
+        if (!schema || !raw) return counts;
+        Object.entries(schema.columns).forEach(([header, column]) => {
+          const source = job.mapping[header];
+          if (!column.allowedValues.length || !source || isExpression(source)) {
+            return;
+          }
+          const allowed = new Set(column.allowedValues.map(normalizeKey));
+          const outside = new Set(
+            raw.rows
+              .map((row) => (row[source] ?? "").trim())
+              .filter((value) => value && !allowed.has(normalizeKey(value)))
+          );
+          if (outside.size) counts[header] = outside.size;
+        });
+        return counts;
+      }
+      case "preview": {
+        const { spec } = job;
+        const { template, schema, rows, issues, variantGroups } =
+          await generate(spec, context);
+        context.progress({ phase: "Validating", done: 0, total: 1 });
+        const report = validateRows(
+          spec.marketplace,
+          template.headers,
+          rows,
+          issues,
+          schema
+        );
+        await context.checkpoint();
+        const matches: number[] = [];
+        rows.forEach((row, index) => {
+          if (
+            matchesFilter(spec.filter, template.headers, index, row, report)
+          ) {
+            matches.push(index);
+          }
+        });
+        const previous = datasets.get(`previous:${spec.marketplace}`);
+        previewCount += 1;
+        preview = {
+          version: previewCount,
+          headers: template.headers,
+          rows,
+          report,
+          matches,
+        };
+        return {
+          version: previewCount,
+          total: rows.length,
+          matches: matches.length,
+          variantGroups,
+          errorCount: report.errorCount,
+          warningCount: report.warningCount,
+          issueCount: report.issues.length,
+          issues: report.issues.slice(0, ISSUE_SAMPLE),
+          diff: previous
+            ? diffCatalogs(previous, template.headers, rows)
+            : null,
+        } satisfies PreviewSummary;
+      }
+      case "rows": {
+        // A multi-batch read must not mix rows of two previews.
+        if (preview?.version !== job.preview) {
+          throw new Error("The preview changed; read its rows again.");
+        }
+        const { headers, rows, report, matches } = preview;
+        const indices = job.all
+          ? rows
+              .slice(job.start, job.end)
+              .map((_, offset) => job.start + offset)
+          : matches.slice(job.start, job.end);
+        return indices.map((index) => {
+          const issues: Record<string, ValidationIssue[]> = {};
+          headers.forEach((header) => {
+            const found = report.byCell[cellKey(index, header)];
+            if (found) issues[header] = found;
+          });
+          return { index, row: rows[index], issues };
+        });
+      }
+      case "export": {
+        const { spec } = job;
+        const { template, rows } = await generate(spec, context);
+        context.progress({ phase: "Writing workbook", done: 0, total: 1 });
+        return exportRows(
+          job.format,
+          spec.marketplace,
+          template.headers,
+          rows,
+          templateFiles.get(`template:${spec.marketplace}`) ?? null,
+          job.extraSheets
+        );
+      }
+      case "feed": {
+        const { spec } = job;
+        const { template, rows } = await generate(spec, context);
+        const diff = diffCatalogs(
+          dataset(`previous:${spec.marketplace}`),
+          template.headers,
+          rows
+        );
+        if (!diff) throw new Error("No SKU column to match rows on.");
+        const feed = buildPartialFeed(diff, template.headers, rows, job.kind);
+        return workbookBytes(buildSheet(feed.headers, feed.rows));
+      }
+      case "batch": {
+        context.progress({
+          phase: "Packaging channels",
+          done: 0,
+          total: job.channels.length,
+        });
+        return buildBatchZip(
+          dataset("raw"),
+          job.channels.map((channel) => ({
+            marketplace: channel.marketplace,
+            template: dataset(`template:${channel.marketplace}`),
+            templateFile:
+              templateFiles.get(`template:${channel.marketplace}`) ?? null,
+            extraSheets: job.extraSheets?.[channel.marketplace],
+            mapping: channel.mapping,
+            overrides: channel.overrides,
+            categories: channel.categories,
+            images: channel.images,
+          })),
+          { groupVariants: job.groupVariants, format: job.format }
+        );
+      }
+    }
+  }
+
+  return { run };
+}
+
+export type JobRunner = ReturnType<typeof createJobRunner>;
+
+/**
+ * Runs jobs as they arrive and reports back through `post`, which is
+ * `postMessage` inside the worker and a direct callback when inline. Jobs
+ * yield between chunks, which is where a cancel request takes effect.
+ */
+export function createJobDispatcher(
+  post: (response: WorkerResponse, transfer?: Transferable[]) => void
+) {
+  const runner = createJobRunner();
+  const cancelled = new Set<number>();
+
+  return (request: WorkerRequest) => {
+    if ("cancel" in request) {
+      cancelled.add(request.id);
+      return;
+    }
+    const { id, job } = request;
+    const context: JobContext = {
+      progress: (progress) => post({ id, type: "progress", progress }),
+      async checkpoint() {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        if (cancelled.has(id)) throw new JobCancelled();
+      },
+    };
+    runner
+      .run(job, context)
+      .then(
+        (result) =>
+          post(
+            { id, type: "result", result },
+            result instanceof ArrayBuffer ? [result] : []
+          ),
+        (error) =>
+          post(
+            error instanceof JobCancelled
+              ? { id, type: "cancelled" }
+              : {
+                  id,
+                  type: "error",
+                  message:
+                    error instanceof Error ? error.message : String(error),
+                }
+          )
+      )
+      .finally(() => cancelled.delete(id));
+  };
+}
@@ -0,0 +1,119 @@
+import {
+  CatalogJob,
+  JobCancelled,
+  JobProgress,
+  JobResults,
+  WorkerRequest,
+  WorkerResponse,
+  createJobDispatcher,
+} from "@/lib/catalogJobs";
+
+/**
+ * Page-side handle on the catalog worker. Each `run` returns a promise for
+ * the job's result plus a `cancel` that rejects it with `JobCancelled` right
+ * away and tells the worker to stop at its next checkpoint. Without Worker
+ * support the same jobs run inline, still chunked so the page stays usable.
+ */
+
+export type JobHandle<T> = {
+  promise: Promise<T>;
+  cancel(): void;
+};
+
+export type CatalogWorker = {
+  run<T extends CatalogJob>(
+    job: T,
+    onProgress?: (progress: JobProgress) => void
+  ): JobHandle<JobResults[T["type"]]>;
+  dispose(): void;
+};
+
+type PendingJob = {
+  resolve(result: unknown): void;
+  reject(error: Error): void;
+  onProgress?: (progress: JobProgress) => void;
+};
+
+export function isCancelled(error: unknown): boolean {
+  return error instanceof JobCancelled;
+}
+
+export function createCatalogWorker(): CatalogWorker {
+  const pending = new Map<number, PendingJob>();
+  let nextId = 1;
+
+  const receive = (response: WorkerResponse) => {
+    const job = pending.get(response.id);
+    if (!job) return;
+    switch (response.type) {
+      case "progress":
+        job.onProgress?.(response.progress);
+        return;
+      case "result":
+        pending.delete(response.id);
+        job.resolve(response.result);
+        return;
+      case "error":
+        pending.delete(response.id);
+        job.reject(new Error(response.message));
+        return;
+      case "cancelled":
+        pending.delete(response.id);
+        job.reject(new JobCancelled());
+        return;
+    }
+  };
+
+  const failAll = (error: Error) => {
+    pending.forEach((job) => job.reject(error));
+    pending.clear();
+  };
+
+  let worker: Worker | null = null;
+  let send: (request: WorkerRequest) => void;
+  if (typeof Worker !== "undefined") {
+    worker = new Worker(new URL("./catalog.worker.ts", import.meta.url));
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) =>
+      receive(event.data);
+    worker.onerror = (event) => {
+      console.error(event);
+      failAll(new Error("Catalog worker crashed."));
+    };
+    const active = worker;
+    send = (request) => active.postMessage(request);
+  } else {
+    send = createJobDispatcher(receive);
+  }
+
+  return {
+    run<T extends CatalogJob>(
+      job: T,
+      onProgress?: (progress: JobProgress) => void
+    ) {
+      const id = nextId++;
+      const promise = new Promise<JobResults[T["type"]]>((resolve, reject) => {
+        pending.set(id, {
+          // The worker answers each job with that job type's result.
+          resolve: (result) => resolve(result as JobResults[T["type"]]),
+          reject,
+          onProgress,
+        });
+      });
+      send({ id, job });
+      return {
+        promise,
+        cancel() {
+          const job = pending.get(id);
+          if (!job) return;
+          pending.delete(id);
+          job.reject(new JobCancelled());
+          send({ id, cancel: true });
+        },
+      };
+    },
+    dispose() {
+      failAll(new JobCancelled());
+      worker?.terminate();
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import type { SheetRow } from "@/lib/sheet";
+import { Marketplace, normalizeKey } from "@/lib/catalog";
+
+export type CopyKind = "title" | "bullet" | "description" | "keywords";
+
+export type CopyColumn = { header: string; kind: CopyKind };
+
+export type CopyRewriteRow = {
+  /** Output row index the rewrite belongs to. */
+  index: number;
+  fields: Record<string, string>;
+  /** Non-copy attributes (brand, colour, material...) given as context. */
+  attributes?: Record<string, string>;
+};
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((entry) => typeof entry === "string")
+  );
+}
+
+/** Checks a row from a request body before it is used. */
+export function isCopyRewriteRow(value: unknown): value is CopyRewriteRow {
+  if (typeof value !== "object" || value === null) return false;
+  const row = value as Record<string, unknown>;
+  return (
+    Number.isInteger(row.index) &&
+    isStringRecord(row.fields) &&
+    (row.attributes === undefined || isStringRecord(row.attributes))
+  );
+}
+
+export type CopyEdit = {
+  row: number;
+  header: string;
+  original: string;
+  proposed: string;
+  status: "pending" | "accepted" | "rejected";
+};
+
+/** Rows sent to the model per request; keeps prompts well inside context. */
+export const REWRITE_BATCH_SIZE = 10;
+
+export const copyLimits: Record<Marketplace, Record<CopyKind, number>> = {
+  Amazon: { title: 200, bullet: 500, description: 2000, keywords: 250 },
+  Flipkart: { title: 150, bullet: 300, description: 2000, keywords: 200 },
+  Meesho: { title: 100, bullet: 250, description: 1500, keywords: 150 },
+  Myntra: { title: 100, bullet: 300, description: 1500, keywords: 200 },
+};
+
+export function copyColumns(headers: string[]): CopyColumn[] {
+  return headers.flatMap((header): CopyColumn[] => {
+    const normalized = normalizeKey(header);
+    if (normalized.includes("bullet") || normalized.includes("key feature")) {
+      return [{ header, kind: "bullet" }];
+    }
+    if (normalized.includes("keyword") || normalized.includes("search term")) {
+      return [{ header, kind: "keywords" }];
+    }
+    if (normalized.includes("description")) {
+      return [{ header, kind: "description" }];
+    }
+    if (
+      normalized.includes("title") ||
+      normalized === "product name" ||
+      normalized === "item name"
+    ) {
+      return [{ header, kind: "title" }];
+    }
+    return [];
+  });
+}
+
+/** Trims copy to the channel limit on a word boundary. */
+export function clampCopy(
+  marketplace: Marketplace,
+  kind: CopyKind,
+  value: string
+): string {
+  const limit = copyLimits[marketplace][kind];
+  const tidy = value.replace(/\s+/g, " ").trim();
+  if (tidy.length <= limit) return tidy;
+  const cut = tidy.slice(0, limit);
+  const boundary = cut.lastIndexOf(kind === "keywords" ? "," : " ");
+  return (boundary > limit * 0.6 ? cut.slice(0, boundary) : cut).trim();
+}
+
+/** Applies `cellKey(row, header)`-keyed values on top of generated rows. */
+export function applyCellOverrides(
+  rows: SheetRow[],
+  overrides: Record<string, string>
+): SheetRow[] {
+  const entries = Object.entries(overrides);
+  if (!entries.length) return rows;
+  const next = rows.slice();
+  entries.forEach(([key, value]) => {
+    const separator = key.indexOf(":");
+    const index = Number(key.slice(0, separator));
+    const header = key.slice(separator + 1);
+    if (next[index]) next[index] = { ...next[index], [header]: value };
+  });
+  return next;
+}
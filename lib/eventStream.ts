@@ -0,0 +1,33 @@
+/**
+ * Reads a `text/event-stream` response body and hands each `data:` payload,
+ * parsed as JSON, to `onEvent`. Resolves once the stream closes.
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: Record<string, any>) => void
+): Promise<void> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const chunk = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const data = chunk
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+      if (data) onEvent(JSON.parse(data));
+      boundary = buffer.indexOf("\n\n");
+    }
+
+    if (done) return;
+  }
+}
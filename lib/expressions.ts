@@ -0,0 +1,457 @@
+import type { SheetRow } from "@/lib/sheet";
+import { normalizeKey } from "@/lib/catalog";
+import { parseNumber } from "@/lib/validation";
+
+/**
+ * A tiny, side-effect free expression language for mapping cells, e.g.
+ *   concat(brand, " ", [Product Name])
+ *   convert(weight_grams, "g", "kg")
+ *   lookup(color, "Red", "RED/Maroon", "Blue", "BLUE/Navy")
+ * Expressions are parsed into an AST and interpreted against a whitelist of
+ * functions; nothing is ever handed to `eval` or `Function`.
+ */
+
+type Node =
+  | { type: "literal"; value: string }
+  | { type: "column"; name: string }
+  | { type: "call"; name: string; args: Node[] };
+
+type Token =
+  | { type: "string" | "number" | "identifier" | "column"; value: string }
+  | { type: "(" | ")" | "," };
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExpressionError";
+  }
+}
+
+const MAX_EXPRESSION_LENGTH = 500;
+const MAX_PATTERN_LENGTH = 120;
+/** Values longer than this are not run through replace() or extract(). */
+const MAX_PATTERN_INPUT = 500;
+/**
+ * Ways a pattern may split a value: each quantifier multiplies it by the
+ * counts it can choose from, open-ended ones (`*`, `+`, `{n,}`, or a range
+ * over 10) by the value length. Two open-ended repeats fit, nothing more.
+ */
+const MAX_PATTERN_CHOICES = MAX_PATTERN_INPUT ** 2;
+const MAX_VALUE_LENGTH = 5000;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index += 1;
+    } else if (char === "(" || char === ")" || char === ",") {
+      tokens.push({ type: char });
+      index += 1;
+    } else if (char === '"' || char === "'") {
+      let value = "";
+      index += 1;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === "\\" && index + 1 < source.length) {
+          index += 1;
+        }
+        value += source[index];
+        index += 1;
+      }
+      if (index >= source.length) {
+        throw new ExpressionError("Unterminated string literal.");
+      }
+      tokens.push({ type: "string", value });
+      index += 1;
+    } else if (char === "[") {
+      const end = source.indexOf("]", index);
+      if (end === -1) throw new ExpressionError("Unterminated [column] name.");
+      tokens.push({ type: "column", value: source.slice(index + 1, end) });
+      index = end + 1;
+    } else if (/[0-9.-]/.test(char)) {
+      const match = /^-?\d*\.?\d+/.exec(source.slice(index));
+      if (!match) throw new ExpressionError(`Unexpected "${char}".`);
+      tokens.push({ type: "number", value: match[0] });
+      index += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index));
+      tokens.push({ type: "identifier", value: match![0] });
+      index += match![0].length;
+    } else {
+      throw new ExpressionError(`Unexpected "${char}".`);
+    }
+  }
+
+  return tokens;
+}
+
+function parse(source: string): Node {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(
+      `Expressions are limited to ${MAX_EXPRESSION_LENGTH} characters.`
+    );
+  }
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const parseNode = (): Node => {
+    const token = tokens[position];
+    if (!token) throw new ExpressionError("Unexpected end of expression.");
+    position += 1;
+
+    switch (token.type) {
+      case "string":
+      case "number":
+        return { type: "literal", value: token.value };
+      case "column":
+        return { type: "column", name: token.value };
+      case "identifier": {
+        if (tokens[position]?.type !== "(") {
+          return { type: "column", name: token.value };
+        }
+        position += 1;
+        const args: Node[] = [];
+        if (tokens[position]?.type === ")") {
+          position += 1;
+        } else {
+          for (;;) {
+            args.push(parseNode());
+            const next = tokens[position];
+            position += 1;
+            if (next?.type === ")") break;
+            if (next?.type !== ",") {
+              throw new ExpressionError(
+                `Expected "," or ")" in ${token.value}().`
+              );
+            }
+          }
+        }
+        const name = token.value.toLowerCase();
+        if (!isFunctionName(name)) {
+          throw new ExpressionError(`Unknown function ${token.value}().`);
+        }
+        return { type: "call", name, args };
+      }
+      default:
+        throw new ExpressionError(`Unexpected "${token.type}".`);
+    }
+  };
+
+  const node = parseNode();
+  if (position < tokens.length) {
+    throw new ExpressionError("Unexpected input after expression.");
+  }
+  return node;
+}
+
+const unitFactors: Record<string, { dimension: string; factor: number }> = {
+  mg: { dimension: "mass", factor: 0.001 },
+  g: { dimension: "mass", factor: 1 },
+  kg: { dimension: "mass", factor: 1000 },
+  oz: { dimension: "mass", factor: 28.3495 },
+  lb: { dimension: "mass", factor: 453.592 },
+  ml: { dimension: "volume", factor: 1 },
+  l: { dimension: "volume", factor: 1000 },
+  mm: { dimension: "length", factor: 0.1 },
+  cm: { dimension: "length", factor: 1 },
+  m: { dimension: "length", factor: 100 },
+  in: { dimension: "length", factor: 2.54 },
+};
+
+function formatNumber(value: number): string {
+  return Number.isFinite(value) ? String(Math.round(value * 1e6) / 1e6) : "";
+}
+
+type PatternGroup = {
+  repeats: boolean;
+  alternates: boolean;
+  /** Whether anything in the group consumes characters. */
+  consumes: boolean;
+  lookaround: boolean;
+};
+
+const emptyGroup = (lookaround = false): PatternGroup => ({
+  repeats: false,
+  alternates: false,
+  consumes: false,
+  lookaround,
+});
+
+/**
+ * Rejects the constructs that make a backtracking engine run in exponential
+ * time: backreferences, and repeated groups that themselves repeat, branch or
+ * can match nothing, e.g. `(a+)+`, `(a|ab)*` or `(a?){10}`. What is left is
+ * polynomial, and `MAX_PATTERN_CHOICES` keeps it to a fraction of a second.
+ */
+function checkPattern(pattern: string) {
+  const groups: PatternGroup[] = [emptyGroup()];
+  let lastGroup: PatternGroup | null = null;
+  /** Whether the previous token can take a quantifier. */
+  let quantifiable = false;
+  let choices = 1;
+  let index = 0;
+
+  while (index < pattern.length) {
+    const char = pattern[index];
+    const current = groups[groups.length - 1];
+    const bound =
+      char === "{" ? /^\{(\d+)(,?)(\d*)\}/.exec(pattern.slice(index)) : null;
+
+    if (char === "\\") {
+      const next = pattern[index + 1] ?? "";
+      if (/[1-9]/.test(next) || (next === "k" && pattern[index + 2] === "<")) {
+        throw new ExpressionError("Backreferences are not supported.");
+      }
+      const assertion = next === "b" || next === "B";
+      if (!assertion) current.consumes = true;
+      index += 2;
+      lastGroup = null;
+      quantifiable = !assertion;
+    } else if (char === "[") {
+      index += 1;
+      while (index < pattern.length && pattern[index] !== "]") {
+        index += pattern[index] === "\\" ? 2 : 1;
+      }
+      index += 1;
+      current.consumes = true;
+      lastGroup = null;
+      quantifiable = true;
+    } else if (char === "(") {
+      const lookaround = /^\(\?<?[=!]/.test(pattern.slice(index));
+      groups.push(emptyGroup(lookaround));
+      const prefix = /^\((\?(<?[=!]|:|<[A-Za-z_]\w*>))?/.exec(
+        pattern.slice(index)
+      )!;
+      index += prefix[0].length;
+      lastGroup = null;
+      quantifiable = false;
+    } else if (char === ")") {
+      const closed = groups.length > 1 ? groups.pop()! : current;
+      const parent = groups[groups.length - 1];
+      parent.repeats = parent.repeats || closed.repeats;
+      parent.consumes =
+        parent.consumes || (closed.consumes && !closed.lookaround);
+      index += 1;
+      lastGroup = closed;
+      quantifiable = true;
+    } else if (char === "|") {
+      current.alternates = true;
+      index += 1;
+      lastGroup = null;
+      quantifiable = false;
+    } else if (
+      quantifiable &&
+      (char === "*" || char === "+" || char === "?" || bound)
+    ) {
+      const min = bound ? Number(bound[1]) : char === "+" ? 1 : 0;
+      const max = bound
+        ? bound[2]
+          ? bound[3]
+            ? Number(bound[3])
+            : Infinity
+          : min
+        : char === "?"
+        ? 1
+        : Infinity;
+      if (
+        lastGroup &&
+        max > 1 &&
+        (lastGroup.repeats || lastGroup.alternates || !lastGroup.consumes)
+      ) {
+        throw new ExpressionError(
+          "Repeating a group that repeats, branches or can match nothing is not supported."
+        );
+      }
+      if (max > min) current.repeats = true;
+      choices *= max > 10 ? MAX_PATTERN_INPUT : max - min + 1;
+      if (choices > MAX_PATTERN_CHOICES) {
+        throw new ExpressionError(
+          "Regular expression has too many ways to match; use fewer or tighter quantifiers."
+        );
+      }
+      index += bound ? bound[0].length : 1;
+      // A lazy marker ("+?") belongs to this quantifier.
+      if (pattern[index] === "?") index += 1;
+      lastGroup = null;
+      quantifiable = false;
+    } else {
+      if (char !== "^" && char !== "$") current.consumes = true;
+      index += 1;
+      lastGroup = null;
+      quantifiable = char !== "^" && char !== "$";
+    }
+  }
+}
+
+function safePattern(pattern: string, flags = ""): RegExp {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new ExpressionError("Regular expression is too long.");
+  }
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, flags);
+  } catch {
+    throw new ExpressionError(`Invalid regular expression /${pattern}/.`);
+  }
+  checkPattern(pattern);
+  return regex;
+}
+
+function patternInput(name: string, value: string): string {
+  if (value.length > MAX_PATTERN_INPUT) {
+    throw new ExpressionError(
+      `${name}() only runs on values up to ${MAX_PATTERN_INPUT} characters.`
+    );
+  }
+  return value;
+}
+
+function arity(name: string, args: string[], min: number, max = min) {
+  if (args.length < min || args.length > max) {
+    throw new ExpressionError(
+      `${name}() expects ${min === max ? min : `${min}-${max}`} argument(s).`
+    );
+  }
+}
+
+const functions: Record<string, (args: string[]) => string> = {
+  concat: (args) => args.join(""),
+  upper: (args) => {
+    arity("upper", args, 1);
+    return args[0].toUpperCase();
+  },
+  lower: (args) => {
+    arity("lower", args, 1);
+    return args[0].toLowerCase();
+  },
+  trim: (args) => {
+    arity("trim", args, 1);
+    return args[0].trim();
+  },
+  title: (args) => {
+    arity("title", args, 1);
+    return args[0]
+      .toLowerCase()
+      .replace(/\b[a-z]/g, (char) => char.toUpperCase());
+  },
+  default: (args) => {
+    arity("default", args, 2);
+    return args[0].trim() ? args[0] : args[1];
+  },
+  coalesce: (args) => args.find((value) => value.trim()) ?? "",
+  replace: (args) => {
+    arity("replace", args, 3);
+    return patternInput("replace", args[0]).replace(
+      safePattern(args[1], "gi"),
+      args[2]
+    );
+  },
+  extract: (args) => {
+    arity("extract", args, 2, 3);
+    const match = safePattern(args[1], "i").exec(
+      patternInput("extract", args[0])
+    );
+    return match?.[Number(args[2] ?? (match.length > 1 ? 1 : 0))] ?? "";
+  },
+  number: (args) => {
+    arity("number", args, 1);
+    return formatNumber(parseNumber(args[0]));
+  },
+  round: (args) => {
+    arity("round", args, 1, 2);
+    const digits = Number(args[1] ?? 0);
+    return parseNumber(args[0]).toFixed(Math.min(Math.max(digits, 0), 6));
+  },
+  mul: (args) => {
+    arity("mul", args, 2);
+    return formatNumber(parseNumber(args[0]) * parseNumber(args[1]));
+  },
+  div: (args) => {
+    arity("div", args, 2);
+    return formatNumber(parseNumber(args[0]) / parseNumber(args[1]));
+  },
+  convert: (args) => {
+    arity("convert", args, 3);
+    const from = unitFactors[args[1].toLowerCase()];
+    const to = unitFactors[args[2].toLowerCase()];
+    if (!from || !to || from.dimension !== to.dimension) {
+      throw new ExpressionError(`Cannot convert ${args[1]} to ${args[2]}.`);
+    }
+    return formatNumber((parseNumber(args[0]) * from.factor) / to.factor);
+  },
+  lookup: (args) => {
+    if (args.length < 3) {
+      throw new ExpressionError(
+        "lookup() expects a value and key/value pairs."
+      );
+    }
+    const [value, ...pairs] = args;
+    for (let index = 0; index + 1 < pairs.length; index += 2) {
+      if (pairs[index].toLowerCase() === value.trim().toLowerCase()) {
+        return pairs[index + 1];
+      }
+    }
+    // An odd trailing argument acts as the fallback.
+    return pairs.length % 2 === 1 ? pairs[pairs.length - 1] : value;
+  },
+};
+
+export const expressionFunctions = Object.keys(functions);
+
+/** Own names only, so "constructor" or "__proto__" are not functions. */
+function isFunctionName(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(functions, name);
+}
+
+const compiled = new Map<string, Node>();
+
+function compileExpression(source: string): Node {
+  const cached = compiled.get(source);
+  if (cached) return cached;
+  const node = parse(source);
+  if (compiled.size > 200) compiled.clear();
+  compiled.set(source, node);
+  return node;
+}
+
+function resolveColumn(name: string, rawHeaders: string[]): string {
+  const exact = rawHeaders.find((header) => header === name);
+  if (exact) return exact;
+  const normalized = normalizeKey(name);
+  const match = rawHeaders.find(
+    (header) => normalizeKey(header) === normalized
+  );
+  if (!match) throw new ExpressionError(`Unknown column "${name}".`);
+  return match;
+}
+
+function evaluateNode(node: Node, row: SheetRow, rawHeaders: string[]): string {
+  switch (node.type) {
+    case "literal":
+      return node.value;
+    case "column":
+      return (row[resolveColumn(node.name, rawHeaders)] ?? "").slice(
+        0,
+        MAX_VALUE_LENGTH
+      );
+    case "call":
+      if (!isFunctionName(node.name)) {
+        throw new ExpressionError(`Unknown function ${node.name}().`);
+      }
+      return functions[node.name](
+        node.args.map((arg) => evaluateNode(arg, row, rawHeaders))
+      ).slice(0, MAX_VALUE_LENGTH);
+  }
+}
+
+/** Evaluates an expression for one raw row. Throws `ExpressionError` on bad input. */
+export function evaluateExpression(
+  source: string,
+  row: SheetRow,
+  rawHeaders: string[]
+): string {
+  return evaluateNode(compileExpression(source), row, rawHeaders);
+}
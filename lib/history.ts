@@ -0,0 +1,240 @@
+import type { SheetRow } from "@/lib/sheet";
+import {
+  Mapping,
+  MappingEntry,
+  Marketplace,
+  isExpression,
+} from "@/lib/catalog";
+import type { CopyEdit } from "@/lib/copywriting";
+import type { NamedSheet } from "@/lib/templateExport";
+
+/**
+ * Undo/redo for the Catalog Autopilot. Mapping changes, focus switches and
+ * reviewed cell values go through `CatalogCommand`s that carry both the old
+ * and the new value, so each one can be reversed, replayed and read back as
+ * a change log that ships with the exported file.
+ */
+
+export type ReviewChange = {
+  row: number;
+  header: string;
+  before: CopyEdit["status"];
+  after: CopyEdit["status"];
+};
+
+export type CatalogCommand =
+  | {
+      type: "map";
+      marketplace: Marketplace;
+      header: string;
+      before?: MappingEntry;
+      after?: MappingEntry;
+    }
+  /** Many columns at once: auto-detection or an applied profile. */
+  | {
+      type: "mapping";
+      marketplace: Marketplace;
+      summary: string;
+      before: Mapping;
+      after: Mapping;
+    }
+  | { type: "marketplace"; before: Marketplace; after: Marketplace }
+  /**
+   * Accepting or rejecting proposed copy for generated cells. `run` is the
+   * rewrite run that proposed it; a new run replaces all suggestions.
+   */
+  | {
+      type: "review";
+      marketplace: Marketplace;
+      run: number;
+      changes: ReviewChange[];
+    };
+
+export type HistoryEntry = { command: CatalogCommand; at: number };
+
+/** `past` is what the workspace reflects now, oldest first. */
+export type CommandHistory = { past: HistoryEntry[]; future: HistoryEntry[] };
+
+export const emptyHistory: CommandHistory = { past: [], future: [] };
+
+/** Oldest entries are dropped past this many. */
+const HISTORY_LIMIT = 200;
+
+export const CHANGE_LOG_SHEET = "Change log";
+
+function sameEntry(a?: MappingEntry, b?: MappingEntry): boolean {
+  if (isExpression(a) || isExpression(b)) {
+    return isExpression(a) && isExpression(b) && a.expression === b.expression;
+  }
+  return (a || "") === (b || "");
+}
+
+function isNoop(command: CatalogCommand): boolean {
+  switch (command.type) {
+    case "map":
+      return sameEntry(command.before, command.after);
+    case "mapping":
+      return JSON.stringify(command.before) === JSON.stringify(command.after);
+    case "marketplace":
+      return command.before === command.after;
+    case "review":
+      return command.changes.every((change) => change.before === change.after);
+  }
+}
+
+/**
+ * Adds a command and clears the redo stack. Typing into an expression records
+ * one command per keystroke, so consecutive expression edits of the same
+ * column are folded into one.
+ */
+export function record(
+  history: CommandHistory,
+  command: CatalogCommand,
+  at = Date.now()
+): CommandHistory {
+  if (isNoop(command)) return history;
+  const last = history.past[history.past.length - 1]?.command;
+  if (
+    last?.type === "map" &&
+    command.type === "map" &&
+    last.marketplace === command.marketplace &&
+    last.header === command.header &&
+    isExpression(last.after) &&
+    isExpression(command.after)
+  ) {
+    const merged = { ...command, before: last.before };
+    return {
+      past: isNoop(merged)
+        ? history.past.slice(0, -1)
+        : [...history.past.slice(0, -1), { command: merged, at }],
+      future: [],
+    };
+  }
+  return {
+    past: [...history.past, { command, at }].slice(-HISTORY_LIMIT),
+    future: [],
+  };
+}
+
+/**
+ * Forgets reviews once the suggestions they refer to are gone, so undo cannot
+ * reach them and the change log does not list them.
+ */
+export function dropReviews(history: CommandHistory): CommandHistory {
+  const keep = ({ command }: HistoryEntry) => command.type !== "review";
+  if (history.past.every(keep) && history.future.every(keep)) return history;
+  return {
+    past: history.past.filter(keep),
+    future: history.future.filter(keep),
+  };
+}
+
+/** The same change run backwards. */
+export function invert(command: CatalogCommand): CatalogCommand {
+  switch (command.type) {
+    case "review":
+      return {
+        ...command,
+        changes: command.changes.map((change) => ({
+          ...change,
+          before: change.after,
+          after: change.before,
+        })),
+      };
+    case "map":
+      return { ...command, before: command.after, after: command.before };
+    case "mapping":
+      return { ...command, before: command.after, after: command.before };
+    case "marketplace":
+      return { ...command, before: command.after, after: command.before };
+  }
+}
+
+/** Steps back once: returns the command to apply and the new history. */
+export function undo(
+  history: CommandHistory
+): { command: CatalogCommand; history: CommandHistory } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    command: invert(entry.command),
+    history: {
+      past: history.past.slice(0, -1),
+      future: [entry, ...history.future],
+    },
+  };
+}
+
+export function redo(
+  history: CommandHistory
+): { command: CatalogCommand; history: CommandHistory } | null {
+  const [entry, ...future] = history.future;
+  if (!entry) return null;
+  return {
+    command: entry.command,
+    history: { past: [...history.past, entry], future },
+  };
+}
+
+function describeEntry(entry?: MappingEntry): string {
+  if (isExpression(entry)) return `ƒ ${entry.expression || "(empty)"}`;
+  return `'${entry}'`;
+}
+
+/** "Mapped 'Selling Price' ← 'offer_price'". */
+export function describeCommand(command: CatalogCommand): string {
+  switch (command.type) {
+    case "map":
+      if (!command.after) return `Cleared '${command.header}'`;
+      return `Mapped '${command.header}' ← ${describeEntry(command.after)}`;
+    case "mapping":
+      return command.summary;
+    case "marketplace":
+      return `Switched focus from ${command.before} to ${command.after}`;
+    case "review": {
+      const statuses = Array.from(
+        new Set(command.changes.map((change) => change.after))
+      );
+      const verb =
+        statuses.length > 1
+          ? "Reviewed"
+          : statuses[0] === "accepted"
+          ? "Accepted"
+          : statuses[0] === "rejected"
+          ? "Rejected"
+          : "Reopened";
+      if (command.changes.length === 1) {
+        const [change] = command.changes;
+        return `${verb} rewrite of '${change.header}' on row ${change.row + 1}`;
+      }
+      return `${verb} ${command.changes.length} copy rewrites`;
+    }
+  }
+}
+
+function commandMarketplace(command: CatalogCommand): Marketplace | null {
+  return command.type === "marketplace" ? null : command.marketplace;
+}
+
+/**
+ * The change log as a sheet, optionally only the changes behind one
+ * marketplace's file. Undone changes are not part of it.
+ */
+export function changeLogSheet(
+  entries: HistoryEntry[],
+  marketplace?: Marketplace
+): NamedSheet {
+  const headers = ["#", "Time", "Marketplace", "Change"];
+  const rows: SheetRow[] = entries
+    .filter(
+      ({ command }) =>
+        !marketplace || commandMarketplace(command) === marketplace
+    )
+    .map(({ command, at }, index) => ({
+      "#": String(index + 1),
+      Time: new Date(at).toISOString(),
+      Marketplace: commandMarketplace(command) ?? "",
+      Change: describeCommand(command),
+    }));
+  return { name: CHANGE_LOG_SHEET, headers, rows };
+}
@@ -0,0 +1,472 @@
+import JSZip from "jszip";
+import type { SheetRow } from "@/lib/sheet";
+import { Marketplace, resolveHeaders } from "@/lib/catalog";
+import type { Severity } from "@/lib/validation";
+
+/**
+ * Product photos attached alongside the raw sheet: a picked folder, a ZIP or
+ * loose files. Each file is inspected once (format, pixel size, whether the
+ * edges are white), matched to a row by SKU through its file or folder name,
+ * and checked against the marketplace's image rules. The template's image
+ * columns are then filled with URLs (when the photos are hosted under a base
+ * URL) or plain file names for the marketplace's own image upload.
+ */
+
+export type ImageRule = {
+  /** Accepted MIME types. */
+  formats: string[];
+  /** Pixels the longer side must reach (what enables zoom on Amazon). */
+  minLongSide: number;
+  minShortSide: number;
+  /** Accepted width:height ratios; empty allows any. */
+  aspectRatios: [number, number][];
+  maxBytes: number;
+  /** The main image must sit on a pure white background. */
+  whiteBackground: boolean;
+  /** Images per listing the template has room for. */
+  maxImages: number;
+};
+
+export type ImageAsset = {
+  /** Path inside the picked folder or ZIP. */
+  path: string;
+  name: string;
+  type: string;
+  size: number;
+  /** Zero when the file could not be read as an image. */
+  width: number;
+  height: number;
+  /** Whether the border is white; null where it could not be sampled. */
+  whiteBackground: boolean | null;
+};
+
+export type ImageMatch = {
+  /** Images per `skuKey`, main image first. */
+  bySku: Record<string, ImageAsset[]>;
+  unmatched: ImageAsset[];
+};
+
+export type ImageIssue = {
+  path: string;
+  sku: string | null;
+  severity: Severity;
+  message: string;
+};
+
+const MB = 1024 * 1024;
+
+export const imageRules: Record<Marketplace, ImageRule> = {
+  Amazon: {
+    formats: ["image/jpeg", "image/png", "image/gif", "image/tiff"],
+    minLongSide: 1000,
+    minShortSide: 500,
+    aspectRatios: [],
+    maxBytes: 10 * MB,
+    whiteBackground: true,
+    maxImages: 9,
+  },
+  Flipkart: {
+    formats: ["image/jpeg", "image/png"],
+    minLongSide: 500,
+    minShortSide: 500,
+    aspectRatios: [],
+    maxBytes: 10 * MB,
+    whiteBackground: false,
+    maxImages: 8,
+  },
+  Meesho: {
+    formats: ["image/jpeg", "image/png", "image/webp"],
+    minLongSide: 500,
+    minShortSide: 500,
+    aspectRatios: [],
+    maxBytes: 5 * MB,
+    whiteBackground: false,
+    maxImages: 6,
+  },
+  Myntra: {
+    formats: ["image/jpeg", "image/png"],
+    minLongSide: 1440,
+    minShortSide: 1080,
+    aspectRatios: [[3, 4]],
+    maxBytes: 5 * MB,
+    whiteBackground: false,
+    maxImages: 7,
+  },
+};
+
+const extensionTypes: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+};
+
+/** Ratios within this share of an accepted one pass (1080x1445 is still 3:4). */
+const ASPECT_TOLERANCE = 0.01;
+
+/** Channel value (0-255) a border pixel needs on R, G and B to count as white. */
+const WHITE_LEVEL = 245;
+
+function extensionOf(path: string): string {
+  return /\.([a-z0-9]+)$/i.exec(path)?.[1].toLowerCase() ?? "";
+}
+
+function baseName(path: string): string {
+  return path.split("/").pop() ?? path;
+}
+
+export function isImagePath(path: string): boolean {
+  const name = baseName(path);
+  return (
+    Boolean(extensionTypes[extensionOf(name)]) &&
+    !name.startsWith(".") &&
+    !path.startsWith("__MACOSX/")
+  );
+}
+
+/** Pixel size and format from the file header (PNG, JPEG, GIF, WebP). */
+export function imageDimensions(
+  bytes: Uint8Array
+): { width: number; height: number; type: string } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (start: number, length: number) =>
+    String.fromCharCode(...Array.from(bytes.subarray(start, start + length)));
+
+  if (bytes.length >= 24 && ascii(1, 3) === "PNG") {
+    return {
+      width: view.getUint32(16),
+      height: view.getUint32(20),
+      type: "image/png",
+    };
+  }
+  if (bytes.length >= 10 && ascii(0, 4) === "GIF8") {
+    return {
+      width: view.getUint16(6, true),
+      height: view.getUint16(8, true),
+      type: "image/gif",
+    };
+  }
+  if (bytes.length >= 30 && ascii(0, 4) === "RIFF" && ascii(8, 4) === "WEBP") {
+    const chunk = ascii(12, 4);
+    if (chunk === "VP8 ") {
+      return {
+        width: view.getUint16(26, true) & 0x3fff,
+        height: view.getUint16(28, true) & 0x3fff,
+        type: "image/webp",
+      };
+    }
+    if (chunk === "VP8L") {
+      const bits = view.getUint32(21, true);
+      return {
+        width: (bits & 0x3fff) + 1,
+        height: ((bits >> 14) & 0x3fff) + 1,
+        type: "image/webp",
+      };
+    }
+    if (chunk === "VP8X") {
+      return {
+        width: (view.getUint32(24, true) & 0xffffff) + 1,
+        height: (view.getUint32(27, true) & 0xffffff) + 1,
+        type: "image/webp",
+      };
+    }
+    return null;
+  }
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    // Walk the segments up to the frame header, skipping EXIF and friends.
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1];
+      if (marker === 0xff) {
+        offset += 1;
+        continue;
+      }
+      const isFrame =
+        marker >= 0xc0 &&
+        marker <= 0xcf &&
+        marker !== 0xc4 &&
+        marker !== 0xc8 &&
+        marker !== 0xcc;
+      if (isFrame) {
+        return {
+          width: view.getUint16(offset + 7),
+          height: view.getUint16(offset + 5),
+          type: "image/jpeg",
+        };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  }
+  return null;
+}
+
+/**
+ * Samples the outer ring of a downscaled copy. Needs `createImageBitmap` and
+ * `OffscreenCanvas` (browsers and their workers); elsewhere returns null and
+ * the background rule is skipped.
+ */
+async function sampleWhiteBackground(
+  bytes: Uint8Array,
+  type: string
+): Promise<boolean | null> {
+  if (
+    typeof createImageBitmap === "undefined" ||
+    typeof OffscreenCanvas === "undefined"
+  ) {
+    return null;
+  }
+  try {
+    const bitmap = await createImageBitmap(new Blob([bytes.slice()], { type }));
+    const size = 64;
+    const canvas = new OffscreenCanvas(size, size);
+    const context = canvas.getContext("2d");
+    if (!context) return null;
+    context.drawImage(bitmap, 0, 0, size, size);
+    bitmap.close();
+    const { data } = context.getImageData(0, 0, size, size);
+    let white = 0;
+    let total = 0;
+    for (let y = 0; y < size; y += 1) {
+      for (let x = 0; x < size; x += 1) {
+        const edge = x < 2 || y < 2 || x >= size - 2 || y >= size - 2;
+        if (!edge) continue;
+        const index = (y * size + x) * 4;
+        total += 1;
+        if (
+          data[index] >= WHITE_LEVEL &&
+          data[index + 1] >= WHITE_LEVEL &&
+          data[index + 2] >= WHITE_LEVEL &&
+          data[index + 3] === 255
+        ) {
+          white += 1;
+        }
+      }
+    }
+    return white / total >= 0.95;
+  } catch {
+    return null;
+  }
+}
+
+export type ImageFile = { path: string; bytes: Uint8Array };
+
+/** Image files from the picked files, unpacking any ZIPs among them. */
+export async function readImageFiles(files: File[]): Promise<ImageFile[]> {
+  const images: ImageFile[] = [];
+  for (const file of files) {
+    if (/\.zip$/i.test(file.name)) {
+      const zip = await JSZip.loadAsync(await file.arrayBuffer());
+      for (const entry of Object.values(zip.files)) {
+        if (entry.dir || !isImagePath(entry.name)) continue;
+        images.push({
+          path: entry.name,
+          bytes: await entry.async("uint8array"),
+        });
+      }
+    } else {
+      const path = file.webkitRelativePath || file.name;
+      if (!isImagePath(path)) continue;
+      images.push({ path, bytes: new Uint8Array(await file.arrayBuffer()) });
+    }
+  }
+  return images;
+}
+
+export async function inspectImage(file: ImageFile): Promise<ImageAsset> {
+  const dimensions = imageDimensions(file.bytes);
+  const type = dimensions?.type ?? extensionTypes[extensionOf(file.path)] ?? "";
+  return {
+    path: file.path,
+    name: baseName(file.path),
+    type,
+    size: file.bytes.byteLength,
+    width: dimensions?.width ?? 0,
+    height: dimensions?.height ?? 0,
+    whiteBackground: dimensions
+      ? await sampleWhiteBackground(file.bytes, type)
+      : null,
+  };
+}
+
+export function skuKey(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/** The raw column images are matched on. */
+export function rawSkuHeader(rawHeaders: string[]): string | null {
+  return resolveHeaders(rawHeaders, "sku")[0] ?? null;
+}
+
+/** "main" or no suffix sorts first, then numbered shots, then named views. */
+function imageOrder(suffix: string): number {
+  if (!suffix || suffix === "main") return 0;
+  if (/^\d+$/.test(suffix)) return Number(suffix);
+  return 1000;
+}
+
+/**
+ * Matches files to SKUs by name: `SKU.jpg`, `SKU_2.jpg`, `SKU-back.png`,
+ * `SKU (3).jpg`, or any file inside a folder named after the SKU. The
+ * longest matching SKU wins, so `TS-01-RED_1.jpg` goes to TS-01-RED rather
+ * than TS-01.
+ */
+export function matchImages(assets: ImageAsset[], skus: string[]): ImageMatch {
+  const known = new Set(skus.map(skuKey).filter(Boolean));
+  const ranked: Record<string, { asset: ImageAsset; order: number }[]> = {};
+  const unmatched: ImageAsset[] = [];
+
+  assets.forEach((asset) => {
+    const stem = skuKey(asset.name.replace(/\.[^.]+$/, ""));
+    let sku: string | null = null;
+    let suffix = "";
+    for (let end = stem.length; end > 0; end -= 1) {
+      if (end < stem.length && !/[\s_.\-(]/.test(stem[end])) continue;
+      if (known.has(stem.slice(0, end))) {
+        sku = stem.slice(0, end);
+        suffix = stem.slice(end).replace(/^[\s_.\-(]+|\)$/g, "");
+        break;
+      }
+    }
+    if (!sku) {
+      const folder = skuKey(asset.path.split("/").slice(-2, -1)[0] ?? "");
+      if (known.has(folder)) {
+        sku = folder;
+        suffix = stem;
+      }
+    }
+    if (!sku) {
+      unmatched.push(asset);
+      return;
+    }
+    (ranked[sku] ??= []).push({ asset, order: imageOrder(suffix) });
+  });
+
+  const bySku: Record<string, ImageAsset[]> = {};
+  Object.entries(ranked).forEach(([sku, entries]) => {
+    bySku[sku] = entries
+      .sort(
+        (a, b) => a.order - b.order || a.asset.name.localeCompare(b.asset.name)
+      )
+      .map((entry) => entry.asset);
+  });
+  return { bySku, unmatched };
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= MB
+    ? `${(bytes / MB).toFixed(1)} MB`
+    : `${Math.round(bytes / 1024)} KB`;
+}
+
+/** Problems with one image for a marketplace; `main` is the listing's first. */
+export function checkImage(
+  marketplace: Marketplace,
+  asset: ImageAsset,
+  main: boolean
+): { severity: Severity; message: string }[] {
+  const rule = imageRules[marketplace];
+  const issues: { severity: Severity; message: string }[] = [];
+  const error = (message: string) =>
+    issues.push({ severity: "error", message });
+
+  if (!rule.formats.includes(asset.type)) {
+    error(
+      `${marketplace} does not accept ${asset.type || "this file type"} images.`
+    );
+  }
+  if (!asset.width || !asset.height) {
+    error("Could not read the image size.");
+    return issues;
+  }
+  const long = Math.max(asset.width, asset.height);
+  const short = Math.min(asset.width, asset.height);
+  if (long < rule.minLongSide || short < rule.minShortSide) {
+    error(
+      `${asset.width}×${asset.height}px is below ${marketplace}'s minimum of ${rule.minShortSide}px short side and ${rule.minLongSide}px long side.`
+    );
+  }
+  if (
+    rule.aspectRatios.length &&
+    !rule.aspectRatios.some(
+      ([width, height]) =>
+        Math.abs(asset.width / asset.height - width / height) <=
+        (width / height) * ASPECT_TOLERANCE
+    )
+  ) {
+    error(
+      `${asset.width}×${asset.height}px is not ${rule.aspectRatios
+        .map(([width, height]) => `${width}:${height}`)
+        .join(" or ")}.`
+    );
+  }
+  if (asset.size > rule.maxBytes) {
+    error(
+      `${formatBytes(asset.size)} is over ${marketplace}'s ${formatBytes(
+        rule.maxBytes
+      )} limit.`
+    );
+  }
+  if (rule.whiteBackground && main && asset.whiteBackground === false) {
+    error(`The main image needs a pure white background on ${marketplace}.`);
+  }
+  return issues;
+}
+
+/** Rule violations for every matched image, plus listings with too many. */
+export function checkImages(
+  marketplace: Marketplace,
+  match: ImageMatch
+): ImageIssue[] {
+  const rule = imageRules[marketplace];
+  const issues: ImageIssue[] = [];
+  Object.entries(match.bySku).forEach(([sku, assets]) => {
+    assets.slice(0, rule.maxImages).forEach((asset, index) => {
+      checkImage(marketplace, asset, index === 0).forEach((issue) =>
+        issues.push({ path: asset.path, sku, ...issue })
+      );
+    });
+    if (assets.length > rule.maxImages) {
+      issues.push({
+        path: assets[rule.maxImages].path,
+        sku,
+        severity: "warning",
+        message: `${assets.length} images; ${marketplace} takes the first ${rule.maxImages}.`,
+      });
+    }
+  });
+  return issues;
+}
+
+/**
+ * Cell values per `skuKey`: `baseUrl/path` when the photos are hosted,
+ * otherwise the file name for the marketplace's bulk image upload.
+ */
+export function imageCellValues(
+  match: ImageMatch,
+  baseUrl = ""
+): Record<string, string[]> {
+  const base = baseUrl.trim().replace(/\/+$/, "");
+  const values: Record<string, string[]> = {};
+  Object.entries(match.bySku).forEach(([sku, assets]) => {
+    values[sku] = assets.map((asset) =>
+      base
+        ? `${base}/${asset.path.split("/").map(encodeURIComponent).join("/")}`
+        : asset.name
+    );
+  });
+  return values;
+}
+
+/** Looks up a raw row's image values through its SKU. */
+export function rowImages(
+  values: Record<string, string[]>,
+  rawHeaders: string[]
+): (row: SheetRow) => string[] {
+  const header = rawSkuHeader(rawHeaders);
+  if (!header || !Object.keys(values).length) return () => [];
+  return (row) => values[skuKey(row[header] ?? "")] ?? [];
+}
@@ -0,0 +1,60 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * A list of records kept as one JSON document, `{ version: 1, [key]: [...] }`,
+ * under JARVIS_DATA_DIR (default `.jarvis/` in the working directory). Writes
+ * are queued so concurrent requests never interleave, and land via rename so
+ * a crash never leaves half a file.
+ */
+export type JsonStore<T> = {
+  read(): Promise<T[]>;
+  mutate<R>(change: (records: T[]) => { records: T[]; result: R }): Promise<R>;
+};
+
+export function jsonStore<T>(filename: string, key: string): JsonStore<T> {
+  const file = () =>
+    path.join(
+      process.env.JARVIS_DATA_DIR || path.join(process.cwd(), ".jarvis"),
+      filename
+    );
+
+  const load = async (): Promise<T[]> => {
+    try {
+      const parsed = JSON.parse(await fs.readFile(file(), "utf8"));
+      return Array.isArray(parsed[key]) ? parsed[key] : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  };
+
+  const save = async (records: T[]) => {
+    const target = file();
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(
+      temp,
+      JSON.stringify({ version: 1, [key]: records }, null, 2)
+    );
+    await fs.rename(temp, target);
+  };
+
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return {
+    async read() {
+      await queue;
+      return load();
+    },
+    mutate(change) {
+      const run = queue.then(async () => {
+        const { records, result } = change(await load());
+        await save(records);
+        return result;
+      });
+      queue = run.catch(() => undefined);
+      return run;
+    },
+  };
+}
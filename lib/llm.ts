@@ -0,0 +1,438 @@
+import OpenAI from "openai";
+
+/**
+ * Provider layer for every language-model call the API routes make. The
+ * backend is picked from the environment:
+ *
+ *   LLM_PROVIDER   "openai" | "openai-compatible" | "mock"
+ *   LLM_MODEL      default model (gpt-4o-mini)
+ *   LLM_BASE_URL   server root for OpenAI-compatible backends, e.g.
+ *                  http://localhost:11434/v1 (Ollama) or
+ *                  http://localhost:8080/v1 (llama.cpp server)
+ *   LLM_API_KEY    falls back to OPENAI_API_KEY
+ *   LLM_MODEL_<MODE>  per-mode override, e.g. LLM_MODEL_CATALOG_REWRITE
+ *
+ * Without LLM_PROVIDER the OpenAI backend is used when a key is present and
+ * the compatible backend when only a base URL is; otherwise no provider is
+ * configured and callers use their offline fallbacks.
+ */
+
+export type AssistantMode =
+  | "voice"
+  | "text"
+  | "catalog-enrichment"
+  | "catalog-rewrite"
+  | "catalog-taxonomy"
+  | "session-summary";
+
+export const assistantModes: AssistantMode[] = [
+  "voice",
+  "text",
+  "catalog-enrichment",
+  "catalog-rewrite",
+  "catalog-taxonomy",
+  "session-summary",
+];
+
+export type LLMMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type ToolDefinition = {
+  name: string;
+  description: string;
+  /** JSON schema for the arguments object. */
+  parameters: Record<string, unknown>;
+};
+
+export type ToolCall = {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+};
+
+/** Tools the model may call; results are fed back until it answers in text. */
+export type ToolSet = {
+  definitions: ToolDefinition[];
+  execute(call: ToolCall): Promise<unknown>;
+};
+
+export type CompletionRequest = {
+  mode: AssistantMode;
+  messages: LLMMessage[];
+  /** Ask the backend for a single JSON object instead of free text. */
+  json?: boolean;
+  /** Reasoning effort hint; ignored by backends without the option. */
+  reasoning?: "low" | "medium" | "high";
+  tools?: ToolSet;
+};
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  /** Model the request will be sent to, after per-mode overrides. */
+  modelFor(mode: AssistantMode): string;
+  complete(request: CompletionRequest): Promise<string>;
+  /** Yields text deltas as they arrive. */
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+export type ProviderName = "openai" | "openai-compatible" | "mock";
+
+export type LLMConfig = {
+  provider: ProviderName;
+  model: string;
+  baseURL?: string;
+  apiKey?: string;
+  modelOverrides: Partial<Record<AssistantMode, string>>;
+};
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+/** Tool round trips per request before the model must answer in text. */
+const MAX_TOOL_ROUNDS = 4;
+
+type Env = Record<string, string | undefined>;
+
+function modeEnvName(mode: AssistantMode): string {
+  return `LLM_MODEL_${mode.replace(/-/g, "_").toUpperCase()}`;
+}
+
+/** Reads the provider configuration, or `null` when no backend is set up. */
+export function loadLLMConfig(env: Env = process.env): LLMConfig | null {
+  const apiKey = env.LLM_API_KEY || env.OPENAI_API_KEY || undefined;
+  const baseURL = env.LLM_BASE_URL || undefined;
+  const requested = env.LLM_PROVIDER?.trim().toLowerCase();
+
+  let provider: ProviderName | null = null;
+  if (
+    requested === "openai" ||
+    requested === "openai-compatible" ||
+    requested === "mock"
+  ) {
+    provider = requested;
+  } else if (requested) {
+    throw new Error(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}".`);
+  } else if (apiKey) {
+    provider = "openai";
+  } else if (baseURL) {
+    provider = "openai-compatible";
+  }
+  if (!provider) return null;
+  if (provider === "openai" && !apiKey) return null;
+  if (provider === "openai-compatible" && !baseURL) {
+    throw new Error("LLM_BASE_URL is required for openai-compatible.");
+  }
+
+  const modelOverrides: LLMConfig["modelOverrides"] = {};
+  assistantModes.forEach((mode) => {
+    const override = env[modeEnvName(mode)];
+    if (override) modelOverrides[mode] = override;
+  });
+
+  return {
+    provider,
+    model: env.LLM_MODEL || DEFAULT_MODEL,
+    baseURL,
+    apiKey,
+    modelOverrides,
+  };
+}
+
+function modelResolver(config: LLMConfig) {
+  return (mode: AssistantMode) => config.modelOverrides[mode] ?? config.model;
+}
+
+function parseArguments(source: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(source || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Runs one call, reporting failures to the model rather than the user. */
+async function runTool(tools: ToolSet, call: ToolCall): Promise<string> {
+  try {
+    return JSON.stringify((await tools.execute(call)) ?? { ok: true });
+  } catch (error) {
+    return JSON.stringify({
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/** OpenAI itself, through the Responses API. */
+function openAIProvider(config: LLMConfig): LLMProvider {
+  const client = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseURL });
+  const modelFor = modelResolver(config);
+  const params = (
+    request: CompletionRequest,
+    input: OpenAI.Responses.ResponseInput,
+    round: number
+  ) => ({
+    model: modelFor(request.mode),
+    input,
+    ...(request.reasoning
+      ? { reasoning: { effort: request.reasoning } }
+      : undefined),
+    ...(request.json
+      ? { text: { format: { type: "json_object" as const } } }
+      : undefined),
+    ...(request.tools && round < MAX_TOOL_ROUNDS
+      ? {
+          tools: request.tools.definitions.map((tool) => ({
+            type: "function" as const,
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+            strict: false,
+          })),
+        }
+      : undefined),
+  });
+  const withResults = async (
+    request: CompletionRequest,
+    input: OpenAI.Responses.ResponseInput,
+    output: OpenAI.Responses.ResponseOutputItem[]
+  ) => {
+    const calls = output.flatMap((item) =>
+      item.type === "function_call" ? [item] : []
+    );
+    if (!calls.length || !request.tools) return null;
+    const next: OpenAI.Responses.ResponseInput = [...input, ...calls];
+    for (const call of calls) {
+      next.push({
+        type: "function_call_output",
+        call_id: call.call_id,
+        output: await runTool(request.tools, {
+          id: call.call_id,
+          name: call.name,
+          arguments: parseArguments(call.arguments),
+        }),
+      });
+    }
+    return next;
+  };
+
+  return {
+    name: "openai",
+    modelFor,
+    async complete(request) {
+      let input: OpenAI.Responses.ResponseInput = request.messages;
+      for (let round = 0; ; round += 1) {
+        const response = await client.responses.create(
+          params(request, input, round)
+        );
+        const next = await withResults(request, input, response.output);
+        if (!next) return response.output_text ?? "";
+        input = next;
+      }
+    },
+    async *stream(request) {
+      let input: OpenAI.Responses.ResponseInput = request.messages;
+      for (let round = 0; ; round += 1) {
+        const events = await client.responses.create({
+          ...params(request, input, round),
+          stream: true,
+        });
+        let output: OpenAI.Responses.ResponseOutputItem[] = [];
+        for await (const event of events) {
+          if (event.type === "response.output_text.delta") yield event.delta;
+          if (event.type === "response.completed") {
+            output = event.response.output;
+          }
+        }
+        const next = await withResults(request, input, output);
+        if (!next) return;
+        input = next;
+      }
+    },
+  };
+}
+
+/**
+ * Any server speaking the Chat Completions dialect (llama.cpp, Ollama, vLLM,
+ * LM Studio...). Local servers rarely check the key, but the SDK wants one.
+ */
+function compatibleProvider(config: LLMConfig): LLMProvider {
+  const client = new OpenAI({
+    apiKey: config.apiKey ?? "local",
+    baseURL: config.baseURL,
+  });
+  const modelFor = modelResolver(config);
+  const params = (
+    request: CompletionRequest,
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    round: number
+  ) => ({
+    model: modelFor(request.mode),
+    messages,
+    ...(request.json
+      ? { response_format: { type: "json_object" as const } }
+      : undefined),
+    ...(request.tools && round < MAX_TOOL_ROUNDS
+      ? {
+          tools: request.tools.definitions.map((tool) => ({
+            type: "function" as const,
+            function: {
+              name: tool.name,
+              description: tool.description,
+              parameters: tool.parameters,
+            },
+          })),
+        }
+      : undefined),
+  });
+  const withResults = async (
+    request: CompletionRequest,
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    content: string,
+    calls: OpenAI.Chat.ChatCompletionMessageToolCall[]
+  ) => {
+    if (!calls.length || !request.tools) return null;
+    const next: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      ...messages,
+      { role: "assistant", content, tool_calls: calls },
+    ];
+    for (const call of calls) {
+      next.push({
+        role: "tool",
+        tool_call_id: call.id,
+        content: await runTool(request.tools, {
+          id: call.id,
+          name: call.function.name,
+          arguments: parseArguments(call.function.arguments),
+        }),
+      });
+    }
+    return next;
+  };
+
+  return {
+    name: "openai-compatible",
+    modelFor,
+    async complete(request) {
+      let messages: OpenAI.Chat.ChatCompletionMessageParam[] = request.messages;
+      for (let round = 0; ; round += 1) {
+        const completion = await client.chat.completions.create(
+          params(request, messages, round)
+        );
+        const message = completion.choices[0]?.message;
+        const next = await withResults(
+          request,
+          messages,
+          message?.content ?? "",
+          message?.tool_calls ?? []
+        );
+        if (!next) return message?.content ?? "";
+        messages = next;
+      }
+    },
+    async *stream(request) {
+      let messages: OpenAI.Chat.ChatCompletionMessageParam[] = request.messages;
+      for (let round = 0; ; round += 1) {
+        const chunks = await client.chat.completions.create({
+          ...params(request, messages, round),
+          stream: true,
+        });
+        let content = "";
+        // Tool calls arrive in fragments keyed by their position.
+        const calls: OpenAI.Chat.ChatCompletionMessageToolCall[] = [];
+        for await (const chunk of chunks) {
+          const delta = chunk.choices[0]?.delta;
+          if (delta?.content) {
+            content += delta.content;
+            yield delta.content;
+          }
+          delta?.tool_calls?.forEach((fragment) => {
+            const call = (calls[fragment.index] ??= {
+              id: "",
+              type: "function",
+              function: { name: "", arguments: "" },
+            });
+            if (fragment.id) call.id = fragment.id;
+            call.function.name += fragment.function?.name ?? "";
+            call.function.arguments += fragment.function?.arguments ?? "";
+          });
+        }
+        const next = await withResults(
+          request,
+          messages,
+          content,
+          calls.filter(Boolean)
+        );
+        if (!next) return;
+        messages = next;
+      }
+    },
+  };
+}
+
+/**
+ * Deterministic, network-free backend: the reply is derived only from the
+ * request, so route behaviour can be asserted offline. JSON requests get an
+ * empty object, which sends callers down their own fallback paths. A user
+ * message of the form `call <tool> {json}` invokes that tool and echoes the
+ * result.
+ */
+function mockProvider(config: LLMConfig): LLMProvider {
+  const modelFor = modelResolver(config);
+  const reply = async (request: CompletionRequest) => {
+    if (request.json) return "{}";
+    const last = [...request.messages]
+      .reverse()
+      .find((message) => message.role === "user");
+    const echo = (last?.content ?? "").replace(/\s+/g, " ").trim();
+    const prefix = `[${modelFor(request.mode)}] ${request.mode}`;
+    const command = /^call (\w+)\s*(\{.*\})?$/.exec(echo);
+    const tool = request.tools?.definitions.find(
+      (definition) => definition.name === command?.[1]
+    );
+    if (command && tool && request.tools) {
+      const result = await runTool(request.tools, {
+        id: "mock-call-1",
+        name: tool.name,
+        arguments: parseArguments(command[2] ?? ""),
+      });
+      return `${prefix} ${tool.name} -> ${result}`;
+    }
+    return `${prefix} reply to: ${echo.slice(0, 200)}`;
+  };
+
+  return {
+    name: "mock",
+    modelFor,
+    complete: reply,
+    async *stream(request) {
+      const text = await reply(request);
+      for (const piece of text.match(/\S+\s*/g) ?? []) yield piece;
+    },
+  };
+}
+
+export function createProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case "openai":
+      return openAIProvider(config);
+    case "openai-compatible":
+      return compatibleProvider(config);
+    case "mock":
+      return mockProvider(config);
+  }
+}
+
+let cached: { key: string; provider: LLMProvider | null } | null = null;
+
+/**
+ * Provider for the current environment, or `null` when none is configured.
+ * Rebuilt only when the configuration changes.
+ */
+export function getProvider(env: Env = process.env): LLMProvider | null {
+  const config = loadLLMConfig(env);
+  const key = JSON.stringify(config);
+  if (cached?.key !== key) {
+    cached = { key, provider: config ? createProvider(config) : null };
+  }
+  return cached.provider;
+}
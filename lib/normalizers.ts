@@ -0,0 +1,512 @@
+import type { SheetRow } from "@/lib/sheet";
+import { Marketplace, normalizeKey, resolveHeaders } from "@/lib/catalog";
+import type { ValidationIssue } from "@/lib/validation";
+import type { TemplateSchema } from "@/lib/templateSchema";
+
+/**
+ * Typed readers for the `synonymMatrix` concepts whose raw values come in
+ * many spellings ("0.5kg", "Rs. 1,299", "XL / 42", "Navy Blue"). Each value
+ * is parsed once into a unit-free form (grams, rupees, a size, a colour) and
+ * written back in the unit, number format and size chart of the target
+ * marketplace. Values that don't parse are blanked and reported rather than
+ * copied into the template as-is.
+ */
+
+export type Parsed<T> = { ok: true; value: T } | { ok: false; reason: string };
+
+export type Normalizer<T> = {
+  /** What a value is, for messages: "a weight". */
+  label: string;
+  parse(value: string): Parsed<T>;
+  /** `header` lets a column's own unit ("Weight (kg)") win over the default. */
+  format(value: T, marketplace: Marketplace, header: string): string;
+};
+
+export const normalizedConcepts = [
+  "weight",
+  "mrp",
+  "price",
+  "quantity",
+  "size",
+  "color",
+] as const;
+
+export type NormalizedConcept = (typeof normalizedConcepts)[number];
+
+function ok<T>(value: T): Parsed<T> {
+  return { ok: true, value };
+}
+
+function fail<T>(reason: string): Parsed<T> {
+  return { ok: false, reason };
+}
+
+function titleCase(value: string): string {
+  return value.replace(/\b[a-z]/g, (letter) => letter.toUpperCase());
+}
+
+/** Up to `decimals` places without trailing zeros: 0.5, 1.25, 500. */
+function trimmedNumber(value: number, decimals: number): string {
+  return String(Number(value.toFixed(decimals)));
+}
+
+/**
+ * "1,299" and "1,29,999" group thousands; "0,5" is a decimal comma. Returns
+ * NaN for anything else.
+ */
+function readNumber(text: string): number {
+  const grouped = /^\d{1,3}(,\d{2,3})*(\.\d+)?$/.test(text)
+    ? text.replace(/,/g, "")
+    : /^\d+,\d{1,2}$/.test(text)
+    ? text.replace(",", ".")
+    : text;
+  return /^(\d+(\.\d+)?|\.\d+)$/.test(grouped) ? Number(grouped) : NaN;
+}
+
+// ---- Weight -------------------------------------------------------------
+
+const gramsPerUnit: Record<string, number> = {
+  mg: 0.001,
+  g: 1,
+  gm: 1,
+  gms: 1,
+  gr: 1,
+  gram: 1,
+  grams: 1,
+  kg: 1000,
+  kgs: 1000,
+  kilo: 1000,
+  kilos: 1000,
+  kilogram: 1000,
+  kilograms: 1000,
+  lb: 453.592,
+  lbs: 453.592,
+  pound: 453.592,
+  pounds: 453.592,
+  oz: 28.3495,
+  ounce: 28.3495,
+  ounces: 28.3495,
+};
+
+/** Default weight unit per marketplace when the column doesn't name one. */
+export const weightUnits: Record<Marketplace, "g" | "kg"> = {
+  Amazon: "g",
+  Flipkart: "kg",
+  Meesho: "g",
+  Myntra: "g",
+};
+
+function columnWeightUnit(header: string): "g" | "kg" | null {
+  const units = normalizeKey(header)
+    .split(" ")
+    .map((word) => gramsPerUnit[word]);
+  if (units.includes(1000)) return "kg";
+  if (units.includes(1)) return "g";
+  return null;
+}
+
+/** Grams. A bare number is taken to be in the target column's unit. */
+export const weightNormalizer: Normalizer<
+  { grams: number } | { amount: number }
+> = {
+  label: "a weight",
+  parse(value) {
+    const match = /^([\d.,]+)\s*([a-z]*)\.?$/.exec(value.trim().toLowerCase());
+    const amount = match ? readNumber(match[1]) : NaN;
+    if (!match || Number.isNaN(amount)) return fail("not a number and unit");
+    if (!match[2]) return ok({ amount });
+    const factor = gramsPerUnit[match[2]];
+    return factor
+      ? ok({ grams: amount * factor })
+      : fail(`unknown unit "${match[2]}"`);
+  },
+  format(value, marketplace, header) {
+    const unit = columnWeightUnit(header) ?? weightUnits[marketplace];
+    if ("amount" in value) return trimmedNumber(value.amount, 3);
+    return unit === "kg"
+      ? trimmedNumber(value.grams / 1000, 3)
+      : trimmedNumber(value.grams, value.grams < 10 ? 2 : 0);
+  },
+};
+
+// ---- Money --------------------------------------------------------------
+
+/** Decimal places each marketplace wants on prices and MRP. */
+export const priceDecimals: Record<Marketplace, number> = {
+  Amazon: 2,
+  Flipkart: 0,
+  Meesho: 0,
+  Myntra: 0,
+};
+
+/** Rupees, from "Rs. 1,299", "₹1299.00", "INR 1299" or "1,299/-". */
+export const moneyNormalizer: Normalizer<number> = {
+  label: "a rupee amount",
+  parse(value) {
+    const text = value.trim().toLowerCase().replace(/\s+/g, " ");
+    if (/[$€£]|usd|eur|gbp/.test(text)) return fail("not in rupees");
+    const match =
+      /^(?:₹|rs\.?|inr|mrp:?)?\s*([\d.,]+)\s*(?:\/-|inr|rs\.?|rupees)?$/.exec(
+        text
+      );
+    const amount = match ? readNumber(match[1]) : NaN;
+    return Number.isNaN(amount) ? fail("not a single amount") : ok(amount);
+  },
+  format(value, marketplace) {
+    const decimals = priceDecimals[marketplace];
+    return decimals ? value.toFixed(decimals) : String(Math.round(value));
+  },
+};
+
+// ---- Quantity -----------------------------------------------------------
+
+/** Whole units, from "12", "1,200" or "12 pcs". */
+export const quantityNormalizer: Normalizer<number> = {
+  label: "a quantity",
+  parse(value) {
+    const match = /^([\d,.]+)\s*(?:pcs|pc|pieces?|units?|nos|no|qty)?\.?$/.exec(
+      value.trim().toLowerCase()
+    );
+    const amount = match ? readNumber(match[1]) : NaN;
+    if (Number.isNaN(amount)) return fail("not a number");
+    return Number.isInteger(amount) ? ok(amount) : fail("not a whole number");
+  },
+  format: (value) => String(value),
+};
+
+// ---- Size ---------------------------------------------------------------
+
+export const letterSizes = [
+  "XXS",
+  "XS",
+  "S",
+  "M",
+  "L",
+  "XL",
+  "XXL",
+  "3XL",
+  "4XL",
+  "5XL",
+  "Free",
+] as const;
+
+export type LetterSize = (typeof letterSizes)[number];
+
+const letterAliases: Record<LetterSize, string[]> = {
+  XXS: ["xxs", "2xs", "xx small"],
+  XS: ["xs", "x small", "extra small"],
+  S: ["s", "sm", "small"],
+  M: ["m", "med", "medium"],
+  L: ["l", "large"],
+  XL: ["xl", "x large", "extra large"],
+  XXL: ["xxl", "2xl", "xx large", "double xl"],
+  "3XL": ["xxxl", "3xl", "xxx large"],
+  "4XL": ["xxxxl", "4xl"],
+  "5XL": ["5xl"],
+  Free: ["free", "free size", "freesize", "one size", "onesize"],
+};
+
+const letterByAlias = new Map<string, LetterSize>(
+  letterSizes.flatMap((size) =>
+    letterAliases[size].map((alias) => [alias, size] as [string, LetterSize])
+  )
+);
+
+/** How each marketplace spells letter sizes. */
+export const sizeCharts: Record<Marketplace, Record<LetterSize, string>> = {
+  Amazon: {
+    XXS: "XX-Small",
+    XS: "X-Small",
+    S: "Small",
+    M: "Medium",
+    L: "Large",
+    XL: "X-Large",
+    XXL: "XX-Large",
+    "3XL": "3X-Large",
+    "4XL": "4X-Large",
+    "5XL": "5X-Large",
+    Free: "Free Size",
+  },
+  Flipkart: {
+    XXS: "XXS",
+    XS: "XS",
+    S: "S",
+    M: "M",
+    L: "L",
+    XL: "XL",
+    XXL: "XXL",
+    "3XL": "3XL",
+    "4XL": "4XL",
+    "5XL": "5XL",
+    Free: "Free",
+  },
+  Meesho: {
+    XXS: "XXS",
+    XS: "XS",
+    S: "S",
+    M: "M",
+    L: "L",
+    XL: "XL",
+    XXL: "XXL",
+    "3XL": "XXXL",
+    "4XL": "4XL",
+    "5XL": "5XL",
+    Free: "Free Size",
+  },
+  Myntra: {
+    XXS: "XXS",
+    XS: "XS",
+    S: "S",
+    M: "M",
+    L: "L",
+    XL: "XL",
+    XXL: "XXL",
+    "3XL": "3XL",
+    "4XL": "4XL",
+    "5XL": "5XL",
+    Free: "Onesize",
+  },
+};
+
+export type Size = {
+  letter: LetterSize | null;
+  number: string | null;
+  /** Size system of the number, e.g. "UK"; null for a bare number. */
+  system: string | null;
+};
+
+/**
+ * Letter and/or numeric sizes: "XL", "x-large", "42", "UK 8", "XL / 42",
+ * "42 (XL)". Both parts are kept: the letter size in the marketplace's chart
+ * and the number with its size system, "X-Large / 42" or "UK 8".
+ */
+export const sizeNormalizer: Normalizer<Size> = {
+  label: "a size",
+  parse(value) {
+    const parts = value
+      .split(/[/|()]/)
+      .map((part) => normalizeKey(part.replace(/^size\s*:?/i, "")))
+      .filter(Boolean);
+    if (!parts.length) return fail("empty");
+    const size: Size = { letter: null, number: null, system: null };
+    for (const part of parts) {
+      const letter = letterByAlias.get(part);
+      const number = /^(uk|us|eu|in)?\s*(\d{1,3}(?: 5)?)$/.exec(part);
+      if (letter && !size.letter) size.letter = letter;
+      else if (number && !size.number) {
+        size.number = number[2].replace(" ", ".");
+        size.system = number[1]?.toUpperCase() ?? null;
+      } else return fail(`"${part}" is not a size`);
+    }
+    return ok(size);
+  },
+  format(value, marketplace) {
+    const number = value.number
+      ? [value.system, value.number].filter(Boolean).join(" ")
+      : "";
+    return [value.letter ? sizeCharts[marketplace][value.letter] : "", number]
+      .filter(Boolean)
+      .join(" / ");
+  },
+};
+
+// ---- Colour -------------------------------------------------------------
+
+type Colour = { name: string; family: string; aliases?: string[] };
+
+const palette: Colour[] = [
+  { name: "Black", family: "Black", aliases: ["jet black"] },
+  { name: "White", family: "White" },
+  { name: "Off White", family: "White", aliases: ["offwhite", "ivory"] },
+  { name: "Cream", family: "White" },
+  { name: "Grey", family: "Grey", aliases: ["gray"] },
+  { name: "Charcoal", family: "Grey", aliases: ["charcoal grey"] },
+  { name: "Silver", family: "Grey" },
+  { name: "Red", family: "Red" },
+  { name: "Maroon", family: "Red", aliases: ["burgundy", "wine"] },
+  { name: "Pink", family: "Pink" },
+  { name: "Peach", family: "Pink" },
+  { name: "Orange", family: "Orange", aliases: ["rust"] },
+  { name: "Yellow", family: "Yellow" },
+  { name: "Mustard", family: "Yellow" },
+  { name: "Gold", family: "Yellow", aliases: ["golden"] },
+  { name: "Green", family: "Green" },
+  { name: "Olive", family: "Green", aliases: ["olive green"] },
+  { name: "Sea Green", family: "Green", aliases: ["mint", "mint green"] },
+  { name: "Blue", family: "Blue" },
+  { name: "Navy Blue", family: "Blue", aliases: ["navy"] },
+  { name: "Sky Blue", family: "Blue", aliases: ["light blue"] },
+  { name: "Teal", family: "Blue", aliases: ["teal blue"] },
+  { name: "Purple", family: "Purple", aliases: ["violet"] },
+  { name: "Lavender", family: "Purple", aliases: ["lilac"] },
+  { name: "Brown", family: "Brown", aliases: ["coffee"] },
+  { name: "Tan", family: "Brown" },
+  { name: "Beige", family: "Brown", aliases: ["nude", "camel"] },
+  { name: "Khaki", family: "Brown" },
+];
+
+const MULTICOLOUR: Colour = {
+  name: "Multicolor",
+  family: "Multicolor",
+  aliases: ["multi", "multicolour", "multi color", "multi colour"],
+};
+
+const colourByAlias = new Map<string, Colour>(
+  [...palette, MULTICOLOUR].flatMap((colour) =>
+    [colour.name, ...(colour.aliases ?? [])].map(
+      (alias) => [normalizeKey(alias), colour] as [string, Colour]
+    )
+  )
+);
+
+const shadeWords = new Set(["dark", "light", "deep", "pale", "bright"]);
+
+/**
+ * What each marketplace's colour column takes: Amazon's free-text colour
+ * name, the named colours on Flipkart and Myntra, or Meesho's colour family.
+ */
+export const colourFormats: Record<
+  Marketplace,
+  { value: "shade" | "name" | "family"; multi: string }
+> = {
+  Amazon: { value: "shade", multi: "Multicolor" },
+  Flipkart: { value: "name", multi: "Multicolor" },
+  Meesho: { value: "family", multi: "Multicolor" },
+  Myntra: { value: "name", multi: "Multi" },
+};
+
+export type ParsedColour = { shade: string; colour: Colour };
+
+/** "Navy Blue", "navy", "Dark Green", "Red/Black" (→ Multicolor). */
+export const colourNormalizer: Normalizer<ParsedColour> = {
+  label: "a colour",
+  parse(value) {
+    const key = normalizeKey(value);
+    const exact = colourByAlias.get(key);
+    if (exact) return ok({ shade: exact.name, colour: exact });
+
+    const parts = value
+      .split(/[/,&+]|\band\b|\bwith\b/i)
+      .map(normalizeKey)
+      .filter(Boolean);
+    if (parts.length > 1) {
+      return parts.every((part) => colourByAlias.has(part))
+        ? ok({ shade: MULTICOLOUR.name, colour: MULTICOLOUR })
+        : fail("not a list of colours");
+    }
+
+    const words = key.split(" ");
+    const base = colourByAlias.get(words.slice(1).join(" "));
+    if (words.length > 1 && shadeWords.has(words[0]) && base) {
+      return ok({ shade: titleCase(key), colour: base });
+    }
+    return fail("not a colour we recognise");
+  },
+  format({ shade, colour }, marketplace) {
+    const { value, multi } = colourFormats[marketplace];
+    if (colour === MULTICOLOUR) return multi;
+    return value === "shade"
+      ? shade
+      : value === "name"
+      ? colour.name
+      : colour.family;
+  },
+};
+
+// ---- Rows ---------------------------------------------------------------
+
+export type ConceptNormalizer = {
+  label: string;
+  /** The value in the marketplace's format, or why it couldn't be read. */
+  normalize(
+    value: string,
+    marketplace: Marketplace,
+    header: string
+  ): Parsed<string>;
+};
+
+function bind<T>(normalizer: Normalizer<T>): ConceptNormalizer {
+  return {
+    label: normalizer.label,
+    normalize(value, marketplace, header) {
+      const parsed = normalizer.parse(value);
+      return parsed.ok
+        ? ok(normalizer.format(parsed.value, marketplace, header))
+        : parsed;
+    },
+  };
+}
+
+export const normalizers: Record<NormalizedConcept, ConceptNormalizer> = {
+  weight: bind(weightNormalizer),
+  mrp: bind(moneyNormalizer),
+  price: bind(moneyNormalizer),
+  quantity: bind(quantityNormalizer),
+  size: bind(sizeNormalizer),
+  color: bind(colourNormalizer),
+};
+
+/**
+ * Template columns carrying a concept. Size leaves out "Item Dimensions"
+ * (a `synonymMatrix` size synonym) and weight leaves out unit-of-measure
+ * columns, which hold other kinds of values.
+ */
+function conceptColumns(
+  headers: string[],
+  concept: NormalizedConcept
+): string[] {
+  return resolveHeaders(headers, concept).filter((header) => {
+    const words = normalizeKey(header).split(" ");
+    if (concept === "size") return words.includes("size");
+    if (concept === "weight") return !words.includes("unit");
+    return true;
+  });
+}
+
+/**
+ * Rewrites the weight, price, MRP, quantity, size and colour columns of
+ * generated rows. Unreadable values are blanked and returned as errors
+ * against their cell, ready to pass to `validateRows`.
+ */
+export function normalizeRows(
+  marketplace: Marketplace,
+  headers: string[],
+  rows: SheetRow[],
+  /** Columns with a template dropdown keep the dropdown's spelling. */
+  schema: TemplateSchema | null = null
+): { rows: SheetRow[]; issues: ValidationIssue[] } {
+  const seen = new Set<string>(
+    headers.filter((header) => schema?.columns[header]?.allowedValues.length)
+  );
+  const columns = normalizedConcepts.flatMap((concept) =>
+    conceptColumns(headers, concept)
+      .filter((header) => !seen.has(header) && seen.add(header))
+      .map((header) => ({ header, normalizer: normalizers[concept] }))
+  );
+  const issues: ValidationIssue[] = [];
+  if (!columns.length) return { rows, issues };
+
+  const normalized = rows.map((row, index) => {
+    let next = row;
+    columns.forEach(({ header, normalizer }) => {
+      const value = (row[header] ?? "").trim();
+      if (!value) return;
+      const result = normalizer.normalize(value, marketplace, header);
+      if (!result.ok) {
+        issues.push({
+          row: index,
+          header,
+          severity: "error",
+          message: `${header} "${value}" is not ${normalizer.label}: ${result.reason}.`,
+        });
+      }
+      const cell = result.ok ? result.value : "";
+      if (cell !== row[header]) {
+        if (next === row) next = { ...row };
+        next[header] = cell;
+      }
+    });
+    return next;
+  });
+  return { rows: normalized, issues };
+}
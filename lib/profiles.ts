@@ -0,0 +1,112 @@
+import { Mapping, normalizeKey } from "@/lib/catalog";
+
+export type MappingProfile = {
+  id: string;
+  name: string;
+  fingerprint: string;
+  mapping: Mapping;
+  updatedAt: number;
+};
+
+const STORAGE_KEY = "jarvis.mapping-profiles";
+
+function hash(input: string): string {
+  // FNV-1a, good enough to tell header layouts apart.
+  let value = 0x811c9dc5;
+  for (let index = 0; index < input.length; index += 1) {
+    value ^= input.charCodeAt(index);
+    value = Math.imul(value, 0x01000193);
+  }
+  return (value >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Identifies a template + raw sheet pair by their header layouts, so the same
+ * supplier dump against the same marketplace template resolves to one key.
+ */
+export function fingerprintHeaders(
+  templateHeaders: string[],
+  rawHeaders: string[]
+): string {
+  const side = (headers: string[]) => headers.map(normalizeKey).join("|");
+  return `${hash(side(templateHeaders))}-${hash(side(rawHeaders))}`;
+}
+
+function isProfile(value: unknown): value is MappingProfile {
+  if (!value || typeof value !== "object") return false;
+  const entry = value as Partial<MappingProfile>;
+  return (
+    typeof entry.id === "string" &&
+    typeof entry.name === "string" &&
+    typeof entry.fingerprint === "string" &&
+    !!entry.mapping &&
+    typeof entry.mapping === "object"
+  );
+}
+
+export function loadProfiles(): MappingProfile[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored.filter(isProfile) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveProfiles(profiles: MappingProfile[]): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+export function findProfile(
+  profiles: MappingProfile[],
+  fingerprint: string
+): MappingProfile | undefined {
+  return profiles
+    .filter((profile) => profile.fingerprint === fingerprint)
+    .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+}
+
+/** Adds a profile, replacing any existing one with the same name + fingerprint. */
+export function upsertProfile(
+  profiles: MappingProfile[],
+  name: string,
+  fingerprint: string,
+  mapping: Mapping
+): MappingProfile[] {
+  const existing = profiles.find(
+    (profile) => profile.name === name && profile.fingerprint === fingerprint
+  );
+  const profile: MappingProfile = {
+    id: existing?.id ?? `${fingerprint}-${Date.now().toString(36)}`,
+    name,
+    fingerprint,
+    mapping: { ...mapping },
+    updatedAt: Date.now(),
+  };
+  return [...profiles.filter((entry) => entry.id !== profile.id), profile];
+}
+
+export function exportProfiles(profiles: MappingProfile[]): string {
+  return JSON.stringify({ version: 1, profiles }, null, 2);
+}
+
+/** Merges shared profiles into the local set; imported entries win on id clashes. */
+export function importProfiles(
+  profiles: MappingProfile[],
+  json: string
+): MappingProfile[] {
+  const parsed = JSON.parse(json);
+  const incoming: unknown[] = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray(parsed?.profiles)
+    ? parsed.profiles
+    : [];
+  const valid = incoming.filter(isProfile);
+  if (!valid.length) {
+    throw new Error("No mapping profiles found in file.");
+  }
+  const ids = new Set(valid.map((profile) => profile.id));
+  return [...profiles.filter((profile) => !ids.has(profile.id)), ...valid];
+}
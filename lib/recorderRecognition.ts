@@ -0,0 +1,134 @@
+/**
+ * Stand-in for the Web Speech API on browsers that lack it (Firefox, most
+ * kiosk builds). Records the microphone with MediaRecorder and, when stopped,
+ * posts the clip to /api/transcribe. It exposes the subset of the
+ * SpeechRecognition surface `useSpeechRecognition` relies on, delivering the
+ * transcript as a single final result, so the hook treats both alike.
+ */
+export type RecorderRecognition = {
+  lang: string;
+  onstart: (() => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  onresult:
+    | ((event: {
+        results: ({ transcript: string }[] & { isFinal: boolean })[];
+      }) => void)
+    | null;
+  start(): void;
+  stop(): void;
+};
+
+/** Longest clip recorded before it is sent automatically. */
+export const MAX_RECORDING_MS = 60_000;
+
+const mimeTypes: [string, string][] = [
+  ["audio/webm;codecs=opus", "webm"],
+  ["audio/webm", "webm"],
+  ["audio/ogg;codecs=opus", "ogg"],
+  ["audio/mp4", "m4a"],
+];
+
+export function recorderRecognitionSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    typeof window.MediaRecorder !== "undefined" &&
+    !!navigator.mediaDevices?.getUserMedia
+  );
+}
+
+export function createRecorderRecognition(
+  endpoint = "/api/transcribe"
+): RecorderRecognition {
+  let recorder: MediaRecorder | null = null;
+  let starting = false;
+  let cancelled = false;
+  let timer: number | undefined;
+
+  const upload = async (chunks: Blob[], type: string, extension: string) => {
+    const audio = new Blob(chunks, { type });
+    if (!audio.size) return;
+    const form = new FormData();
+    form.append("audio", new File([audio], `speech.${extension}`, { type }));
+    form.append("language", recognition.lang);
+    const response = await fetch(endpoint, { method: "POST", body: form });
+    if (!response.ok) {
+      throw new Error(await response.text());
+    }
+    const { text } = await response.json();
+    if (typeof text === "string" && text.trim()) {
+      recognition.onresult?.({
+        results: [
+          Object.assign([{ transcript: text.trim() }], { isFinal: true }),
+        ],
+      });
+    }
+  };
+
+  const recognition: RecorderRecognition = {
+    lang: "en-US",
+    onstart: null,
+    onerror: null,
+    onend: null,
+    onresult: null,
+    start() {
+      if (recorder || starting) {
+        throw new Error("Recording already started.");
+      }
+      starting = true;
+      cancelled = false;
+      navigator.mediaDevices
+        .getUserMedia({ audio: true })
+        .then((stream) => {
+          starting = false;
+          if (cancelled) {
+            stream.getTracks().forEach((track) => track.stop());
+            recognition.onend?.();
+            return;
+          }
+          const [type, extension] = mimeTypes.find(([candidate]) =>
+            MediaRecorder.isTypeSupported(candidate)
+          ) ?? ["", "webm"];
+          const active = new MediaRecorder(
+            stream,
+            type ? { mimeType: type } : undefined
+          );
+          const chunks: Blob[] = [];
+          active.ondataavailable = (event) => {
+            if (event.data.size) chunks.push(event.data);
+          };
+          active.onstop = () => {
+            window.clearTimeout(timer);
+            stream.getTracks().forEach((track) => track.stop());
+            recorder = null;
+            upload(chunks, active.mimeType || type, extension)
+              .catch((error) => {
+                console.error(error);
+                recognition.onerror?.({ error: "transcription-failed" });
+              })
+              .finally(() => recognition.onend?.());
+          };
+          recorder = active;
+          active.start();
+          timer = window.setTimeout(() => recognition.stop(), MAX_RECORDING_MS);
+          recognition.onstart?.();
+        })
+        .catch((error: DOMException) => {
+          starting = false;
+          recognition.onerror?.({
+            error:
+              error.name === "NotAllowedError"
+                ? "not-allowed"
+                : "audio-capture",
+          });
+          recognition.onend?.();
+        });
+    },
+    stop() {
+      if (starting) cancelled = true;
+      if (recorder?.state === "recording") recorder.stop();
+    },
+  };
+
+  return recognition;
+}
@@ -0,0 +1,102 @@
+import { randomUUID } from "crypto";
+import { jsonStore } from "@/lib/jsonStore";
+import {
+  DEFAULT_SESSION_TITLE,
+  Session,
+  SessionInfo,
+  SessionMessage,
+  cleanTitle,
+  sessionInfo,
+  titleFromMessage,
+} from "@/lib/sessions";
+
+/** File-backed conversation sessions for the API routes. */
+const store = jsonStore<Session>("sessions.json", "sessions");
+
+function update(
+  id: string,
+  change: (session: Session) => Session
+): Promise<Session | null> {
+  return store.mutate((sessions) => {
+    const index = sessions.findIndex((session) => session.id === id);
+    if (index === -1) return { records: sessions, result: null };
+    const next = sessions.slice();
+    next[index] = {
+      ...change(sessions[index]),
+      updatedAt: new Date().toISOString(),
+    };
+    return { records: next, result: next[index] };
+  });
+}
+
+/** Most recently active first. */
+export async function listSessions(): Promise<SessionInfo[]> {
+  return (await store.read())
+    .map(sessionInfo)
+    .sort((left, right) => right.updatedAt.localeCompare(left.updatedAt));
+}
+
+export async function getSession(id: string): Promise<Session | null> {
+  return (await store.read()).find((session) => session.id === id) ?? null;
+}
+
+export function createSession(title?: string): Promise<Session> {
+  const stamp = new Date().toISOString();
+  const session: Session = {
+    id: randomUUID(),
+    title: cleanTitle(title ?? "") || DEFAULT_SESSION_TITLE,
+    createdAt: stamp,
+    updatedAt: stamp,
+    messages: [],
+    summary: "",
+    summarizedCount: 0,
+  };
+  return store.mutate((sessions) => ({
+    records: [...sessions, session],
+    result: session,
+  }));
+}
+
+export function renameSession(
+  id: string,
+  title: string
+): Promise<Session | null> {
+  return update(id, (session) => ({
+    ...session,
+    title: cleanTitle(title) || DEFAULT_SESSION_TITLE,
+  }));
+}
+
+/** Appends messages; an untitled session takes its title from the first one. */
+export function appendMessages(
+  id: string,
+  messages: SessionMessage[]
+): Promise<Session | null> {
+  return update(id, (session) => {
+    const opener = messages.find((message) => message.role === "user");
+    return {
+      ...session,
+      title:
+        session.title === DEFAULT_SESSION_TITLE && opener
+          ? titleFromMessage(opener.content)
+          : session.title,
+      messages: [...session.messages, ...messages],
+    };
+  });
+}
+
+/** Records a summary covering the first `summarizedCount` messages. */
+export function saveSummary(
+  id: string,
+  summary: string,
+  summarizedCount: number
+): Promise<Session | null> {
+  return update(id, (session) => ({ ...session, summary, summarizedCount }));
+}
+
+export function deleteSession(id: string): Promise<boolean> {
+  return store.mutate((sessions) => {
+    const next = sessions.filter((session) => session.id !== id);
+    return { records: next, result: next.length !== sessions.length };
+  });
+}
@@ -0,0 +1,96 @@
+export type SessionMessage = {
+  role: "user" | "assistant";
+  content: string;
+  timestamp: number;
+};
+
+export type Session = {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: SessionMessage[];
+  /** Running summary of `messages.slice(0, summarizedCount)`. */
+  summary: string;
+  summarizedCount: number;
+};
+
+export type SessionInfo = Pick<
+  Session,
+  "id" | "title" | "createdAt" | "updatedAt"
+> & { messageCount: number };
+
+export const DEFAULT_SESSION_TITLE = "New conversation";
+
+/** Unsummarised messages that trigger a summary pass. */
+export const SUMMARY_TRIGGER = 16;
+/** Most recent messages always sent verbatim. */
+export const RECENT_MESSAGES = 8;
+
+const MAX_TITLE_LENGTH = 80;
+
+export function sessionInfo(session: Session): SessionInfo {
+  return {
+    id: session.id,
+    title: session.title,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    messageCount: session.messages.length,
+  };
+}
+
+export function cleanTitle(title: string): string {
+  return title.replace(/\s+/g, " ").trim().slice(0, MAX_TITLE_LENGTH);
+}
+
+/** Title taken from the opening message, cut on a word boundary. */
+export function titleFromMessage(message: string): string {
+  const text = cleanTitle(message);
+  if (text.length <= 48) return text || DEFAULT_SESSION_TITLE;
+  const space = text.lastIndexOf(" ", 48);
+  return `${text.slice(0, space > 24 ? space : 48)}…`;
+}
+
+/**
+ * Messages not yet folded into the summary, split into the ones a summary
+ * pass should absorb and the recent tail that stays verbatim.
+ */
+export function summaryBacklog(session: Session): {
+  absorb: SessionMessage[];
+  keep: SessionMessage[];
+} {
+  const pending = session.messages.slice(session.summarizedCount);
+  if (pending.length < SUMMARY_TRIGGER) return { absorb: [], keep: pending };
+  const split = pending.length - RECENT_MESSAGES;
+  return { absorb: pending.slice(0, split), keep: pending.slice(split) };
+}
+
+export function sessionToMarkdown(session: Session): string {
+  const lines = [
+    `# ${session.title}`,
+    "",
+    `_Started ${new Date(session.createdAt).toLocaleString()} · ${
+      session.messages.length
+    } messages_`,
+    "",
+  ];
+  if (session.summary) {
+    lines.push("## Summary", "", session.summary, "");
+  }
+  lines.push("## Transcript", "");
+  session.messages.forEach((message) => {
+    lines.push(
+      `**${message.role === "user" ? "You" : "Jarvis"}** · ${new Date(
+        message.timestamp
+      ).toLocaleString()}`,
+      "",
+      message.content,
+      ""
+    );
+  });
+  return lines.join("\n");
+}
+
+export function sessionToJSON(session: Session): string {
+  return JSON.stringify({ version: 1, session }, null, 2);
+}
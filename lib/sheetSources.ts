@@ -0,0 +1,577 @@
+import { createSign } from "crypto";
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+import * as XLSX from "xlsx";
+import { SheetData, SheetRow, buildSheet, parseSheetFile } from "@/lib/sheet";
+
+/**
+ * Where catalog sheets come from and go to besides uploads and downloads.
+ * A source reads a sheet, a sink writes one; both are built from a reference
+ * the user pastes:
+ *
+ *   https://…/catalog.csv | .xlsx            remote file (sink: HTTP PUT)
+ *   https://docs.google.com/spreadsheets/d/<id>/edit#gid=<gid>
+ *                                            Google Sheet
+ *
+ * Google Sheets go through the Sheets API when it is configured:
+ *
+ *   GOOGLE_SHEETS_API_KEY          read-only access to link-shared sheets
+ *   GOOGLE_SHEETS_ACCESS_TOKEN     OAuth token with the spreadsheets scope
+ *   GOOGLE_SERVICE_ACCOUNT_EMAIL   service account (share the sheet with it)
+ *   GOOGLE_SERVICE_ACCOUNT_KEY     its PEM private key, "\n" escapes allowed
+ *   GOOGLE_SHEETS_API_URL          API root, e.g. a local stand-in
+ *   GOOGLE_OAUTH_TOKEN_URL         token endpoint for the service account
+ *
+ * Without it, Google Sheets can still be read through their CSV export link
+ * when shared as "anyone with the link", but not written.
+ *
+ * Links are fetched from the server, so they may not point into its network:
+ * hosts that resolve to loopback, private, link-local or metadata addresses
+ * are refused, redirects are checked hop by hop, and
+ *
+ *   SHEET_LINK_HOSTS               comma-separated hosts ("example.com" or
+ *                                  ".example.com" for subdomains) that links
+ *                                  are limited to; these skip the address
+ *                                  check, e.g. "localhost" in development
+ */
+
+export type SheetRef =
+  | { type: "url"; url: string }
+  | {
+      type: "google-sheets";
+      spreadsheetId: string;
+      /** Tab id from the `gid` in the link. */
+      gid?: number;
+      /** A1 range or tab title; overrides `gid`. */
+      range?: string;
+    };
+
+export interface SheetSource {
+  readonly label: string;
+  read(): Promise<SheetData>;
+}
+
+export type SinkResult = { label: string; rows: number };
+
+export interface SheetSink {
+  readonly label: string;
+  write(data: SheetData): Promise<SinkResult>;
+}
+
+export type GoogleSheetsConfig = {
+  baseURL: string;
+  tokenURL: string;
+  apiKey?: string;
+  accessToken?: string;
+  serviceAccount?: { email: string; privateKey: string };
+};
+
+/**
+ * Bad references and failed transfers. `status` is the HTTP status the API
+ * routes answer with.
+ */
+export class SheetTransferError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "SheetTransferError";
+  }
+}
+
+/** Largest remote file read, matching what the browser upload handles well. */
+export const MAX_REMOTE_BYTES = 50 * 1024 * 1024;
+
+const SHEETS_SCOPE = "https://www.googleapis.com/auth/spreadsheets";
+
+/** How long one request, body included, may take. */
+const REMOTE_TIMEOUT_MS = 30_000;
+
+/** Redirects followed when reading a link, e.g. Google's CSV export. */
+const MAX_REDIRECTS = 5;
+
+type Env = Record<string, string | undefined>;
+
+/** Reads the Sheets API configuration, or `null` when none is set up. */
+export function loadGoogleSheetsConfig(
+  env: Env = process.env
+): GoogleSheetsConfig | null {
+  const email = env.GOOGLE_SERVICE_ACCOUNT_EMAIL;
+  const privateKey = env.GOOGLE_SERVICE_ACCOUNT_KEY?.replace(/\\n/g, "\n");
+  if (Boolean(email) !== Boolean(privateKey)) {
+    throw new Error(
+      "GOOGLE_SERVICE_ACCOUNT_EMAIL and GOOGLE_SERVICE_ACCOUNT_KEY must be set together."
+    );
+  }
+  const config: GoogleSheetsConfig = {
+    baseURL: (
+      env.GOOGLE_SHEETS_API_URL || "https://sheets.googleapis.com"
+    ).replace(/\/+$/, ""),
+    tokenURL:
+      env.GOOGLE_OAUTH_TOKEN_URL || "https://oauth2.googleapis.com/token",
+    apiKey: env.GOOGLE_SHEETS_API_KEY || undefined,
+    accessToken: env.GOOGLE_SHEETS_ACCESS_TOKEN || undefined,
+    serviceAccount: email && privateKey ? { email, privateKey } : undefined,
+  };
+  return config.apiKey || config.accessToken || config.serviceAccount
+    ? config
+    : null;
+}
+
+/** Parses a pasted link; `range` ("Listings" or "Listings!A1:Z") is optional. */
+export function parseSheetRef(input: string, range?: string): SheetRef {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    throw new SheetTransferError(`"${input}" is not a URL.`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new SheetTransferError("Only http(s) links are supported.");
+  }
+  const google = /^\/spreadsheets\/d\/([\w-]+)/.exec(url.pathname);
+  if (url.hostname === "docs.google.com" && google) {
+    const gid = /gid=(\d+)/.exec(`${url.search}${url.hash}`)?.[1];
+    return {
+      type: "google-sheets",
+      spreadsheetId: google[1],
+      gid: gid === undefined ? undefined : Number(gid),
+      range: range?.trim() || undefined,
+    };
+  }
+  return { type: "url", url: url.toString() };
+}
+
+/** First row as headers; blank header columns are dropped. */
+export function sheetFromValues(values: unknown[][]): SheetData {
+  const [head = [], ...body] = values;
+  const columns = head
+    .map((value, index) => ({ header: String(value ?? "").trim(), index }))
+    .filter(({ header }) => header);
+  const rows = body
+    .filter((cells) => cells.some((value) => String(value ?? "").trim()))
+    .map((cells) => {
+      const row: SheetRow = {};
+      columns.forEach(({ header, index }) => {
+        row[header] = String(cells[index] ?? "");
+      });
+      return row;
+    });
+  return { headers: columns.map(({ header }) => header), rows };
+}
+
+export function sheetToValues(data: SheetData): string[][] {
+  return [
+    data.headers,
+    ...data.rows.map((row) => data.headers.map((header) => row[header] ?? "")),
+  ];
+}
+
+function formatFor(url: string, contentType = ""): "csv" | "xlsx" {
+  const path = new URL(url).pathname.toLowerCase();
+  if (path.endsWith(".csv") || contentType.includes("csv")) return "csv";
+  if (
+    /\/export$/.test(path) &&
+    new URL(url).searchParams.get("format") === "csv"
+  ) {
+    return "csv";
+  }
+  return "xlsx";
+}
+
+/** Loopback, private, link-local (incl. cloud metadata) and reserved ranges. */
+function isInternalAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isInternalAddress(mapped[1]);
+  // URLs write mapped IPv4 in hex, e.g. [::ffff:a00:1] for 10.0.0.1.
+  const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address);
+  if (hex) {
+    const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+    return isInternalAddress(
+      [high >> 8, high & 255, low >> 8, low & 255].join(".")
+    );
+  }
+  if (isIP(address) === 4) {
+    const [a, b] = address.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      a >= 224 ||
+      (a === 100 && b >= 64 && b < 128) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b < 32) ||
+      (a === 192 && b === 168) ||
+      (a === 192 && b === 0) ||
+      (a === 198 && (b === 18 || b === 19))
+    );
+  }
+  const lower = address.toLowerCase();
+  return (
+    lower === "::" ||
+    lower === "::1" ||
+    /^f[c-d]/.test(lower) ||
+    /^fe[89ab]/.test(lower) ||
+    /^ff/.test(lower)
+  );
+}
+
+function allowedHosts(env: Env): string[] {
+  return (env.SHEET_LINK_HOSTS ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Refuses links the server should not fetch on a user's behalf. Run on every
+ * hop, after DNS resolution, so a public name cannot lead to an internal host.
+ */
+export async function checkRemoteURL(
+  input: string,
+  env: Env = process.env
+): Promise<void> {
+  const url = new URL(input);
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new SheetTransferError("Only http(s) links are supported.");
+  }
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  const allowed = allowedHosts(env);
+  if (allowed.length) {
+    if (
+      allowed.some((entry) =>
+        entry.startsWith(".") ? host.endsWith(entry) : host === entry
+      )
+    ) {
+      return;
+    }
+    throw new SheetTransferError(`Links to ${host} are not allowed.`, 403);
+  }
+  let addresses: string[];
+  try {
+    addresses = isIP(host)
+      ? [host]
+      : (await lookup(host, { all: true })).map((entry) => entry.address);
+  } catch {
+    throw new SheetTransferError(`Could not resolve ${host}.`, 502);
+  }
+  if (!addresses.length || addresses.some(isInternalAddress)) {
+    throw new SheetTransferError(
+      `${host} points to a private or local address.`,
+      403
+    );
+  }
+}
+
+function isRedirect(status: number): boolean {
+  return status >= 300 && status < 400;
+}
+
+/**
+ * Redirects are never followed here; the upstream body is not passed on, as
+ * it may hold anything the remote side chose to send back.
+ */
+async function fetchOrFail(url: string, init: RequestInit, what: string) {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      redirect: "manual",
+      signal: AbortSignal.timeout(REMOTE_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new SheetTransferError(
+      `Could not reach ${what}: ${(error as Error).message}`,
+      502
+    );
+  }
+  if (!response.ok && !isRedirect(response.status)) {
+    await response.body?.cancel();
+    throw new SheetTransferError(
+      `${what} returned ${response.status}.`,
+      response.status === 401 || response.status === 403 ? 403 : 502
+    );
+  }
+  return response;
+}
+
+/** Fetches a pasted link, checking it and every redirect it leads to. */
+async function fetchLink(
+  url: string,
+  init: RequestInit = {},
+  env: Env = process.env
+): Promise<Response> {
+  let current = url;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop += 1) {
+    await checkRemoteURL(current, env);
+    const response = await fetchOrFail(current, init, url);
+    const location = response.headers.get("location");
+    if (!isRedirect(response.status)) return response;
+    await response.body?.cancel();
+    if (!location || (init.method && init.method !== "GET")) {
+      throw new SheetTransferError(
+        `${url} redirected; use the final link instead.`,
+        502
+      );
+    }
+    current = new URL(location, current).toString();
+  }
+  throw new SheetTransferError(`${url} redirected too many times.`, 502);
+}
+
+/**
+ * Reads the body up to `MAX_REMOTE_BYTES`, counting as it goes, since
+ * `content-length` may be missing or wrong.
+ */
+async function readLimited(response: Response, what: string) {
+  const chunks: BlobPart[] = [];
+  const reader = response.body?.getReader();
+  if (!reader) return chunks;
+  let total = 0;
+  for (;;) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch (error) {
+      throw new SheetTransferError(
+        `Could not read ${what}: ${(error as Error).message}`,
+        502
+      );
+    }
+    if (chunk.done) return chunks;
+    total += chunk.value.byteLength;
+    if (total > MAX_REMOTE_BYTES) {
+      await reader.cancel();
+      throw new SheetTransferError("Remote sheet is too large.", 413);
+    }
+    chunks.push(chunk.value.slice());
+  }
+}
+
+export function urlSource(url: string, env: Env = process.env): SheetSource {
+  return {
+    label: url,
+    async read() {
+      const response = await fetchLink(url, {}, env);
+      const size = Number(response.headers.get("content-length") ?? 0);
+      if (size > MAX_REMOTE_BYTES) {
+        await response.body?.cancel();
+        throw new SheetTransferError("Remote sheet is too large.", 413);
+      }
+      const format = formatFor(url, response.headers.get("content-type") ?? "");
+      const chunks = await readLimited(response, url);
+      return parseSheetFile(new File(chunks, `remote.${format}`));
+    },
+  };
+}
+
+/** Uploads the sheet with PUT, e.g. to a pre-signed storage URL. */
+export function urlSink(url: string, env: Env = process.env): SheetSink {
+  return {
+    label: url,
+    async write(data) {
+      const format = formatFor(url);
+      const workbook = buildSheet(data.headers, data.rows);
+      const body =
+        format === "csv"
+          ? XLSX.utils.sheet_to_csv(workbook.Sheets[workbook.SheetNames[0]])
+          : XLSX.write(workbook, { type: "array", bookType: "xlsx" });
+      await fetchLink(
+        url,
+        {
+          method: "PUT",
+          headers: {
+            "Content-Type":
+              format === "csv"
+                ? "text/csv; charset=utf-8"
+                : "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          },
+          body,
+        },
+        env
+      );
+      return { label: url, rows: data.rows.length };
+    },
+  };
+}
+
+const tokenCache = new Map<string, { token: string; expiresAt: number }>();
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+/** Exchanges a signed service-account assertion for an access token. */
+async function serviceAccountToken(config: GoogleSheetsConfig) {
+  const { email, privateKey } = config.serviceAccount!;
+  const cached = tokenCache.get(email);
+  if (cached && cached.expiresAt > Date.now() + 60_000) return cached.token;
+
+  const now = Math.floor(Date.now() / 1000);
+  const unsigned = `${base64url(
+    JSON.stringify({ alg: "RS256", typ: "JWT" })
+  )}.${base64url(
+    JSON.stringify({
+      iss: email,
+      scope: SHEETS_SCOPE,
+      aud: config.tokenURL,
+      iat: now,
+      exp: now + 3600,
+    })
+  )}`;
+  const signature = createSign("RSA-SHA256").update(unsigned).sign(privateKey);
+  const response = await fetchOrFail(
+    config.tokenURL,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+        assertion: `${unsigned}.${base64url(signature)}`,
+      }),
+    },
+    "Google sign-in"
+  );
+  const data = await response.json();
+  tokenCache.set(email, {
+    token: data.access_token,
+    expiresAt: Date.now() + (data.expires_in ?? 3600) * 1000,
+  });
+  return data.access_token as string;
+}
+
+function googleSheetsClient(config: GoogleSheetsConfig, spreadsheetId: string) {
+  const root = `${config.baseURL}/v4/spreadsheets/${encodeURIComponent(
+    spreadsheetId
+  )}`;
+
+  const request = async (
+    path: string,
+    init: RequestInit = {},
+    write = false
+  ) => {
+    const url = new URL(`${root}${path}`);
+    const headers = new Headers(init.headers);
+    const token = config.serviceAccount
+      ? await serviceAccountToken(config)
+      : config.accessToken;
+    if (token) headers.set("Authorization", `Bearer ${token}`);
+    else if (write) {
+      throw new SheetTransferError(
+        "Writing to Google Sheets needs GOOGLE_SHEETS_ACCESS_TOKEN or a service account.",
+        503
+      );
+    } else url.searchParams.set("key", config.apiKey!);
+    const response = await fetchOrFail(
+      url.toString(),
+      { ...init, headers },
+      "Google Sheets"
+    );
+    return response.json();
+  };
+
+  /** Quoted tab title for A1 notation. */
+  const tabRange = async (gid?: number) => {
+    const meta = await request("?fields=sheets.properties(sheetId,title)");
+    const tabs: { sheetId: number; title: string }[] = (meta.sheets ?? []).map(
+      (sheet: { properties: { sheetId: number; title: string } }) =>
+        sheet.properties
+    );
+    const tab =
+      gid === undefined ? tabs[0] : tabs.find((entry) => entry.sheetId === gid);
+    if (!tab) {
+      throw new SheetTransferError(
+        gid === undefined
+          ? "The spreadsheet has no tabs."
+          : `No tab with gid ${gid} in the spreadsheet.`
+      );
+    }
+    return `'${tab.title.replace(/'/g, "''")}'`;
+  };
+
+  const values = (range: string) => `/values/${encodeURIComponent(range)}`;
+
+  return { request, tabRange, values };
+}
+
+export function googleSheetsSource(
+  config: GoogleSheetsConfig,
+  ref: Extract<SheetRef, { type: "google-sheets" }>
+): SheetSource {
+  const client = googleSheetsClient(config, ref.spreadsheetId);
+  return {
+    label: `Google Sheet ${ref.spreadsheetId}`,
+    async read() {
+      const range = ref.range ?? (await client.tabRange(ref.gid));
+      const data = await client.request(
+        `${client.values(range)}?valueRenderOption=FORMATTED_VALUE`
+      );
+      return sheetFromValues(data.values ?? []);
+    },
+  };
+}
+
+/** Replaces the contents of the target tab with the exported rows. */
+export function googleSheetsSink(
+  config: GoogleSheetsConfig,
+  ref: Extract<SheetRef, { type: "google-sheets" }>
+): SheetSink {
+  const client = googleSheetsClient(config, ref.spreadsheetId);
+  const label = `Google Sheet ${ref.spreadsheetId}`;
+  return {
+    label,
+    async write(data) {
+      const range = ref.range ?? (await client.tabRange(ref.gid));
+      await client.request(
+        `${client.values(range)}:clear`,
+        { method: "POST" },
+        true
+      );
+      await client.request(
+        `${client.values(range)}?valueInputOption=RAW`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            range,
+            majorDimension: "ROWS",
+            values: sheetToValues(data),
+          }),
+        },
+        true
+      );
+      return { label, rows: data.rows.length };
+    },
+  };
+}
+
+export function createSource(
+  ref: SheetRef,
+  env: Env = process.env
+): SheetSource {
+  if (ref.type === "url") return urlSource(ref.url, env);
+  const config = loadGoogleSheetsConfig(env);
+  if (config) return googleSheetsSource(config, ref);
+  if (ref.range) {
+    throw new SheetTransferError(
+      "Reading a named range needs the Google Sheets API to be configured.",
+      503
+    );
+  }
+  const exportURL = new URL(
+    `https://docs.google.com/spreadsheets/d/${ref.spreadsheetId}/export`
+  );
+  exportURL.searchParams.set("format", "csv");
+  exportURL.searchParams.set("gid", String(ref.gid ?? 0));
+  return urlSource(exportURL.toString(), env);
+}
+
+export function createSink(ref: SheetRef, env: Env = process.env): SheetSink {
+  if (ref.type === "url") return urlSink(ref.url, env);
+  const config = loadGoogleSheetsConfig(env);
+  if (!config) {
+    throw new SheetTransferError(
+      "Writing to Google Sheets needs the Google Sheets API to be configured.",
+      503
+    );
+  }
+  return googleSheetsSink(config, ref);
+}
@@ -0,0 +1,252 @@
+import type { SheetData, SheetRow } from "@/lib/sheet";
+import { normalizeKey, resolveHeaders } from "@/lib/catalog";
+import { copyColumns } from "@/lib/copywriting";
+import { parseNumber } from "@/lib/validation";
+
+export type ChangeCategory = "price" | "stock" | "copy" | "attribute";
+
+export type FieldChange = {
+  header: string;
+  category: ChangeCategory;
+  before: string;
+  after: string;
+};
+
+export type SkuChange = {
+  sku: string;
+  /** Index of the row in the new output, -1 for removed SKUs. */
+  row: number;
+  fields: FieldChange[];
+};
+
+export type CatalogDiff = {
+  skuHeader: string;
+  added: SkuChange[];
+  removed: SkuChange[];
+  changed: SkuChange[];
+  unchanged: number;
+  /** SKUs appearing more than once in either file; only the first is compared. */
+  duplicates: string[];
+  /** Changed SKUs per category. */
+  counts: Record<ChangeCategory, number>;
+};
+
+export type PartialFeedKind = "price" | "inventory" | "price-inventory" | "all";
+
+export const partialFeedKinds: PartialFeedKind[] = [
+  "price",
+  "inventory",
+  "price-inventory",
+  "all",
+];
+
+export const partialFeedLabels: Record<PartialFeedKind, string> = {
+  price: "Price feed",
+  inventory: "Inventory feed",
+  "price-inventory": "Price + inventory feed",
+  all: "Changed rows",
+};
+
+/** The SKU column, preferring a child SKU over "Parent SKU" when both exist. */
+export function skuHeader(headers: string[]): string | null {
+  const children = headers.filter(
+    (header) => !normalizeKey(header).includes("parent")
+  );
+  return (
+    resolveHeaders(children, "sku")[0] ??
+    resolveHeaders(headers, "sku")[0] ??
+    null
+  );
+}
+
+export function categorizeHeaders(
+  headers: string[]
+): Record<string, ChangeCategory> {
+  const categories: Record<string, ChangeCategory> = {};
+  headers.forEach((header) => {
+    categories[header] = "attribute";
+  });
+  copyColumns(headers).forEach(({ header }) => {
+    categories[header] = "copy";
+  });
+  [...resolveHeaders(headers, "price"), ...resolveHeaders(headers, "mrp")]
+    .filter((header) => !normalizeKey(header).includes("currency"))
+    .forEach((header) => {
+      categories[header] = "price";
+    });
+  resolveHeaders(headers, "quantity").forEach((header) => {
+    categories[header] = "stock";
+  });
+  return categories;
+}
+
+/** Numbers compare by value, so "1,299" and "1299.00" are the same price. */
+function sameValue(category: ChangeCategory, left: string, right: string) {
+  const a = left.trim();
+  const b = right.trim();
+  if (a === b) return true;
+  if (category === "price" || category === "stock") {
+    const x = parseNumber(a);
+    const y = parseNumber(b);
+    return !Number.isNaN(x) && !Number.isNaN(y) && x === y;
+  }
+  return a.replace(/\s+/g, " ") === b.replace(/\s+/g, " ");
+}
+
+function indexBySku(rows: SheetRow[], header: string, duplicates: Set<string>) {
+  const index = new Map<string, number>();
+  rows.forEach((row, position) => {
+    const sku = (row[header] ?? "").trim();
+    if (!sku) return;
+    if (index.has(sku)) duplicates.add(sku);
+    else index.set(sku, position);
+  });
+  return index;
+}
+
+/**
+ * Compares the rows about to be exported with a previous export of the same
+ * channel, keyed by SKU. Only columns present in both files are compared.
+ * Returns `null` when either side has no SKU column.
+ */
+export function diffCatalogs(
+  previous: SheetData,
+  headers: string[],
+  rows: SheetRow[]
+): CatalogDiff | null {
+  const currentSku = skuHeader(headers);
+  const previousSku = skuHeader(previous.headers);
+  if (!currentSku || !previousSku) return null;
+
+  const duplicates = new Set<string>();
+  const before = indexBySku(previous.rows, previousSku, duplicates);
+  const after = indexBySku(rows, currentSku, duplicates);
+  const shared = headers.filter(
+    (header) => header !== currentSku && previous.headers.includes(header)
+  );
+  const categories = categorizeHeaders(headers);
+  const counts: Record<ChangeCategory, number> = {
+    price: 0,
+    stock: 0,
+    copy: 0,
+    attribute: 0,
+  };
+
+  const added: SkuChange[] = [];
+  const changed: SkuChange[] = [];
+  let unchanged = 0;
+  after.forEach((position, sku) => {
+    const oldPosition = before.get(sku);
+    if (oldPosition === undefined) {
+      added.push({ sku, row: position, fields: [] });
+      return;
+    }
+    const oldRow = previous.rows[oldPosition];
+    const fields = shared.flatMap((header): FieldChange[] => {
+      const category = categories[header];
+      const was = oldRow[header] ?? "";
+      const now = rows[position][header] ?? "";
+      return sameValue(category, was, now)
+        ? []
+        : [{ header, category, before: was, after: now }];
+    });
+    if (!fields.length) {
+      unchanged += 1;
+      return;
+    }
+    new Set(fields.map((field) => field.category)).forEach((category) => {
+      counts[category] += 1;
+    });
+    changed.push({ sku, row: position, fields });
+  });
+
+  const removed: SkuChange[] = [];
+  before.forEach((_, sku) => {
+    if (!after.has(sku)) removed.push({ sku, row: -1, fields: [] });
+  });
+
+  return {
+    skuHeader: currentSku,
+    added,
+    removed,
+    changed,
+    unchanged,
+    duplicates: Array.from(duplicates),
+    counts,
+  };
+}
+
+function feedCategories(kind: PartialFeedKind): ChangeCategory[] {
+  switch (kind) {
+    case "price":
+      return ["price"];
+    case "inventory":
+      return ["stock"];
+    case "price-inventory":
+      return ["price", "stock"];
+    case "all":
+      return ["price", "stock", "copy", "attribute"];
+  }
+}
+
+/**
+ * A marketplace "partial update" file: the SKU column plus only the columns
+ * of the requested kind, for only the SKUs whose values changed. New SKUs
+ * need a full listing, so they appear (with every column) only in the "all"
+ * feed. Inventory feeds zero the quantity of removed SKUs so they stop
+ * selling.
+ */
+export function buildPartialFeed(
+  diff: CatalogDiff,
+  headers: string[],
+  rows: SheetRow[],
+  kind: PartialFeedKind
+): SheetData {
+  const wanted = feedCategories(kind);
+  const categories = categorizeHeaders(headers);
+  const changedHeaders = new Set(
+    diff.changed.flatMap((change) =>
+      change.fields
+        .filter((field) => wanted.includes(field.category))
+        .map((field) => field.header)
+    )
+  );
+  const includeAdded = kind === "all" && diff.added.length > 0;
+  const zeroRemoved =
+    kind !== "all" && wanted.includes("stock") && diff.removed.length > 0;
+  const columns = headers.filter(
+    (header) =>
+      header !== diff.skuHeader &&
+      wanted.includes(categories[header]) &&
+      (includeAdded ||
+        changedHeaders.has(header) ||
+        (zeroRemoved && categories[header] === "stock"))
+  );
+  const feedHeaders = [diff.skuHeader, ...columns];
+  const pick = (row: SheetRow): SheetRow =>
+    Object.fromEntries(
+      feedHeaders.map((header) => [header, row[header] ?? ""])
+    );
+
+  const feedRows = [
+    ...diff.changed
+      .filter((change) =>
+        change.fields.some((field) => wanted.includes(field.category))
+      )
+      .map((change) => pick(rows[change.row])),
+    ...(includeAdded ? diff.added.map((change) => pick(rows[change.row])) : []),
+  ];
+  const stockHeaders = columns.filter(
+    (header) => categories[header] === "stock"
+  );
+  if (zeroRemoved && stockHeaders.length) {
+    diff.removed.forEach((change) => {
+      const row: SheetRow = { [diff.skuHeader]: change.sku };
+      columns.forEach((header) => {
+        row[header] = stockHeaders.includes(header) ? "0" : "";
+      });
+      feedRows.push(row);
+    });
+  }
+  return { headers: feedHeaders, rows: feedRows };
+}
@@ -0,0 +1,70 @@
+import { randomUUID } from "crypto";
+import { jsonStore } from "@/lib/jsonStore";
+import {
+  Task,
+  TaskFilter,
+  TaskInput,
+  completeTask as completed,
+  filterTasks,
+  sortTasks,
+} from "@/lib/tasks";
+
+/** File-backed task store for the API routes. */
+const store = jsonStore<Task>("tasks.json", "tasks");
+
+export async function listTasks(filter: TaskFilter = {}): Promise<Task[]> {
+  return sortTasks(filterTasks(await store.read(), filter));
+}
+
+export async function getTask(id: string): Promise<Task | null> {
+  return (await store.read()).find((task) => task.id === id) ?? null;
+}
+
+export function createTask(input: TaskInput): Promise<Task> {
+  const stamp = new Date().toISOString();
+  const task: Task = {
+    id: randomUUID(),
+    title: input.title ?? "Untitled task",
+    notes: input.notes ?? "",
+    dueAt: input.dueAt ?? null,
+    recurrence: input.recurrence ?? "none",
+    marketplaces: input.marketplaces ?? [],
+    status: input.status ?? "todo",
+    createdAt: stamp,
+    updatedAt: stamp,
+    completedAt: null,
+  };
+  return store.mutate((tasks) => ({ records: [...tasks, task], result: task }));
+}
+
+/**
+ * Applies a partial update. Setting status to "done" goes through
+ * `completeTask`, so recurring tasks roll forward rather than closing.
+ */
+export function updateTask(id: string, input: TaskInput): Promise<Task | null> {
+  return store.mutate((tasks) => {
+    const index = tasks.findIndex((task) => task.id === id);
+    if (index === -1) return { records: tasks, result: null };
+    const { status, ...fields } = input;
+    let task: Task = {
+      ...tasks[index],
+      ...fields,
+      updatedAt: new Date().toISOString(),
+    };
+    if (status === "done" && task.status !== "done") {
+      task = completed(task);
+    } else if (status) {
+      task = { ...task, status };
+    }
+    const next = tasks.slice();
+    next[index] = task;
+    return { records: next, result: task };
+  });
+}
+
+export function deleteTask(id: string): Promise<boolean> {
+  return store.mutate((tasks) => {
+    const next = tasks.filter((task) => task.id !== id);
+    return { records: next, result: next.length !== tasks.length };
+  });
+}
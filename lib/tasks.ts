@@ -0,0 +1,204 @@
+import { Marketplace, marketplaces } from "@/lib/catalog";
+
+export const taskStatuses = ["todo", "in-progress", "done"] as const;
+export type TaskStatus = (typeof taskStatuses)[number];
+
+export const recurrences = ["none", "daily", "weekly", "monthly"] as const;
+export type Recurrence = (typeof recurrences)[number];
+
+export type Task = {
+  id: string;
+  title: string;
+  notes: string;
+  /** ISO timestamp, or null for undated tasks. */
+  dueAt: string | null;
+  recurrence: Recurrence;
+  marketplaces: Marketplace[];
+  status: TaskStatus;
+  createdAt: string;
+  updatedAt: string;
+  /** Last completion; recurring tasks keep this while rolling forward. */
+  completedAt: string | null;
+};
+
+export type TaskInput = Partial<
+  Pick<
+    Task,
+    "title" | "notes" | "dueAt" | "recurrence" | "marketplaces" | "status"
+  >
+>;
+
+export type TaskFilter = {
+  status?: "open" | "done" | "all";
+  marketplace?: Marketplace;
+  due?: "overdue" | "today" | "upcoming" | "any";
+};
+
+export class TaskValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TaskValidationError";
+  }
+}
+
+/** Window event fired whenever the assistant changes tasks behind the board. */
+export const TASKS_CHANGED_EVENT = "jarvis:tasks-changed";
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_NOTES_LENGTH = 2000;
+
+function matchMarketplace(value: unknown): Marketplace | undefined {
+  return marketplaces.find(
+    (entry) => entry.toLowerCase() === String(value).trim().toLowerCase()
+  );
+}
+
+/**
+ * Checks untrusted input (API bodies, tool arguments) field by field. With
+ * `partial` unset a title is required, as for a new task.
+ */
+export function sanitizeTaskInput(input: unknown, partial = false): TaskInput {
+  if (!input || typeof input !== "object") {
+    throw new TaskValidationError("Task must be a JSON object.");
+  }
+  const source = input as Record<string, unknown>;
+  const task: TaskInput = {};
+
+  if (source.title !== undefined || !partial) {
+    const title = typeof source.title === "string" ? source.title.trim() : "";
+    if (!title) throw new TaskValidationError("Task title is required.");
+    task.title = title.slice(0, MAX_TITLE_LENGTH);
+  }
+  if (source.notes !== undefined) {
+    task.notes = String(source.notes ?? "").slice(0, MAX_NOTES_LENGTH);
+  }
+  if (source.dueAt !== undefined) {
+    if (source.dueAt === null || source.dueAt === "") {
+      task.dueAt = null;
+    } else {
+      const due = new Date(String(source.dueAt));
+      if (Number.isNaN(due.getTime())) {
+        throw new TaskValidationError(`Invalid due date "${source.dueAt}".`);
+      }
+      task.dueAt = due.toISOString();
+    }
+  }
+  if (source.recurrence !== undefined) {
+    const recurrence = recurrences.find((entry) => entry === source.recurrence);
+    if (!recurrence) {
+      throw new TaskValidationError(
+        `Recurrence must be one of ${recurrences.join(", ")}.`
+      );
+    }
+    task.recurrence = recurrence;
+  }
+  if (source.marketplaces !== undefined) {
+    if (!Array.isArray(source.marketplaces)) {
+      throw new TaskValidationError("Marketplaces must be a list.");
+    }
+    const tags = source.marketplaces.map((value) => {
+      const marketplace = matchMarketplace(value);
+      if (!marketplace) {
+        throw new TaskValidationError(`Unknown marketplace "${value}".`);
+      }
+      return marketplace;
+    });
+    task.marketplaces = Array.from(new Set(tags));
+  }
+  if (source.status !== undefined) {
+    const status = taskStatuses.find((entry) => entry === source.status);
+    if (!status) {
+      throw new TaskValidationError(
+        `Status must be one of ${taskStatuses.join(", ")}.`
+      );
+    }
+    task.status = status;
+  }
+
+  return task;
+}
+
+function advance(date: Date, recurrence: Recurrence): Date {
+  const next = new Date(date);
+  if (recurrence === "daily") next.setDate(next.getDate() + 1);
+  if (recurrence === "weekly") next.setDate(next.getDate() + 7);
+  if (recurrence === "monthly") next.setMonth(next.getMonth() + 1);
+  return next;
+}
+
+/** First occurrence after `now`, skipping any that were missed. */
+export function nextOccurrence(
+  dueAt: string,
+  recurrence: Recurrence,
+  now = new Date()
+): string {
+  if (recurrence === "none") return dueAt;
+  let next = advance(new Date(dueAt), recurrence);
+  while (next <= now) next = advance(next, recurrence);
+  return next.toISOString();
+}
+
+/**
+ * Marks a task done. Recurring tasks stay open and move to their next due
+ * date instead, so the series never needs to be re-created.
+ */
+export function completeTask(task: Task, now = new Date()): Task {
+  const stamp = now.toISOString();
+  if (task.recurrence !== "none" && task.dueAt) {
+    return {
+      ...task,
+      status: "todo",
+      dueAt: nextOccurrence(task.dueAt, task.recurrence, now),
+      completedAt: stamp,
+      updatedAt: stamp,
+    };
+  }
+  return { ...task, status: "done", completedAt: stamp, updatedAt: stamp };
+}
+
+function sameDay(left: Date, right: Date): boolean {
+  return left.toDateString() === right.toDateString();
+}
+
+export function isOverdue(task: Task, now = new Date()): boolean {
+  return task.status !== "done" && !!task.dueAt && new Date(task.dueAt) < now;
+}
+
+export function filterTasks(
+  tasks: Task[],
+  filter: TaskFilter,
+  now = new Date()
+): Task[] {
+  return tasks.filter((task) => {
+    if (filter.status === "open" && task.status === "done") return false;
+    if (filter.status === "done" && task.status !== "done") return false;
+    if (filter.marketplace && !task.marketplaces.includes(filter.marketplace)) {
+      return false;
+    }
+    const due = task.dueAt ? new Date(task.dueAt) : null;
+    switch (filter.due) {
+      case "overdue":
+        return isOverdue(task, now);
+      case "today":
+        return !!due && sameDay(due, now);
+      case "upcoming":
+        return !!due && due >= now;
+      default:
+        return true;
+    }
+  });
+}
+
+/** Open tasks first, then by due date (undated last), then newest. */
+export function sortTasks(tasks: Task[]): Task[] {
+  const dueValue = (task: Task) =>
+    task.dueAt ? new Date(task.dueAt).getTime() : Number.POSITIVE_INFINITY;
+  return tasks
+    .slice()
+    .sort(
+      (left, right) =>
+        Number(left.status === "done") - Number(right.status === "done") ||
+        dueValue(left) - dueValue(right) ||
+        right.createdAt.localeCompare(left.createdAt)
+    );
+}
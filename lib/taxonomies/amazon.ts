@@ -0,0 +1,235 @@
+import type { CategoryTree } from "@/lib/taxonomy";
+
+export const amazonTree: CategoryTree = {
+  marketplace: "Amazon",
+  label: "Item type keyword",
+  valueFormat: "id",
+  note: "Starter subset of the Amazon.in browse tree keyed by item_type_keyword. Refresh from the Browse Tree Guide for your categories.",
+  nodes: [
+    {
+      name: "Clothing & Accessories",
+      children: [
+        {
+          name: "Women",
+          children: [
+            {
+              id: "kurtas",
+              name: "Kurtas & Kurtis",
+              aliases: ["kurti", "kurta", "anarkali"],
+            },
+            {
+              id: "salwar-suits",
+              name: "Salwar Suits",
+              aliases: ["salwar kameez", "churidar set"],
+            },
+            {
+              id: "sarees",
+              name: "Sarees",
+              aliases: ["saree", "sari"],
+            },
+            {
+              id: "lehenga-cholis",
+              name: "Lehenga Cholis",
+              aliases: ["lehenga"],
+            },
+            {
+              id: "womens-tops",
+              name: "Tops & Tees",
+              aliases: ["top", "tee", "t-shirt"],
+            },
+            {
+              id: "womens-dresses",
+              name: "Dresses",
+              aliases: ["dress", "maxi", "gown"],
+            },
+            {
+              id: "leggings",
+              name: "Leggings",
+              aliases: ["legging", "jeggings"],
+            },
+            {
+              id: "womens-jeans",
+              name: "Jeans",
+              aliases: ["denim"],
+            },
+          ],
+        },
+        {
+          name: "Men",
+          children: [
+            {
+              id: "mens-t-shirts",
+              name: "T-Shirts & Polos",
+              aliases: ["tee", "t-shirt", "polo"],
+            },
+            {
+              id: "mens-shirts",
+              name: "Shirts",
+              aliases: ["shirt", "formal shirt", "casual shirt"],
+            },
+            {
+              id: "mens-kurtas",
+              name: "Kurtas",
+              aliases: ["kurta", "ethnic"],
+            },
+            {
+              id: "mens-jeans",
+              name: "Jeans",
+              aliases: ["denim"],
+            },
+            {
+              id: "mens-trousers",
+              name: "Trousers",
+              aliases: ["chinos", "pants", "trouser"],
+            },
+            {
+              id: "track-pants",
+              name: "Track Pants",
+              aliases: ["joggers", "trackpant"],
+            },
+          ],
+        },
+        {
+          name: "Kids",
+          children: [
+            {
+              id: "kids-clothing-sets",
+              name: "Clothing Sets",
+              aliases: ["kids set", "baby set"],
+            },
+            {
+              id: "kids-t-shirts",
+              name: "T-Shirts",
+              aliases: ["kids tee"],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: "Shoes & Handbags",
+      children: [
+        {
+          id: "running-shoes",
+          name: "Running Shoes",
+          aliases: ["sports shoes", "jogging shoes"],
+        },
+        {
+          id: "casual-shoes",
+          name: "Casual Shoes",
+          aliases: ["sneakers", "loafers"],
+        },
+        {
+          id: "formal-shoes",
+          name: "Formal Shoes",
+          aliases: ["oxford", "derby"],
+        },
+        {
+          id: "sandals",
+          name: "Sandals & Floaters",
+          aliases: ["floaters", "sandal"],
+        },
+        {
+          id: "flip-flops",
+          name: "Flip-Flops & Slippers",
+          aliases: ["slippers", "chappals", "flip flops"],
+        },
+        {
+          id: "handbags",
+          name: "Handbags",
+          aliases: ["tote", "shoulder bag", "sling bag"],
+        },
+        {
+          id: "wallets",
+          name: "Wallets",
+          aliases: ["wallet", "purse"],
+        },
+      ],
+    },
+    {
+      name: "Watches & Jewellery",
+      children: [
+        {
+          id: "wrist-watches",
+          name: "Wrist Watches",
+          aliases: ["watch"],
+        },
+        {
+          id: "earrings",
+          name: "Earrings",
+          aliases: ["jhumka", "studs"],
+        },
+        {
+          id: "necklaces",
+          name: "Necklaces & Sets",
+          aliases: ["necklace", "jewellery set"],
+        },
+      ],
+    },
+    {
+      name: "Beauty",
+      children: [
+        {
+          id: "lipsticks",
+          name: "Lipsticks",
+          aliases: ["lipstick", "lip colour"],
+        },
+        {
+          id: "face-wash",
+          name: "Face Wash",
+          aliases: ["cleanser", "facewash"],
+        },
+        {
+          id: "moisturisers",
+          name: "Moisturisers",
+          aliases: ["cream", "lotion"],
+        },
+      ],
+    },
+    {
+      name: "Home & Kitchen",
+      children: [
+        {
+          id: "bedsheets",
+          name: "Bedsheets",
+          aliases: ["bed sheet", "bedsheet set"],
+        },
+        {
+          id: "curtains",
+          name: "Curtains",
+          aliases: ["curtain", "drapes"],
+        },
+        {
+          id: "cookware-sets",
+          name: "Cookware Sets",
+          aliases: ["cookware", "pots and pans"],
+        },
+        {
+          id: "water-bottles",
+          name: "Water Bottles",
+          aliases: ["bottle", "flask"],
+        },
+      ],
+    },
+    {
+      name: "Electronics",
+      children: [
+        {
+          id: "mobile-cases",
+          name: "Mobile Cases & Covers",
+          aliases: ["phone cover", "back cover"],
+        },
+        {
+          id: "headphones",
+          name: "Headphones & Earphones",
+          aliases: ["earphones", "earbuds", "headset"],
+        },
+        {
+          id: "power-banks",
+          name: "Power Banks",
+          aliases: ["powerbank"],
+        },
+      ],
+    },
+  ],
+};
@@ -0,0 +1,231 @@
+import type { CategoryTree } from "@/lib/taxonomy";
+
+export const flipkartTree: CategoryTree = {
+  marketplace: "Flipkart",
+  label: "Vertical",
+  valueFormat: "id",
+  note: "Starter subset of Flipkart verticals. Use the vertical names from your category's listing template.",
+  nodes: [
+    {
+      name: "Clothing and Accessories",
+      children: [
+        {
+          name: "Women's Clothing",
+          children: [
+            {
+              id: "kurta",
+              name: "Kurta",
+              aliases: ["kurti", "anarkali"],
+            },
+            {
+              id: "salwar_kurta_dupatta",
+              name: "Salwar Kurta Dupatta",
+              aliases: ["salwar suit", "suit set"],
+            },
+            {
+              id: "sari",
+              name: "Sari",
+              aliases: ["saree"],
+            },
+            {
+              id: "lehenga_choli",
+              name: "Lehenga Choli",
+              aliases: ["lehenga"],
+            },
+            {
+              id: "top",
+              name: "Top",
+              aliases: ["tops", "tee"],
+            },
+            {
+              id: "dress",
+              name: "Dress",
+              aliases: ["dresses", "gown"],
+            },
+            {
+              id: "legging",
+              name: "Legging",
+              aliases: ["leggings", "jeggings"],
+            },
+            {
+              id: "jean",
+              name: "Jean",
+              aliases: ["jeans", "denim"],
+            },
+          ],
+        },
+        {
+          name: "Men's Clothing",
+          children: [
+            {
+              id: "t_shirt",
+              name: "T-Shirt",
+              aliases: ["tee", "polo"],
+            },
+            {
+              id: "shirt",
+              name: "Shirt",
+              aliases: ["formal shirt", "casual shirt"],
+            },
+            {
+              id: "ethnic_set",
+              name: "Ethnic Set",
+              aliases: ["kurta pyjama", "mens kurta"],
+            },
+            {
+              id: "trouser",
+              name: "Trouser",
+              aliases: ["chinos", "pants"],
+            },
+            {
+              id: "track_pant",
+              name: "Track Pant",
+              aliases: ["joggers", "track pants"],
+            },
+          ],
+        },
+        {
+          name: "Kids' Clothing",
+          children: [
+            {
+              id: "kids_clothing_set",
+              name: "Clothing Set",
+              aliases: ["kids set"],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: "Footwear",
+      children: [
+        {
+          id: "shoe",
+          name: "Shoe",
+          aliases: [
+            "running shoes",
+            "sports shoes",
+            "sneakers",
+            "casual shoes",
+            "formal shoes",
+          ],
+        },
+        {
+          id: "sandal",
+          name: "Sandal",
+          aliases: ["sandals", "floaters"],
+        },
+        {
+          id: "slipper_flip_flop",
+          name: "Slipper Flip Flop",
+          aliases: ["slippers", "flip flops", "chappals"],
+        },
+      ],
+    },
+    {
+      name: "Bags, Wallets and Belts",
+      children: [
+        {
+          id: "hand_messenger_bag",
+          name: "Hand-held Bag",
+          aliases: ["handbag", "tote", "sling bag"],
+        },
+        {
+          id: "wallet",
+          name: "Wallet",
+          aliases: ["wallets", "purse"],
+        },
+      ],
+    },
+    {
+      name: "Watches and Jewellery",
+      children: [
+        {
+          id: "watch",
+          name: "Watch",
+          aliases: ["wrist watch"],
+        },
+        {
+          id: "earring",
+          name: "Earring",
+          aliases: ["earrings", "jhumka"],
+        },
+        {
+          id: "necklace_chain",
+          name: "Necklace & Chain",
+          aliases: ["necklace", "jewellery set"],
+        },
+      ],
+    },
+    {
+      name: "Beauty and Grooming",
+      children: [
+        {
+          id: "lipstick",
+          name: "Lipstick",
+          aliases: ["lip colour"],
+        },
+        {
+          id: "face_wash",
+          name: "Face Wash",
+          aliases: ["cleanser"],
+        },
+        {
+          id: "moisturizer",
+          name: "Moisturizer",
+          aliases: ["cream", "lotion"],
+        },
+      ],
+    },
+    {
+      name: "Home Furnishing",
+      children: [
+        {
+          id: "bedsheet",
+          name: "Bedsheet",
+          aliases: ["bed sheet"],
+        },
+        {
+          id: "curtain",
+          name: "Curtain",
+          aliases: ["curtains", "drapes"],
+        },
+      ],
+    },
+    {
+      name: "Kitchen, Cookware and Serveware",
+      children: [
+        {
+          id: "pot_pan_set",
+          name: "Cookware Set",
+          aliases: ["cookware", "pots and pans"],
+        },
+        {
+          id: "bottle",
+          name: "Bottle",
+          aliases: ["water bottle", "flask"],
+        },
+      ],
+    },
+    {
+      name: "Mobile Accessories",
+      children: [
+        {
+          id: "cases_covers",
+          name: "Cases & Covers",
+          aliases: ["phone cover", "back cover"],
+        },
+        {
+          id: "headphone",
+          name: "Headphone",
+          aliases: ["earphones", "earbuds", "headset"],
+        },
+        {
+          id: "power_bank",
+          name: "Power Bank",
+          aliases: ["powerbank"],
+        },
+      ],
+    },
+  ],
+};
@@ -0,0 +1,260 @@
+import type { CategoryTree } from "@/lib/taxonomy";
+
+export const meeshoTree: CategoryTree = {
+  marketplace: "Meesho",
+  label: "Category",
+  valueFormat: "path",
+  note: "Starter subset of Meesho supplier categories; exported as the full path.",
+  nodes: [
+    {
+      name: "Women Fashion",
+      children: [
+        {
+          name: "Ethnic Wear",
+          children: [
+            {
+              id: "kurtis",
+              name: "Kurtis",
+              aliases: ["kurta", "kurti", "anarkali"],
+            },
+            {
+              id: "kurta-sets",
+              name: "Kurta Sets & Dupattas",
+              aliases: ["salwar suit", "suit set"],
+            },
+            {
+              id: "sarees",
+              name: "Sarees",
+              aliases: ["saree", "sari"],
+            },
+            {
+              id: "lehengas",
+              name: "Lehengas",
+              aliases: ["lehenga", "lehenga choli"],
+            },
+          ],
+        },
+        {
+          name: "Western Wear",
+          children: [
+            {
+              id: "womens-tops",
+              name: "Tops & Tunics",
+              aliases: ["top", "tee", "tunic"],
+            },
+            {
+              id: "womens-dresses",
+              name: "Dresses",
+              aliases: ["dress", "gown"],
+            },
+            {
+              id: "womens-jeans",
+              name: "Jeans & Jeggings",
+              aliases: ["jeans", "denim", "jeggings"],
+            },
+            {
+              id: "leggings",
+              name: "Leggings",
+              aliases: ["legging"],
+            },
+          ],
+        },
+        {
+          name: "Footwear",
+          children: [
+            {
+              id: "womens-flats",
+              name: "Flats & Sandals",
+              aliases: ["sandals", "flats"],
+            },
+            {
+              id: "womens-sneakers",
+              name: "Women Sneakers",
+              aliases: ["casual shoes"],
+            },
+          ],
+        },
+        {
+          name: "Bags",
+          children: [
+            {
+              id: "handbags",
+              name: "Handbags",
+              aliases: ["tote", "sling bag"],
+            },
+          ],
+        },
+        {
+          name: "Jewellery",
+          children: [
+            {
+              id: "earrings",
+              name: "Earrings",
+              aliases: ["jhumka", "studs"],
+            },
+            {
+              id: "jewellery-sets",
+              name: "Jewellery Sets",
+              aliases: ["necklace"],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: "Men Fashion",
+      children: [
+        {
+          name: "Top Wear",
+          children: [
+            {
+              id: "mens-tshirts",
+              name: "T-Shirts",
+              aliases: ["tee", "polo"],
+            },
+            {
+              id: "mens-shirts",
+              name: "Shirts",
+              aliases: ["shirt"],
+            },
+            {
+              id: "mens-kurtas",
+              name: "Kurtas",
+              aliases: ["kurta", "ethnic"],
+            },
+          ],
+        },
+        {
+          name: "Bottom Wear",
+          children: [
+            {
+              id: "mens-jeans",
+              name: "Jeans",
+              aliases: ["denim"],
+            },
+            {
+              id: "mens-track-pants",
+              name: "Track Pants",
+              aliases: ["joggers"],
+            },
+            {
+              id: "mens-trousers",
+              name: "Trousers",
+              aliases: ["chinos", "pants"],
+            },
+          ],
+        },
+        {
+          name: "Footwear",
+          children: [
+            {
+              id: "mens-sports-shoes",
+              name: "Sports Shoes",
+              aliases: ["running shoes"],
+            },
+            {
+              id: "mens-casual-shoes",
+              name: "Casual Shoes",
+              aliases: ["sneakers", "loafers"],
+            },
+            {
+              id: "mens-flip-flops",
+              name: "Flip Flops & Slippers",
+              aliases: ["slippers", "chappals"],
+            },
+          ],
+        },
+        {
+          name: "Accessories",
+          children: [
+            {
+              id: "mens-wallets",
+              name: "Wallets",
+              aliases: ["wallet"],
+            },
+            {
+              id: "mens-watches",
+              name: "Watches",
+              aliases: ["watch"],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: "Kids",
+      children: [
+        {
+          id: "kids-clothing-sets",
+          name: "Clothing Sets",
+          aliases: ["kids set", "baby set"],
+        },
+      ],
+    },
+    {
+      name: "Beauty & Health",
+      children: [
+        {
+          id: "lipsticks",
+          name: "Lipsticks",
+          aliases: ["lipstick"],
+        },
+        {
+          id: "face-wash",
+          name: "Face Wash",
+          aliases: ["cleanser"],
+        },
+        {
+          id: "moisturisers",
+          name: "Moisturisers",
+          aliases: ["cream", "lotion"],
+        },
+      ],
+    },
+    {
+      name: "Home & Kitchen",
+      children: [
+        {
+          id: "bedsheets",
+          name: "Bedsheets",
+          aliases: ["bed sheet"],
+        },
+        {
+          id: "curtains",
+          name: "Curtains",
+          aliases: ["curtain"],
+        },
+        {
+          id: "cookware",
+          name: "Cookware",
+          aliases: ["cookware set", "pots and pans"],
+        },
+        {
+          id: "bottles",
+          name: "Bottles",
+          aliases: ["water bottle", "flask"],
+        },
+      ],
+    },
+    {
+      name: "Electronics",
+      children: [
+        {
+          id: "mobile-covers",
+          name: "Mobile Covers",
+          aliases: ["phone cover", "back cover"],
+        },
+        {
+          id: "earphones",
+          name: "Earphones & Headphones",
+          aliases: ["earbuds", "headset"],
+        },
+        {
+          id: "power-banks",
+          name: "Power Banks",
+          aliases: ["powerbank"],
+        },
+      ],
+    },
+  ],
+};
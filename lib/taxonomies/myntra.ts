@@ -0,0 +1,255 @@
+import type { CategoryTree } from "@/lib/taxonomy";
+
+export const myntraTree: CategoryTree = {
+  marketplace: "Myntra",
+  label: "Article type",
+  valueFormat: "name",
+  note: "Starter subset of Myntra article types grouped by master and sub category.",
+  nodes: [
+    {
+      name: "Apparel",
+      children: [
+        {
+          name: "Topwear",
+          children: [
+            {
+              id: "Kurtas",
+              name: "Kurtas",
+              aliases: ["kurta", "kurti", "anarkali"],
+            },
+            {
+              id: "Tshirts",
+              name: "Tshirts",
+              aliases: ["tee", "t-shirt", "polo"],
+            },
+            {
+              id: "Shirts",
+              name: "Shirts",
+              aliases: ["shirt"],
+            },
+            {
+              id: "Tops",
+              name: "Tops",
+              aliases: ["top"],
+            },
+          ],
+        },
+        {
+          name: "Bottomwear",
+          children: [
+            {
+              id: "Jeans",
+              name: "Jeans",
+              aliases: ["denim"],
+            },
+            {
+              id: "Trousers",
+              name: "Trousers",
+              aliases: ["chinos", "pants"],
+            },
+            {
+              id: "Track Pants",
+              name: "Track Pants",
+              aliases: ["joggers"],
+            },
+            {
+              id: "Leggings",
+              name: "Leggings",
+              aliases: ["legging", "jeggings"],
+            },
+          ],
+        },
+        {
+          name: "Dress",
+          children: [
+            {
+              id: "Dresses",
+              name: "Dresses",
+              aliases: ["dress", "gown", "maxi"],
+            },
+          ],
+        },
+        {
+          name: "Saree",
+          children: [
+            {
+              id: "Sarees",
+              name: "Sarees",
+              aliases: ["saree", "sari"],
+            },
+          ],
+        },
+        {
+          name: "Apparel Set",
+          children: [
+            {
+              id: "Kurta Sets",
+              name: "Kurta Sets",
+              aliases: ["salwar suit", "kurta set", "suit set"],
+            },
+            {
+              id: "Lehenga Choli",
+              name: "Lehenga Choli",
+              aliases: ["lehenga"],
+            },
+            {
+              id: "Clothing Set",
+              name: "Clothing Set",
+              aliases: ["kids set"],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: "Footwear",
+      children: [
+        {
+          name: "Shoes",
+          children: [
+            {
+              id: "Sports Shoes",
+              name: "Sports Shoes",
+              aliases: ["running shoes", "training shoes"],
+            },
+            {
+              id: "Casual Shoes",
+              name: "Casual Shoes",
+              aliases: ["sneakers", "loafers"],
+            },
+            {
+              id: "Formal Shoes",
+              name: "Formal Shoes",
+              aliases: ["oxford", "derby"],
+            },
+          ],
+        },
+        {
+          name: "Sandal",
+          children: [
+            {
+              id: "Sandals",
+              name: "Sandals",
+              aliases: ["floaters", "sandal"],
+            },
+          ],
+        },
+        {
+          name: "Flip Flops",
+          children: [
+            {
+              id: "Flip Flops",
+              name: "Flip Flops",
+              aliases: ["slippers", "chappals"],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: "Accessories",
+      children: [
+        {
+          name: "Bags",
+          children: [
+            {
+              id: "Handbags",
+              name: "Handbags",
+              aliases: ["tote", "sling bag", "shoulder bag"],
+            },
+          ],
+        },
+        {
+          name: "Wallets",
+          children: [
+            {
+              id: "Wallets",
+              name: "Wallets",
+              aliases: ["wallet", "purse"],
+            },
+          ],
+        },
+        {
+          name: "Watches",
+          children: [
+            {
+              id: "Watches",
+              name: "Watches",
+              aliases: ["wrist watch"],
+            },
+          ],
+        },
+        {
+          name: "Jewellery",
+          children: [
+            {
+              id: "Earrings",
+              name: "Earrings",
+              aliases: ["jhumka", "studs"],
+            },
+            {
+              id: "Necklace and Chains",
+              name: "Necklace and Chains",
+              aliases: ["necklace", "jewellery set"],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: "Personal Care",
+      children: [
+        {
+          name: "Lips",
+          children: [
+            {
+              id: "Lipstick",
+              name: "Lipstick",
+              aliases: ["lip colour"],
+            },
+          ],
+        },
+        {
+          name: "Skin Care",
+          children: [
+            {
+              id: "Face Wash and Cleanser",
+              name: "Face Wash and Cleanser",
+              aliases: ["face wash", "cleanser"],
+            },
+            {
+              id: "Face Moisturisers",
+              name: "Face Moisturisers",
+              aliases: ["moisturiser", "cream", "lotion"],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: "Home",
+      children: [
+        {
+          name: "Bed Linen & Furnishing",
+          children: [
+            {
+              id: "Bedsheets",
+              name: "Bedsheets",
+              aliases: ["bed sheet"],
+            },
+          ],
+        },
+        {
+          name: "Home Furnishing",
+          children: [
+            {
+              id: "Curtains",
+              name: "Curtains",
+              aliases: ["curtain", "drapes"],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
@@ -0,0 +1,240 @@
+import type { SheetRow } from "@/lib/sheet";
+import {
+  Marketplace,
+  editDistance,
+  normalizeKey,
+  resolveHeaders,
+} from "@/lib/catalog";
+import { amazonTree } from "@/lib/taxonomies/amazon";
+import { flipkartTree } from "@/lib/taxonomies/flipkart";
+import { meeshoTree } from "@/lib/taxonomies/meesho";
+import { myntraTree } from "@/lib/taxonomies/myntra";
+
+/**
+ * Category values, as opposed to category headers: translating a supplier's
+ * "Kurta" or "Running Shoes" into each marketplace's own category tree. The
+ * trees live under lib/taxonomies; replace them with the marketplace's
+ * current export for the categories you sell in.
+ */
+
+export type CategoryNode = {
+  /** Set on leaves: the value the marketplace expects. */
+  id?: string;
+  name: string;
+  aliases?: string[];
+  children?: CategoryNode[];
+};
+
+export type CategoryTree = {
+  marketplace: Marketplace;
+  /** What the marketplace calls the value, e.g. "Vertical". */
+  label: string;
+  /** Written to the template: the leaf id, its name or its full path. */
+  valueFormat: "id" | "name" | "path";
+  note?: string;
+  nodes: CategoryNode[];
+};
+
+export type CategoryLeaf = {
+  id: string;
+  name: string;
+  /** Ancestor names, root first, ending with the leaf name. */
+  path: string[];
+  aliases: string[];
+};
+
+export type CategorySuggestion = { leaf: CategoryLeaf; score: number };
+
+/** Confirmed translations per marketplace: `categoryKey(raw value)` → leaf id. */
+export type CategoryMappings = Partial<
+  Record<Marketplace, Record<string, string>>
+>;
+
+export const categoryTrees: Record<Marketplace, CategoryTree> = {
+  Amazon: amazonTree,
+  Flipkart: flipkartTree,
+  Meesho: meeshoTree,
+  Myntra: myntraTree,
+};
+
+const STORAGE_KEY = "jarvis.category-mappings";
+
+const leafCache = new Map<Marketplace, CategoryLeaf[]>();
+
+export function categoryLeaves(marketplace: Marketplace): CategoryLeaf[] {
+  const cached = leafCache.get(marketplace);
+  if (cached) return cached;
+  const leaves: CategoryLeaf[] = [];
+  const walk = (nodes: CategoryNode[], ancestors: string[]) => {
+    nodes.forEach((node) => {
+      const path = [...ancestors, node.name];
+      if (node.children?.length) walk(node.children, path);
+      else if (node.id) {
+        leaves.push({
+          id: node.id,
+          name: node.name,
+          path,
+          aliases: node.aliases ?? [],
+        });
+      }
+    });
+  };
+  walk(categoryTrees[marketplace].nodes, []);
+  leafCache.set(marketplace, leaves);
+  return leaves;
+}
+
+export function findLeaf(
+  marketplace: Marketplace,
+  id: string
+): CategoryLeaf | undefined {
+  return categoryLeaves(marketplace).find((leaf) => leaf.id === id);
+}
+
+/** The cell value the marketplace expects for a leaf. */
+export function categoryValue(
+  marketplace: Marketplace,
+  leaf: CategoryLeaf
+): string {
+  switch (categoryTrees[marketplace].valueFormat) {
+    case "id":
+      return leaf.id;
+    case "name":
+      return leaf.name;
+    case "path":
+      return leaf.path.join(" > ");
+  }
+}
+
+export function categoryKey(value: string): string {
+  return normalizeKey(value);
+}
+
+/** The template column carrying the category, if any. */
+export function categoryHeader(headers: string[]): string | null {
+  return resolveHeaders(headers, "category")[0] ?? null;
+}
+
+/** "Women's Kurtas" → ["women", "kurta"]. */
+function tokens(value: string): string[] {
+  return normalizeKey(value)
+    .split(" ")
+    .filter((token) => token.length > 1)
+    .map((token) =>
+      token.endsWith("sses")
+        ? token.slice(0, -2)
+        : token.endsWith("s") && !token.endsWith("ss")
+        ? token.slice(0, -1)
+        : token
+    );
+}
+
+/** Equal, or one typo apart for longer words ("kurthi" ~ "kurti"). */
+function sameToken(a: string, b: string): boolean {
+  if (a === b) return true;
+  const length = Math.min(a.length, b.length);
+  return length >= 4 && editDistance(a, b) <= (length >= 7 ? 2 : 1);
+}
+
+/** Share of `target` tokens found in `value`, blended with their overlap. */
+function phraseScore(value: string[], target: string[]): number {
+  if (!value.length || !target.length) return 0;
+  const found = target.filter((token) =>
+    value.some((candidate) => sameToken(candidate, token))
+  ).length;
+  const coverage = found / target.length;
+  const dice = (2 * found) / (value.length + target.length);
+  return 0.7 * coverage + 0.3 * dice;
+}
+
+/**
+ * Ranks the marketplace's leaf categories for a raw value by how well the
+ * leaf name or one of its aliases matches, with the last tenth of the score
+ * for words ("Men", "Women") that match the leaf's ancestors.
+ */
+export function suggestCategories(
+  marketplace: Marketplace,
+  value: string,
+  limit = 5
+): CategorySuggestion[] {
+  const words = tokens(value);
+  if (!words.length) return [];
+  return categoryLeaves(marketplace)
+    .map((leaf) => {
+      const best = Math.max(
+        ...[leaf.name, ...leaf.aliases].map((phrase) =>
+          phraseScore(words, tokens(phrase))
+        )
+      );
+      const ancestors = tokens(leaf.path.slice(0, -1).join(" "));
+      const context = words.filter((word) =>
+        ancestors.some((token) => sameToken(word, token))
+      ).length;
+      const score = best ? 0.9 * best + (0.1 * context) / words.length : 0;
+      return { leaf, score };
+    })
+    .filter((suggestion) => suggestion.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+export type CategoryValueCount = { value: string; key: string; count: number };
+
+/** Distinct non-empty values of a raw column, most frequent first. */
+export function distinctCategoryValues(
+  rows: SheetRow[],
+  header: string
+): CategoryValueCount[] {
+  const counts = new Map<string, CategoryValueCount>();
+  rows.forEach((row) => {
+    const value = (row[header] ?? "").trim();
+    const key = categoryKey(value);
+    if (!key) return;
+    const entry = counts.get(key);
+    if (entry) entry.count += 1;
+    else counts.set(key, { value, key, count: 1 });
+  });
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+}
+
+/** Confirmed translations as `categoryKey(raw value)` → template cell value. */
+export function categoryCellValues(
+  marketplace: Marketplace,
+  confirmed: Record<string, string>
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  Object.entries(confirmed).forEach(([key, id]) => {
+    const leaf = findLeaf(marketplace, id);
+    if (leaf) values[key] = categoryValue(marketplace, leaf);
+  });
+  return values;
+}
+
+/** Rewrites the category column of generated rows through `values`. */
+export function applyCategoryValues(
+  headers: string[],
+  rows: SheetRow[],
+  values: Record<string, string>
+): SheetRow[] {
+  const header = categoryHeader(headers);
+  if (!header || !Object.keys(values).length) return rows;
+  return rows.map((row) => {
+    const mapped = values[categoryKey(row[header] ?? "")];
+    return mapped === undefined ? row : { ...row, [header]: mapped };
+  });
+}
+
+export function loadCategoryMappings(): CategoryMappings {
+  if (typeof window === "undefined") return {};
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "{}");
+    return stored && typeof stored === "object" ? stored : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveCategoryMappings(mappings: CategoryMappings): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+}
@@ -0,0 +1,409 @@
+import JSZip from "jszip";
+import * as XLSX from "xlsx";
+import { SheetData, SheetRow, buildSheet } from "@/lib/sheet";
+import type { Marketplace } from "@/lib/catalog";
+import {
+  TemplateSchema,
+  sheetRows,
+  worksheetPath,
+  xmlAttribute,
+} from "@/lib/templateSchema";
+
+/**
+ * Writing generated rows back in the shape a marketplace accepts. A plain
+ * workbook loses everything around the rows, so the template export copies
+ * the uploaded file and replaces only the data rows of its template sheet:
+ * instruction and valid-value sheets, the version cells above the labels,
+ * validations and styles come back byte for byte. CSV exports use each
+ * marketplace's delimiter and encoding.
+ */
+
+export type ExportFormat = "template" | "xlsx" | "csv";
+
+export const exportFormats: ExportFormat[] = ["template", "xlsx", "csv"];
+
+export const exportFormatLabels: Record<ExportFormat, string> = {
+  template: "Template workbook",
+  xlsx: "Plain XLSX",
+  csv: "Marketplace CSV",
+};
+
+export type CsvEncoding = "utf-8" | "utf-8-bom";
+
+export type CsvFormat = {
+  delimiter: string;
+  encoding: CsvEncoding;
+  extension: "csv" | "txt";
+};
+
+/**
+ * What each seller portal's flat-file upload expects. Amazon takes its
+ * tab-delimited "Text" flat file; Flipkart and Myntra read CSVs through
+ * Excel, so they get a byte-order mark to keep non-ASCII text intact.
+ */
+export const csvFormats: Record<Marketplace, CsvFormat> = {
+  Amazon: { delimiter: "\t", encoding: "utf-8", extension: "txt" },
+  Flipkart: { delimiter: ",", encoding: "utf-8-bom", extension: "csv" },
+  Meesho: { delimiter: ",", encoding: "utf-8", extension: "csv" },
+  Myntra: { delimiter: ",", encoding: "utf-8-bom", extension: "csv" },
+};
+
+/** The uploaded template as it was, alongside what `readTemplate` found. */
+export type TemplateFile = {
+  name: string;
+  bytes: ArrayBuffer;
+  schema: TemplateSchema;
+};
+
+/** A sheet added next to the rows, e.g. the change log. */
+export type NamedSheet = SheetData & { name: string };
+
+export type ExportedFile = {
+  bytes: ArrayBuffer;
+  /** Without the dot, e.g. "xlsm" for a macro-enabled template. */
+  extension: string;
+  type: string;
+};
+
+export class TemplateExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateExportError";
+  }
+}
+
+const fileTypes: Record<string, string> = {
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  xlsm: "application/vnd.ms-excel.sheet.macroEnabled.12",
+  csv: "text/csv",
+  txt: "text/tab-separated-values",
+};
+
+function extensionOf(name: string): string {
+  return /\.([a-z0-9]+)$/i.exec(name)?.[1].toLowerCase() ?? "";
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function textCell(ref: string, value: string, style = ""): string {
+  return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+    value
+  )}</t></is></c>`;
+}
+
+/** Template columns in sheet order, with the generated header they hold. */
+function placedColumns(schema: TemplateSchema, headers: string[]) {
+  return headers
+    .filter((header) => schema.columns[header])
+    .map((header) => ({ header, column: schema.columns[header] }))
+    .sort((a, b) => a.column.index - b.column.index);
+}
+
+/** Excel drops calcChain entries for cells that vanish; let it rebuild. */
+async function dropCalcChain(zip: JSZip): Promise<void> {
+  if (!zip.file("xl/calcChain.xml")) return;
+  zip.remove("xl/calcChain.xml");
+  const types = await zip.file("[Content_Types].xml")?.async("string");
+  if (types) {
+    zip.file(
+      "[Content_Types].xml",
+      types.replace(/<Override\b[^>]*calcChain[^>]*\/>/g, "")
+    );
+  }
+  const rels = await zip.file("xl/_rels/workbook.xml.rels")?.async("string");
+  if (rels) {
+    zip.file(
+      "xl/_rels/workbook.xml.rels",
+      rels.replace(/<Relationship\b[^>]*calcChain[^>]*\/>/g, "")
+    );
+  }
+}
+
+/**
+ * A copy of the template workbook with `rows` from its data start row on.
+ * Rows above it stay as they were; rows already below it (sample listings)
+ * are replaced, and each column keeps the cell style of the first of them.
+ * `extraSheets` are added after the template's own sheets.
+ */
+export async function fillTemplateWorkbook(
+  bytes: ArrayBuffer,
+  schema: TemplateSchema,
+  headers: string[],
+  rows: SheetRow[],
+  extraSheets: NamedSheet[] = []
+): Promise<ArrayBuffer> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(bytes);
+  } catch {
+    throw new TemplateExportError(
+      "The template isn't an Excel workbook; export it as CSV instead."
+    );
+  }
+  const path = await worksheetPath(zip, schema.sheet);
+  const xml = path && (await zip.file(path)?.async("string"));
+  const sheetData =
+    xml &&
+    /<sheetData\s*\/>|<sheetData\b[^>]*>([\s\S]*?)<\/sheetData>/.exec(xml);
+  if (!path || !xml || !sheetData) {
+    throw new TemplateExportError(
+      `The template has no "${schema.sheet}" sheet to fill.`
+    );
+  }
+
+  const firstRow = schema.dataStartRow + 1; // Excel rows are one-based.
+  const kept: string[] = [];
+  const styles = new Map<number, string>();
+  let rowNumber = 0;
+  let lastKept = 0;
+  (sheetData[1] ?? "")
+    .match(/<row\b[^>]*?(?:\/>|>[\s\S]*?<\/row>)/g)
+    ?.forEach((row) => {
+      const tag = /^<row\b[^>]*>/.exec(row)?.[0] ?? "";
+      rowNumber = Number(xmlAttribute(tag, "r") ?? rowNumber + 1);
+      if (rowNumber < firstRow) {
+        kept.push(row);
+        lastKept = rowNumber;
+        return;
+      }
+      if (rowNumber !== firstRow) return;
+      (row.match(/<c\b[^>]*>/g) ?? []).forEach((cell) => {
+        const ref = xmlAttribute(cell, "r");
+        const style = xmlAttribute(cell, "s");
+        if (ref && style) styles.set(XLSX.utils.decode_cell(ref).c, style);
+      });
+    });
+
+  const columns = placedColumns(schema, headers);
+  const written = rows.map((row, offset) => {
+    const r = firstRow + offset;
+    const cells = columns.map(({ header, column }) => {
+      const value = row[header] ?? "";
+      if (!value) return "";
+      const ref = XLSX.utils.encode_cell({ r: r - 1, c: column.index });
+      const style = styles.has(column.index)
+        ? ` s="${styles.get(column.index)}"`
+        : "";
+      if (
+        (column.type === "number" || column.type === "integer") &&
+        /^-?\d+(\.\d+)?$/.test(value)
+      ) {
+        return `<c r="${ref}"${style}><v>${value}</v></c>`;
+      }
+      return textCell(ref, value, style);
+    });
+    return `<row r="${r}">${cells.join("")}</row>`;
+  });
+
+  const lastRow = Math.max(lastKept, firstRow - 1 + rows.length, 1);
+  const lastColumn = Math.max(0, ...columns.map(({ column }) => column.index));
+  let next = xml.replace(
+    sheetData[0],
+    () => `<sheetData>${[...kept, ...written].join("")}</sheetData>`
+  );
+  next = next.replace(/<dimension\b[^>]*\/>/, (tag) => {
+    const ref = xmlAttribute(tag, "ref");
+    const range = XLSX.utils.decode_range(ref?.includes(":") ? ref : "A1:A1");
+    range.e.r = lastRow - 1;
+    range.e.c = Math.max(range.e.c, lastColumn);
+    return `<dimension ref="${XLSX.utils.encode_range(range)}"/>`;
+  });
+  zip.file(path, next);
+  await dropCalcChain(zip);
+  for (const sheet of extraSheets) await appendSheet(zip, sheet);
+  return zip.generateAsync({ type: "arraybuffer", compression: "DEFLATE" });
+}
+
+/**
+ * Adds a plain sheet to a workbook package. Names taken by the template's own
+ * sheets get a number, so nothing of the template is overwritten.
+ */
+async function appendSheet(zip: JSZip, sheet: NamedSheet): Promise<void> {
+  const book = await zip.file("xl/workbook.xml")?.async("string");
+  const rels = await zip.file("xl/_rels/workbook.xml.rels")?.async("string");
+  const types = await zip.file("[Content_Types].xml")?.async("string");
+  if (!book || !rels || !types) return;
+
+  const names = (book.match(/<sheet\b[^>]*>/g) ?? []).map((tag) =>
+    xmlAttribute(tag, "name")
+  );
+  let name = sheet.name;
+  for (let copy = 2; names.includes(name); copy += 1) {
+    name = `${sheet.name} (${copy})`;
+  }
+  let part = 1;
+  while (zip.file(`xl/worksheets/sheet${part}.xml`)) part += 1;
+  let relation = 1;
+  while (rels.includes(`Id="rId${relation}"`)) relation += 1;
+  const sheetId =
+    Math.max(
+      0,
+      ...(book.match(/\ssheetId="(\d+)"/g) ?? []).map((match) =>
+        Number(match.replace(/\D/g, ""))
+      )
+    ) + 1;
+
+  const lines = [
+    sheet.headers,
+    ...sheet.rows.map((row) =>
+      sheet.headers.map((header) => row[header] ?? "")
+    ),
+  ];
+  const rows = lines.map(
+    (line, r) =>
+      `<row r="${r + 1}">${line
+        .map((value, c) =>
+          value ? textCell(XLSX.utils.encode_cell({ r, c }), value) : ""
+        )
+        .join("")}</row>`
+  );
+  zip.file(
+    `xl/worksheets/sheet${part}.xml`,
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows.join(
+      ""
+    )}</sheetData></worksheet>`
+  );
+  zip.file(
+    "xl/workbook.xml",
+    book.replace(
+      "</sheets>",
+      () =>
+        `<sheet name="${escapeXml(
+          name
+        )}" sheetId="${sheetId}" r:id="rId${relation}"/></sheets>`
+    )
+  );
+  zip.file(
+    "xl/_rels/workbook.xml.rels",
+    rels.replace(
+      "</Relationships>",
+      `<Relationship Id="rId${relation}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${part}.xml"/></Relationships>`
+    )
+  );
+  zip.file(
+    "[Content_Types].xml",
+    types.replace(
+      "</Types>",
+      `<Override PartName="/xl/worksheets/sheet${part}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`
+    )
+  );
+}
+
+function encodeText(text: string, encoding: CsvEncoding): ArrayBuffer {
+  const bytes = new TextEncoder().encode(
+    encoding === "utf-8-bom" ? `\uFEFF${text}` : text
+  );
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length);
+}
+
+/**
+ * Rows as a flat file in the marketplace's CSV format. With the template, the
+ * rows above its data start (version cells, labels, field names) lead the
+ * file and values sit in the template's own columns.
+ */
+export function marketplaceCsv(
+  marketplace: Marketplace,
+  headers: string[],
+  rows: SheetRow[],
+  template: TemplateFile | null = null
+): ArrayBuffer {
+  const { delimiter, encoding } = csvFormats[marketplace];
+  let lines: string[][];
+  if (template) {
+    const { schema } = template;
+    const workbook = XLSX.read(template.bytes, { type: "array" });
+    const sheet = workbook.Sheets[schema.sheet];
+    const leading = sheet
+      ? sheetRows(sheet).slice(0, schema.dataStartRow)
+      : [headers];
+    const columns = placedColumns(schema, headers);
+    const width = Math.max(
+      0,
+      ...leading.map((line) => line.length),
+      ...columns.map(({ column }) => column.index + 1)
+    );
+    lines = [
+      ...leading,
+      ...rows.map((row) => {
+        const line: string[] = Array(width).fill("");
+        columns.forEach(({ header, column }) => {
+          line[column.index] = row[header] ?? "";
+        });
+        return line;
+      }),
+    ];
+  } else {
+    lines = [
+      headers,
+      ...rows.map((row) => headers.map((header) => row[header] ?? "")),
+    ];
+  }
+
+  const quote = (value: string) =>
+    value.includes(delimiter) || /["\r\n]/.test(value)
+      ? `"${value.replace(/"/g, '""')}"`
+      : value;
+  const text = lines
+    .map((line) => line.map(quote).join(delimiter))
+    .join("\r\n")
+    .concat("\r\n");
+  return encodeText(text, encoding);
+}
+
+/**
+ * One channel's rows as a file. The template export of a CSV template is a
+ * CSV again, led by the template's own rows; without the uploaded file it
+ * falls back to a plain workbook. Flat files have no room for `extraSheets`.
+ */
+export async function exportRows(
+  format: ExportFormat,
+  marketplace: Marketplace,
+  headers: string[],
+  rows: SheetRow[],
+  template: TemplateFile | null = null,
+  extraSheets: NamedSheet[] = []
+): Promise<ExportedFile> {
+  const templateExtension = template ? extensionOf(template.name) : "";
+  const flatTemplate = /^(csv|txt|tsv)$/.test(templateExtension);
+  if (format === "csv" || (format === "template" && flatTemplate)) {
+    const { extension } = csvFormats[marketplace];
+    return {
+      bytes: marketplaceCsv(marketplace, headers, rows, template),
+      extension,
+      type: fileTypes[extension],
+    };
+  }
+  if (format === "template" && template) {
+    return {
+      bytes: await fillTemplateWorkbook(
+        template.bytes,
+        template.schema,
+        headers,
+        rows,
+        extraSheets
+      ),
+      extension: templateExtension,
+      type: fileTypes[templateExtension],
+    };
+  }
+  const workbook = buildSheet(headers, rows);
+  extraSheets.forEach((sheet) =>
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet(sheet.rows, { header: sheet.headers }),
+      sheet.name
+    )
+  );
+  return {
+    bytes: XLSX.write(workbook, { type: "array", bookType: "xlsx" }),
+    extension: "xlsx",
+    type: fileTypes.xlsx,
+  };
+}
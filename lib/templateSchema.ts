@@ -0,0 +1,584 @@
+import JSZip from "jszip";
+import * as XLSX from "xlsx";
+import type { SheetData, SheetRow } from "@/lib/sheet";
+import { normalizeKey } from "@/lib/catalog";
+
+/**
+ * What a marketplace category template says about its own columns. Real
+ * Amazon and Flipkart templates put notes above the labels and field names
+ * or "Required" markers below them, keep dropdown lists on hidden "Valid
+ * Values" sheets, attach Excel data validations to the columns and explain
+ * each field on a "Data Definitions" sheet. `readTemplate` reads all of that
+ * into one rule set per column alongside the usual headers and rows.
+ */
+
+export type ColumnType = "text" | "number" | "integer" | "date";
+
+export type ColumnSchema = {
+  /** Zero-based column in the template sheet. */
+  index: number;
+  /** Machine name from a field-name row under the labels, e.g. "item_sku". */
+  field: string | null;
+  /** Null when the template doesn't say. */
+  required: boolean | null;
+  /** Dropdown values; empty when any value is accepted. */
+  allowedValues: string[];
+  maxLength: number | null;
+  type: ColumnType;
+  /** How dates are written, e.g. "DD/MM/YYYY"; null when the template doesn't say. */
+  dateFormat: string | null;
+};
+
+export type TemplateSchema = {
+  /** The sheet listings are written to. */
+  sheet: string;
+  /** Zero-based row holding the column labels. */
+  headerRow: number;
+  /** Zero-based first row after the labels and any rows describing them. */
+  dataStartRow: number;
+  columns: Record<string, ColumnSchema>;
+};
+
+export type ParsedTemplate = { data: SheetData; schema: TemplateSchema };
+
+/** Rows searched for the label row. */
+const HEADER_SCAN = 10;
+
+/** Rows under the labels that may still describe them. */
+const META_LIMIT = 5;
+
+const markerPattern =
+  /^(required|mandatory|optional|preferred|desired|conditional(ly)? required)$/i;
+const fieldPattern = /^[a-z][a-z0-9_.#[\]-]*$/;
+
+function cellText(value: unknown): string {
+  return value === undefined || value === null ? "" : String(value).trim();
+}
+
+/** Every row of a sheet as trimmed display text, blank rows included. */
+export function sheetRows(sheet: XLSX.WorkSheet): string[][] {
+  return XLSX.utils
+    .sheet_to_json<unknown[]>(sheet, {
+      header: 1,
+      defval: "",
+      raw: false,
+      blankrows: true,
+    })
+    .map((row) => row.map(cellText));
+}
+
+/** The first row about as full of short labels as the fullest one. */
+function findHeaderRow(rows: string[][]): number {
+  const scores = rows
+    .slice(0, HEADER_SCAN)
+    .map(
+      (row) =>
+        row.filter(
+          (cell) => cell && cell.length <= 80 && Number.isNaN(Number(cell))
+        ).length
+    );
+  const best = Math.max(0, ...scores);
+  return Math.max(
+    0,
+    scores.findIndex((score) => score > 0 && score >= best * 0.9)
+  );
+}
+
+type MetaRow = "field" | "marker" | "description";
+
+function metaKind(row: string[]): MetaRow | null {
+  const filled = row.filter(Boolean);
+  if (!filled.length) return null;
+  const share = (test: (cell: string) => boolean) =>
+    filled.filter(test).length / filled.length;
+  if (share((cell) => markerPattern.test(cell)) >= 0.8) return "marker";
+  if (
+    share((cell) => fieldPattern.test(cell)) >= 0.8 &&
+    filled.some((cell) => /[_.]/.test(cell))
+  ) {
+    return "field";
+  }
+  if (share((cell) => cell.length > 40) >= 0.5) return "description";
+  return null;
+}
+
+function requiredFrom(text: string): boolean | null {
+  if (/^(required|mandatory|yes)\b/i.test(text)) return true;
+  if (/^(optional|preferred|desired|no|conditional)/i.test(text)) return false;
+  return null;
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+export function xmlAttribute(tag: string, name: string): string | null {
+  const match = new RegExp(`\\s${name}="([^"]*)"`).exec(tag);
+  return match ? unescapeXml(match[1]) : null;
+}
+
+/** "D4:D5000 F:F" → [3, 5]. */
+function sqrefColumns(sqref: string): number[] {
+  return sqref.split(/\s+/).flatMap((ref) => {
+    const match = /^\$?([A-Z]+)\$?\d*(?::\$?([A-Z]+)\$?\d*)?$/.exec(ref);
+    if (!match) return [];
+    const start = XLSX.utils.decode_col(match[1]);
+    const end = XLSX.utils.decode_col(match[2] ?? match[1]);
+    return Array.from({ length: end - start + 1 }, (_, i) => start + i);
+  });
+}
+
+/** Values of a list validation: an inline list, a range or a defined name. */
+function listValues(formula: string, workbook: XLSX.WorkBook): string[] {
+  const text = formula.trim().replace(/^=/, "");
+  if (/^".*"$/.test(text)) {
+    return text
+      .slice(1, -1)
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean);
+  }
+  const name = workbook.Workbook?.Names?.find(
+    (entry) => entry.Name.toLowerCase() === text.toLowerCase()
+  );
+  const ref = (name?.Ref ?? text).replace(/^=/, "");
+  const match = /^(?:'((?:[^']|'')+)'|([^!]+))!(.+)$/.exec(ref);
+  if (!match) return [];
+  const sheet = workbook.Sheets[match[1]?.replace(/''/g, "'") ?? match[2]];
+  if (!sheet?.["!ref"]) return [];
+  const range = XLSX.utils.decode_range(match[3].replace(/\$/g, ""));
+  const bounds = XLSX.utils.decode_range(sheet["!ref"]);
+  const values: string[] = [];
+  for (let r = range.s.r; r <= Math.min(range.e.r, bounds.e.r); r += 1) {
+    for (let c = range.s.c; c <= Math.min(range.e.c, bounds.e.c); c += 1) {
+      const cell = sheet[XLSX.utils.encode_cell({ r, c })];
+      const value = cellText(cell?.w ?? cell?.v);
+      if (value) values.push(value);
+    }
+  }
+  return Array.from(new Set(values));
+}
+
+type ColumnRule = Partial<
+  Pick<ColumnSchema, "allowedValues" | "maxLength" | "type">
+>;
+
+/** Where a sheet's XML lives inside an .xlsx/.xlsm package. */
+export async function worksheetPath(
+  zip: JSZip,
+  sheetName: string
+): Promise<string | null> {
+  const book = await zip.file("xl/workbook.xml")?.async("string");
+  const rels = await zip.file("xl/_rels/workbook.xml.rels")?.async("string");
+  if (!book || !rels) return null;
+  const sheetTag = (book.match(/<sheet\b[^>]*>/g) ?? []).find(
+    (tag) => xmlAttribute(tag, "name") === sheetName
+  );
+  const relId = sheetTag && xmlAttribute(sheetTag, "r:id");
+  const target = (rels.match(/<Relationship\b[^>]*>/g) ?? [])
+    .filter((tag) => xmlAttribute(tag, "Id") === relId)
+    .map((tag) => xmlAttribute(tag, "Target"))[0];
+  if (!target) return null;
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Excel data validations on the template sheet, by column. SheetJS doesn't
+ * expose them, so they are read from the sheet XML, including the x14
+ * extension form Excel uses for lists on other sheets.
+ */
+async function readValidations(
+  bytes: ArrayBuffer,
+  sheetName: string,
+  workbook: XLSX.WorkBook
+): Promise<Map<number, ColumnRule>> {
+  const rules = new Map<number, ColumnRule>();
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(bytes);
+  } catch {
+    return rules; // CSV or legacy .xls: no validations to read.
+  }
+  const path = await worksheetPath(zip, sheetName);
+  const xml = path && (await zip.file(path)?.async("string"));
+  if (!xml) return rules;
+
+  const validations = xml.matchAll(
+    /<(?:x14:)?dataValidation\b([^>]*)>([\s\S]*?)<\/(?:x14:)?dataValidation>/g
+  );
+  for (const [, attributes, body] of Array.from(validations)) {
+    const tag = ` ${attributes}`;
+    const sqref =
+      xmlAttribute(tag, "sqref") ??
+      /<xm:sqref>([^<]*)<\/xm:sqref>/.exec(body)?.[1] ??
+      "";
+    const formula = (index: 1 | 2) => {
+      const match = new RegExp(
+        `<(?:x14:)?formula${index}>(?:<xm:f>)?([\\s\\S]*?)(?:</xm:f>)?</(?:x14:)?formula${index}>`
+      ).exec(body);
+      return match ? unescapeXml(match[1]) : "";
+    };
+    const operator = xmlAttribute(tag, "operator") ?? "between";
+    let rule: ColumnRule | null = null;
+    switch (xmlAttribute(tag, "type")) {
+      case "list": {
+        const values = listValues(formula(1), workbook);
+        if (values.length) rule = { allowedValues: values };
+        break;
+      }
+      case "textLength": {
+        const limit = Number(operator === "between" ? formula(2) : formula(1));
+        if (Number.isFinite(limit) && /less|between/i.test(operator)) {
+          rule = { maxLength: operator === "lessThan" ? limit - 1 : limit };
+        }
+        break;
+      }
+      case "whole":
+        rule = { type: "integer" };
+        break;
+      case "decimal":
+        rule = { type: "number" };
+        break;
+      case "date":
+        rule = { type: "date" };
+        break;
+    }
+    if (!rule) continue;
+    sqrefColumns(sqref).forEach((column) =>
+      rules.set(column, { ...rules.get(column), ...rule })
+    );
+  }
+  return rules;
+}
+
+/** "Item Type Keyword - [ shirt ]" → "item type keyword". */
+function labelKey(text: string): string {
+  return normalizeKey(text.replace(/\s*-\s*\[.*\]\s*$/, ""));
+}
+
+/**
+ * Dropdown lists kept on other sheets, laid out either one field per column
+ * (label on top, values below) or one field per row (label first, values to
+ * the right, as Amazon does).
+ */
+function validValueSheets(
+  workbook: XLSX.WorkBook,
+  templateSheet: string,
+  headerFor: (text: string) => string | undefined
+): Map<string, string[]> {
+  const lists = new Map<string, string[]>();
+  workbook.SheetNames.forEach((name) => {
+    // Hidden sheets also hold formulas and scratch data, so only the name
+    // decides, whether the sheet is hidden or not.
+    if (name === templateSheet) return;
+    if (!/valid|value|dropdown|list|lookup/i.test(name)) return;
+    const rows = sheetRows(workbook.Sheets[name]);
+    const across = rows
+      .slice(0, 3)
+      .flatMap((row) => row.filter((cell) => headerFor(cell))).length;
+    const down = rows.filter((row) =>
+      row.slice(0, 2).some((cell) => headerFor(cell))
+    ).length;
+
+    if (across > down) {
+      rows.slice(0, 3).forEach((row, r) =>
+        row.forEach((cell, c) => {
+          const header = headerFor(cell);
+          if (!header || lists.has(header)) return;
+          const values = rows
+            .slice(r + 1)
+            .map((below) => below[c] ?? "")
+            .filter(Boolean);
+          if (values.length) lists.set(header, Array.from(new Set(values)));
+        })
+      );
+      return;
+    }
+    rows.forEach((row) =>
+      [0, 1].forEach((c) => {
+        const header = headerFor(row[c] ?? "");
+        if (!header || lists.has(header)) return;
+        const values = row.slice(c + 1).filter(Boolean);
+        if (values.length) lists.set(header, Array.from(new Set(values)));
+      })
+    );
+  });
+  return lists;
+}
+
+type Definition = {
+  required: boolean | null;
+  maxLength: number | null;
+  dateFormat: string | null;
+};
+
+/** Required flags and length limits from a "Data Definitions" style sheet. */
+function definitionSheets(
+  workbook: XLSX.WorkBook,
+  headerFor: (text: string) => string | undefined
+): Map<string, Definition> {
+  const definitions = new Map<string, Definition>();
+  workbook.SheetNames.filter((name) =>
+    /definition|instruction|guide|help/i.test(name)
+  ).forEach((name) => {
+    const rows = sheetRows(workbook.Sheets[name]);
+    const top = rows
+      .slice(0, HEADER_SCAN)
+      .findIndex(
+        (row) =>
+          row.some((cell) => /field|label|attribute|column/i.test(cell)) &&
+          row.some((cell) => /required|mandatory/i.test(cell))
+      );
+    if (top < 0) return;
+    const labels = rows[top];
+    const nameColumns = labels
+      .map((cell, index) =>
+        /field|label|attribute|column/i.test(cell) ? index : -1
+      )
+      .filter((index) => index >= 0);
+    const requiredColumn = labels.findIndex((cell) =>
+      /required|mandatory/i.test(cell)
+    );
+    rows.slice(top + 1).forEach((row) => {
+      const header = nameColumns
+        .map((index) => headerFor(row[index] ?? ""))
+        .find(Boolean);
+      if (!header) return;
+      const length = /(\d+)\s*(?:characters|chars)\b/i.exec(row.join(" "));
+      definitions.set(header, {
+        required: requiredFrom(row[requiredColumn] ?? ""),
+        maxLength: length ? Number(length[1]) : null,
+        dateFormat: dateFormatIn(row.join(" ")),
+      });
+    });
+  });
+  return definitions;
+}
+
+/** The sheet listings go on: one named like "Template", else the first visible. */
+function templateSheetName(workbook: XLSX.WorkBook): string {
+  const visible = workbook.SheetNames.filter(
+    (_, index) => !workbook.Workbook?.Sheets?.[index]?.Hidden
+  );
+  return (
+    visible.find((name) => /template/i.test(name)) ??
+    visible[0] ??
+    workbook.SheetNames[0]
+  );
+}
+
+/** Reads a template's headers, existing rows and per-column rules. */
+export async function readTemplate(
+  bytes: ArrayBuffer
+): Promise<ParsedTemplate> {
+  const workbook = XLSX.read(bytes, { type: "array" });
+  const sheet = templateSheetName(workbook);
+  const rows = sheetRows(workbook.Sheets[sheet]);
+
+  const headerRow = findHeaderRow(rows);
+  const labels = rows[headerRow] ?? [];
+  const meta: { kind: MetaRow; row: string[] }[] = [];
+  for (
+    let index = headerRow + 1;
+    index < rows.length && meta.length < META_LIMIT;
+    index += 1
+  ) {
+    const kind = metaKind(rows[index]);
+    if (!kind) break;
+    meta.push({ kind, row: rows[index] });
+  }
+  const fields = meta.find((entry) => entry.kind === "field")?.row ?? [];
+  const markers = meta.find((entry) => entry.kind === "marker")?.row ?? [];
+
+  const headers: string[] = [];
+  const columns: Record<string, ColumnSchema> = {};
+  const byKey = new Map<string, string>();
+  const width = Math.max(labels.length, fields.length);
+  for (let index = 0; index < width; index += 1) {
+    const field = fields[index] || null;
+    const label = labels[index] || field;
+    if (!label) continue;
+    const header = columns[label] ? `${label} (${field ?? index + 1})` : label;
+    headers.push(header);
+    columns[header] = {
+      index,
+      field,
+      required: /\*\s*$|\((required|mandatory)\)/i.test(label)
+        ? true
+        : requiredFrom(markers[index] ?? ""),
+      allowedValues: [],
+      maxLength: null,
+      type: "text",
+      dateFormat: dateFormatIn(`${label} ${field ?? ""}`),
+    };
+    [label, field].forEach((text) => {
+      if (text && !byKey.has(labelKey(text))) {
+        byKey.set(labelKey(text), header);
+      }
+    });
+  }
+  const headerFor = (text: string) =>
+    text ? byKey.get(labelKey(text)) : undefined;
+
+  definitionSheets(workbook, headerFor).forEach((definition, header) => {
+    const column = columns[header];
+    column.required ??= definition.required;
+    column.maxLength ??= definition.maxLength;
+    column.dateFormat ??= definition.dateFormat;
+  });
+  validValueSheets(workbook, sheet, headerFor).forEach((values, header) => {
+    columns[header].allowedValues = values;
+  });
+  const validations = await readValidations(bytes, sheet, workbook);
+  Object.values(columns).forEach((column) => {
+    Object.assign(column, validations.get(column.index));
+    if (column.dateFormat && column.type === "text") column.type = "date";
+  });
+
+  const dataStartRow = headerRow + 1 + meta.length;
+  const data: SheetRow[] = rows
+    .slice(dataStartRow)
+    .filter((row) => row.some(Boolean))
+    .map((row) => {
+      const record: SheetRow = {};
+      headers.forEach((header) => {
+        record[header] = row[columns[header].index] ?? "";
+      });
+      return record;
+    });
+
+  return {
+    data: { headers, rows: data },
+    schema: { sheet, headerRow, dataStartRow, columns },
+  };
+}
+
+/**
+ * Fits a generated value to its column where that is unambiguous: the
+ * dropdown's own spelling of a value ("navy blue" → "Navy Blue") and plain
+ * digits for grouped numbers ("1,299" → "1299"). Anything else is left for
+ * validation to report.
+ */
+export function constrainValue(column: ColumnSchema, value: string): string {
+  const trimmed = value.trim();
+  if (!trimmed) return value;
+  if (column.allowedValues.length) {
+    const key = normalizeKey(trimmed);
+    return (
+      column.allowedValues.find((allowed) => allowed === trimmed) ??
+      column.allowedValues.find((allowed) => normalizeKey(allowed) === key) ??
+      value
+    );
+  }
+  if (
+    (column.type === "number" || column.type === "integer") &&
+    /^\d{1,3}(,\d{2,3})+(\.\d+)?$/.test(trimmed)
+  ) {
+    return trimmed.replace(/,/g, "");
+  }
+  return value;
+}
+
+const dateFormatPattern =
+  /\b(dd|mm|yyyy|yy)([-/.])(dd|mm|yyyy|yy)\2(dd|mm|yyyy|yy)\b/i;
+
+/** "Launch Date (dd/mm/yyyy)" → "DD/MM/YYYY". */
+function dateFormatIn(text: string): string | null {
+  const match = dateFormatPattern.exec(text);
+  return match ? match[0].toUpperCase() : null;
+}
+
+/** Formats tried when the template names none. */
+const commonDateFormats = [
+  "YYYY-MM-DD",
+  "DD/MM/YYYY",
+  "DD-MM-YYYY",
+  "MM/DD/YYYY",
+];
+
+function matchesDateFormat(value: string, format: string): boolean {
+  const parts = value.split(/[-/.]/);
+  const order = format.split(/[-/.]/);
+  if (parts.length !== 3 || !parts.every((part) => /^\d+$/.test(part))) {
+    return false;
+  }
+  let day = 0;
+  let month = 0;
+  let year = 0;
+  for (const [index, unit] of order.entries()) {
+    const part = parts[index];
+    if (
+      part.length > unit.length ||
+      (unit.startsWith("Y") && part.length !== unit.length)
+    ) {
+      return false;
+    }
+    if (unit === "DD") day = Number(part);
+    else if (unit === "MM") month = Number(part);
+    else year = unit === "YY" ? 2000 + Number(part) : Number(part);
+  }
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Whether a value is a real calendar date in the template's format, or in a
+ * common one (ISO, day-first, month-first) when the template names none.
+ */
+function isTemplateDate(value: string, format: string | null): boolean {
+  // A time after the date ("2024-03-12T10:00", "12/03/2024 10:00") is fine.
+  const trimmed = value.trim().replace(/(T|\s+)\d{1,2}:\d{2}.*$/, "");
+  return (format ? [format] : commonDateFormats).some((entry) =>
+    matchesDateFormat(trimmed, entry)
+  );
+}
+
+/** Why a value breaks its column's rules, or null. */
+export function columnProblem(
+  column: ColumnSchema,
+  value: string
+): string | null {
+  if (!value) return column.required ? "is required by the template" : null;
+  if (column.allowedValues.length && !column.allowedValues.includes(value)) {
+    return `"${value}" is not one of the template's ${column.allowedValues.length} allowed values`;
+  }
+  if (column.maxLength !== null && value.length > column.maxLength) {
+    return `is ${value.length} characters (template max ${column.maxLength})`;
+  }
+  if (column.type === "integer" && !/^-?\d+$/.test(value)) {
+    return "must be a whole number";
+  }
+  if (column.type === "number" && Number.isNaN(Number(value))) {
+    return "must be a number";
+  }
+  if (column.type === "date" && !isTemplateDate(value, column.dateFormat)) {
+    return column.dateFormat
+      ? `must be a date written ${column.dateFormat}`
+      : "must be a date";
+  }
+  return null;
+}
+
+/** Short description of a column's rules for the mapping UI. */
+export function describeColumn(column: ColumnSchema): string[] {
+  const parts: string[] = [];
+  if (column.allowedValues.length) {
+    parts.push(
+      `${column.allowedValues.length} allowed value${
+        column.allowedValues.length === 1 ? "" : "s"
+      }`
+    );
+  }
+  if (column.maxLength !== null) parts.push(`max ${column.maxLength} chars`);
+  if (column.type === "date" && column.dateFormat) {
+    parts.push(`date ${column.dateFormat}`);
+  } else if (column.type !== "text") {
+    parts.push(column.type);
+  }
+  return parts;
+}
@@ -0,0 +1,175 @@
+import OpenAI from "openai";
+
+/**
+ * Speech-to-text backends for browsers without the Web Speech API. The
+ * browser records audio and posts it to /api/transcribe, which hands it to
+ * the backend picked from the environment:
+ *
+ *   STT_PROVIDER   "openai" | "whisper-cpp" | "mock"
+ *   STT_MODEL      model for the OpenAI backend (whisper-1)
+ *   STT_BASE_URL   whisper.cpp server root, e.g. http://localhost:8080
+ *                  (start it with --convert so it accepts webm/ogg audio),
+ *                  or an OpenAI-compatible root with STT_PROVIDER=openai
+ *   STT_API_KEY    falls back to LLM_API_KEY, then OPENAI_API_KEY
+ *
+ * Without STT_PROVIDER, STT_BASE_URL selects whisper.cpp and otherwise a key
+ * selects OpenAI; with neither, transcription is off.
+ */
+
+export type TranscriberName = "openai" | "whisper-cpp" | "mock";
+
+export type TranscriptionConfig = {
+  provider: TranscriberName;
+  model: string;
+  baseURL?: string;
+  apiKey?: string;
+};
+
+export type TranscriptionRequest = {
+  audio: File;
+  /** ISO 639-1 code such as "hi"; omitted to let the backend detect it. */
+  language?: string;
+};
+
+export interface Transcriber {
+  readonly name: TranscriberName;
+  transcribe(request: TranscriptionRequest): Promise<string>;
+}
+
+/** Upload cap, matching the OpenAI transcription limit. */
+export const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+
+const DEFAULT_MODEL = "whisper-1";
+
+type Env = Record<string, string | undefined>;
+
+/** Reads the backend configuration, or `null` when none is set up. */
+export function loadTranscriptionConfig(
+  env: Env = process.env
+): TranscriptionConfig | null {
+  const apiKey =
+    env.STT_API_KEY || env.LLM_API_KEY || env.OPENAI_API_KEY || undefined;
+  const baseURL = env.STT_BASE_URL || undefined;
+  const requested = env.STT_PROVIDER?.trim().toLowerCase();
+
+  let provider: TranscriberName | null = null;
+  if (
+    requested === "openai" ||
+    requested === "whisper-cpp" ||
+    requested === "mock"
+  ) {
+    provider = requested;
+  } else if (requested) {
+    throw new Error(`Unknown STT_PROVIDER "${env.STT_PROVIDER}".`);
+  } else if (baseURL) {
+    provider = "whisper-cpp";
+  } else if (apiKey) {
+    provider = "openai";
+  }
+  if (!provider) return null;
+  if (provider === "openai" && !apiKey && !baseURL) return null;
+  if (provider === "whisper-cpp" && !baseURL) {
+    throw new Error("STT_BASE_URL is required for whisper-cpp.");
+  }
+
+  return {
+    provider,
+    model: env.STT_MODEL || DEFAULT_MODEL,
+    baseURL,
+    apiKey,
+  };
+}
+
+/** "hi-IN" → "hi"; anything that is not a language tag is dropped. */
+export function languageCode(locale: unknown): string | undefined {
+  if (typeof locale !== "string") return undefined;
+  const match = /^([a-z]{2,3})(?:[-_][a-z0-9]+)*$/i.exec(locale.trim());
+  return match ? match[1].toLowerCase() : undefined;
+}
+
+function openAITranscriber(config: TranscriptionConfig): Transcriber {
+  const client = new OpenAI({
+    apiKey: config.apiKey ?? "local",
+    baseURL: config.baseURL,
+  });
+  return {
+    name: "openai",
+    async transcribe({ audio, language }) {
+      const result = await client.audio.transcriptions.create({
+        file: audio,
+        model: config.model,
+        language,
+      });
+      return result.text.trim();
+    },
+  };
+}
+
+/** The `/inference` endpoint of the server bundled with whisper.cpp. */
+function whisperCppTranscriber(config: TranscriptionConfig): Transcriber {
+  const endpoint = `${config.baseURL!.replace(/\/+$/, "")}/inference`;
+  return {
+    name: "whisper-cpp",
+    async transcribe({ audio, language }) {
+      const form = new FormData();
+      form.append("file", audio, audio.name || "audio.webm");
+      form.append("response_format", "json");
+      form.append("temperature", "0");
+      if (language) form.append("language", language);
+      const response = await fetch(endpoint, { method: "POST", body: form });
+      if (!response.ok) {
+        const detail = await response.text();
+        throw new Error(`whisper.cpp returned ${response.status}: ${detail}`);
+      }
+      const data = await response.json();
+      return typeof data.text === "string" ? data.text.trim() : "";
+    },
+  };
+}
+
+/**
+ * Offline stand-in for development and tests. Replies with STT_MOCK_TEXT, or
+ * a description of the upload when that is unset.
+ */
+function mockTranscriber(env: Env): Transcriber {
+  return {
+    name: "mock",
+    async transcribe({ audio, language }) {
+      return (
+        env.STT_MOCK_TEXT ||
+        `[mock transcript of ${audio.size} bytes${
+          language ? ` in ${language}` : ""
+        }]`
+      );
+    },
+  };
+}
+
+export function createTranscriber(
+  config: TranscriptionConfig,
+  env: Env = process.env
+): Transcriber {
+  switch (config.provider) {
+    case "openai":
+      return openAITranscriber(config);
+    case "whisper-cpp":
+      return whisperCppTranscriber(config);
+    case "mock":
+      return mockTranscriber(env);
+  }
+}
+
+let cached: { key: string; transcriber: Transcriber | null } | null = null;
+
+/** Backend for the current environment, or `null` when none is configured. */
+export function getTranscriber(env: Env = process.env): Transcriber | null {
+  const config = loadTranscriptionConfig(env);
+  const key = JSON.stringify([config, env.STT_MOCK_TEXT]);
+  if (cached?.key !== key) {
+    cached = {
+      key,
+      transcriber: config ? createTranscriber(config, env) : null,
+    };
+  }
+  return cached.transcriber;
+}
@@ -0,0 +1,243 @@
+import type { SheetRow } from "@/lib/sheet";
+import { Marketplace, resolveHeaders } from "@/lib/catalog";
+import { TemplateSchema, columnProblem } from "@/lib/templateSchema";
+
+export type Severity = "error" | "warning";
+
+type RuleBase = {
+  /** `synonymMatrix` concept or header phrase, resolved against the template. */
+  field: string;
+  severity?: Severity;
+  message?: string;
+};
+
+export type ValidationRule =
+  | (RuleBase & { kind: "required" })
+  | (RuleBase & { kind: "maxLength"; max: number })
+  | (RuleBase & { kind: "enum"; values: string[] })
+  | (RuleBase & { kind: "range"; min?: number; max?: number })
+  | (RuleBase & { kind: "compare"; op: "<=" | ">="; other: string });
+
+export type ValidationIssue = {
+  /**
+   * Zero-based index into the generated rows, or -1 for template-level
+   * issues, which are always warnings.
+   */
+  row: number;
+  header: string | null;
+  severity: Severity;
+  message: string;
+};
+
+export type ValidationReport = {
+  issues: ValidationIssue[];
+  byCell: Record<string, ValidationIssue[]>;
+  errorCount: number;
+  warningCount: number;
+};
+
+const genders = ["Men", "Women", "Boys", "Girls", "Unisex"];
+
+/** Fields that only apply to sellable children, not variation parent rows. */
+const childOnlyFields = ["price", "mrp", "quantity", "size", "color"];
+
+export const marketplaceRules: Record<Marketplace, ValidationRule[]> = {
+  Amazon: [
+    { kind: "required", field: "sku" },
+    { kind: "required", field: "title" },
+    { kind: "required", field: "brand" },
+    { kind: "required", field: "price" },
+    { kind: "maxLength", field: "title", max: 200 },
+    { kind: "maxLength", field: "bullet", max: 500, severity: "warning" },
+    { kind: "range", field: "price", min: 0.01 },
+    { kind: "range", field: "quantity", min: 0 },
+    { kind: "compare", field: "price", op: "<=", other: "mrp" },
+    { kind: "required", field: "image", severity: "warning" },
+  ],
+  Flipkart: [
+    { kind: "required", field: "sku" },
+    { kind: "required", field: "title" },
+    { kind: "required", field: "brand" },
+    { kind: "required", field: "mrp" },
+    { kind: "required", field: "price" },
+    { kind: "maxLength", field: "title", max: 150, severity: "warning" },
+    { kind: "range", field: "mrp", min: 0.01 },
+    { kind: "range", field: "quantity", min: 0 },
+    {
+      kind: "compare",
+      field: "mrp",
+      op: ">=",
+      other: "price",
+      message:
+        "Flipkart MRP must be greater than or equal to the selling price.",
+    },
+  ],
+  Meesho: [
+    { kind: "required", field: "title" },
+    { kind: "required", field: "price" },
+    {
+      kind: "required",
+      field: "image",
+      message: "Meesho rejects listings without at least one image.",
+    },
+    { kind: "maxLength", field: "title", max: 100, severity: "warning" },
+    { kind: "range", field: "price", min: 0.01 },
+    { kind: "compare", field: "price", op: "<=", other: "mrp" },
+  ],
+  Myntra: [
+    { kind: "required", field: "sku" },
+    { kind: "required", field: "brand" },
+    { kind: "required", field: "gender" },
+    { kind: "required", field: "article type" },
+    { kind: "required", field: "mrp" },
+    { kind: "enum", field: "gender", values: genders },
+    { kind: "maxLength", field: "title", max: 100, severity: "warning" },
+    { kind: "compare", field: "price", op: "<=", other: "mrp" },
+  ],
+};
+
+export function cellKey(row: number, header: string): string {
+  return `${row}:${header}`;
+}
+
+/** Reads the first number out of a cell, e.g. "Rs. 1,299" -> 1299. */
+export function parseNumber(value: string | undefined): number {
+  const match = /-?(\d+(\.\d+)?|\.\d+)/.exec((value ?? "").replace(/,/g, ""));
+  return match ? Number(match[0]) : NaN;
+}
+
+function checkValue(
+  rule: ValidationRule,
+  value: string,
+  row: SheetRow,
+  headers: string[]
+): string | null {
+  switch (rule.kind) {
+    case "required":
+      return value ? null : "is required";
+    case "maxLength":
+      return value.length > rule.max
+        ? `is ${value.length} characters (max ${rule.max})`
+        : null;
+    case "enum":
+      if (!value) return null;
+      return rule.values.some(
+        (allowed) => allowed.toLowerCase() === value.toLowerCase()
+      )
+        ? null
+        : `must be one of ${rule.values.join(", ")}`;
+    case "range": {
+      if (!value) return null;
+      const number = parseNumber(value);
+      if (Number.isNaN(number)) return "must be a number";
+      if (rule.min !== undefined && number < rule.min) {
+        return `must be at least ${rule.min}`;
+      }
+      if (rule.max !== undefined && number > rule.max) {
+        return `must be at most ${rule.max}`;
+      }
+      return null;
+    }
+    case "compare": {
+      const otherHeader = resolveHeaders(headers, rule.other)[0];
+      if (!value || !otherHeader || !row[otherHeader]) return null;
+      const left = parseNumber(value);
+      const right = parseNumber(row[otherHeader]);
+      if (Number.isNaN(left) || Number.isNaN(right)) return null;
+      const ok = rule.op === "<=" ? left <= right : left >= right;
+      return ok ? null : `must be ${rule.op} ${otherHeader} (${right})`;
+    }
+  }
+}
+
+/** `found` carries issues raised earlier, e.g. values `normalizeRows` rejected. */
+export function validateRows(
+  marketplace: Marketplace,
+  headers: string[],
+  rows: SheetRow[],
+  found: ValidationIssue[] = [],
+  schema: TemplateSchema | null = null
+): ValidationReport {
+  const issues: ValidationIssue[] = [...found];
+  const parentageHeader =
+    resolveHeaders(headers, "parent child")[0] ??
+    resolveHeaders(headers, "parentage")[0];
+  const isParentRow = (row: SheetRow) =>
+    Boolean(parentageHeader) &&
+    (row[parentageHeader] ?? "").toLowerCase() === "parent";
+
+  marketplaceRules[marketplace].forEach((rule) => {
+    const severity = rule.severity ?? "error";
+    const targets = resolveHeaders(headers, rule.field);
+
+    if (!targets.length) {
+      // Nothing in the app can add a column to the marketplace's own
+      // template, so a missing one is reported but never blocks the export.
+      if (rule.kind === "required") {
+        issues.push({
+          row: -1,
+          header: null,
+          severity: "warning",
+          message:
+            rule.message ??
+            `${marketplace} template has no "${rule.field}" column; the upload may be rejected without it.`,
+        });
+      }
+      return;
+    }
+
+    rows.forEach((row, index) => {
+      if (childOnlyFields.includes(rule.field) && isParentRow(row)) return;
+      targets.forEach((header) => {
+        const problem = checkValue(rule, row[header] ?? "", row, headers);
+        if (problem) {
+          issues.push({
+            row: index,
+            header,
+            severity,
+            message: rule.message ?? `${header} ${problem}.`,
+          });
+        }
+      });
+    });
+  });
+
+  // The template's own rules, for cells nothing above has flagged already.
+  if (schema) {
+    const flagged = new Set(
+      issues.map((issue) => issue.header && cellKey(issue.row, issue.header))
+    );
+    headers.forEach((header) => {
+      const column = schema.columns[header];
+      if (!column) return;
+      rows.forEach((row, index) => {
+        const value = row[header] ?? "";
+        if (flagged.has(cellKey(index, header))) return;
+        if (!value && isParentRow(row)) return;
+        const problem = columnProblem(column, value);
+        if (problem) {
+          issues.push({
+            row: index,
+            header,
+            severity: "error",
+            message: `${header} ${problem}.`,
+          });
+        }
+      });
+    });
+  }
+
+  const byCell: Record<string, ValidationIssue[]> = {};
+  issues.forEach((issue) => {
+    if (!issue.header) return;
+    const key = cellKey(issue.row, issue.header);
+    (byCell[key] ??= []).push(issue);
+  });
+
+  return {
+    issues,
+    byCell,
+    errorCount: issues.filter((issue) => issue.severity === "error").length,
+    warningCount: issues.filter((issue) => issue.severity === "warning").length,
+  };
+}
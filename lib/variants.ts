@@ -0,0 +1,332 @@
+import type { SheetData, SheetRow } from "@/lib/sheet";
+import { Marketplace, normalizeKey, resolveHeaders } from "@/lib/catalog";
+
+export type VariationTheme = "Size" | "Color" | "SizeColor";
+
+export type VariantGroup = {
+  parentSku: string;
+  theme: VariationTheme;
+  /** Raw row indices of the children, in sheet order. */
+  rows: number[];
+  source: "parent-column" | "title-cluster";
+};
+
+type VariantSchema = {
+  /** Whether the channel expects a standalone parent row above its children. */
+  parentRow: boolean;
+  parentage?: string[];
+  parentSku: string[];
+  relationship?: string[];
+  theme?: string[];
+  themeNames: Record<VariationTheme, string>;
+};
+
+const variantSchemas: Record<Marketplace, VariantSchema> = {
+  Amazon: {
+    parentRow: true,
+    parentage: ["parent child", "parentage"],
+    parentSku: ["parent sku"],
+    relationship: ["relationship type"],
+    theme: ["variation theme"],
+    themeNames: { Size: "Size", Color: "Color", SizeColor: "SizeColor" },
+  },
+  Flipkart: {
+    parentRow: true,
+    parentage: ["parentage", "listing type"],
+    parentSku: ["parent sku", "group id", "style code"],
+    theme: ["variation theme", "variant theme"],
+    themeNames: { Size: "size", Color: "color", SizeColor: "size_color" },
+  },
+  Meesho: {
+    parentRow: false,
+    parentSku: ["catalog id", "group id", "parent sku"],
+    themeNames: { Size: "Size", Color: "Color", SizeColor: "Size & Color" },
+  },
+  Myntra: {
+    parentRow: false,
+    parentSku: ["style group id", "style id", "parent sku"],
+    theme: ["variation theme"],
+    themeNames: { Size: "Size", Color: "Colour", SizeColor: "Size-Colour" },
+  },
+};
+
+const parentColumnNames = [
+  "parent sku",
+  "parent id",
+  "group id",
+  "style id",
+  "style code",
+  "variant group",
+];
+
+const sizeWord = /^(xxs|xs|s|m|l|xl|xxl|xxxl|\dxl|free size|size \w+|\d{1,2})$/;
+
+function firstHeader(headers: string[], phrases: string[]): string | undefined {
+  return phrases
+    .map((phrase) => resolveHeaders(headers, phrase)[0])
+    .find(Boolean);
+}
+
+function childSkuHeader(headers: string[]): string | undefined {
+  return resolveHeaders(
+    headers.filter((header) => !normalizeKey(header).includes("parent")),
+    "sku"
+  )[0];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function stripVariantWords(title: string, values: string[]): string {
+  return values
+    .filter(Boolean)
+    .reduce(
+      (text, value) =>
+        text.replace(new RegExp(`\\b${escapeRegExp(value)}\\b`, "gi"), ""),
+      title
+    )
+    .replace(/\s*[-,/|(]\s*[-,/|)]?\s*$/, "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+/**
+ * Drops size words from the end of a normalised title: "cotton tee xl" →
+ * "cotton tee". With a size column only its values count as sizes, so
+ * "iphone 12 case" or "pack of 2" stay apart from their neighbours.
+ */
+function stripTrailingSizes(key: string, sizes: Set<string> | null): string {
+  const isSize = (phrase: string) =>
+    sizes ? sizes.has(phrase) : sizeWord.test(phrase);
+  const words = key.split(" ").filter(Boolean);
+  while (words.length > 1) {
+    if (words.length > 2 && isSize(words.slice(-2).join(" "))) {
+      words.splice(-2);
+    } else if (isSize(words[words.length - 1])) {
+      words.pop();
+    } else {
+      break;
+    }
+  }
+  return words.join(" ");
+}
+
+function commonPrefix(values: string[]): string {
+  if (!values.length) return "";
+  let prefix = values[0];
+  values.slice(1).forEach((value) => {
+    while (!value.startsWith(prefix)) prefix = prefix.slice(0, -1);
+  });
+  return prefix.replace(/[-_\s/]+$/, "");
+}
+
+function themeFor(
+  rows: SheetRow[],
+  sizeHeader?: string,
+  colorHeader?: string
+): VariationTheme | null {
+  const distinct = (header?: string) =>
+    header
+      ? new Set(rows.map((row) => normalizeKey(row[header] ?? ""))).size > 1
+      : false;
+  const sizeVaries = distinct(sizeHeader);
+  const colorVaries = distinct(colorHeader);
+  if (sizeVaries && colorVaries) return "SizeColor";
+  if (sizeVaries) return "Size";
+  if (colorVaries) return "Color";
+  return null;
+}
+
+/**
+ * Finds parent/child families in the raw sheet, either from an explicit parent
+ * SKU column or by clustering titles that differ only in size and colour.
+ */
+export function detectVariantGroups(raw: SheetData): VariantGroup[] {
+  const skuHeader = childSkuHeader(raw.headers);
+  const sizeHeader = resolveHeaders(raw.headers, "size")[0];
+  const colorHeader = resolveHeaders(raw.headers, "color")[0];
+  const parentHeader = raw.headers.find((header) =>
+    parentColumnNames.includes(normalizeKey(header))
+  );
+
+  const buckets = new Map<string, number[]>();
+  const source: VariantGroup["source"] = parentHeader
+    ? "parent-column"
+    : "title-cluster";
+
+  if (parentHeader) {
+    raw.rows.forEach((row, index) => {
+      const parent = (row[parentHeader] ?? "").trim();
+      if (parent) buckets.set(parent, [...(buckets.get(parent) ?? []), index]);
+    });
+  } else {
+    const titleHeader =
+      resolveHeaders(raw.headers, "title")[0] ??
+      raw.headers.find((header) => normalizeKey(header).includes("name"));
+    if (!titleHeader) return [];
+    const sizes = sizeHeader
+      ? new Set(
+          raw.rows
+            .map((row) => normalizeKey(row[sizeHeader] ?? ""))
+            .filter(Boolean)
+        )
+      : null;
+
+    raw.rows.forEach((row, index) => {
+      let key = ` ${normalizeKey(row[titleHeader] ?? "")} `;
+      [sizeHeader, colorHeader].forEach((header) => {
+        const value = header ? normalizeKey(row[header] ?? "") : "";
+        if (value) key = key.split(` ${value} `).join(" ");
+      });
+      key = stripTrailingSizes(key, sizes);
+      if (key) buckets.set(key, [...(buckets.get(key) ?? []), index]);
+    });
+  }
+
+  const groups: VariantGroup[] = [];
+  buckets.forEach((indices, key) => {
+    if (indices.length < 2) return;
+    const rows = indices.map((index) => raw.rows[index]);
+    const theme = themeFor(rows, sizeHeader, colorHeader);
+    if (!theme) return;
+
+    const skus = skuHeader
+      ? rows.map((row) => (row[skuHeader] ?? "").trim()).filter(Boolean)
+      : [];
+    const prefix = commonPrefix(skus);
+    const parentSku =
+      source === "parent-column"
+        ? key
+        : prefix.length >= 3
+        ? prefix
+        : `${skus[0] ?? `GROUP-${groups.length + 1}`}-PARENT`;
+
+    groups.push({ parentSku, theme, rows: indices, source });
+  });
+
+  return groups;
+}
+
+/**
+ * Output row indices of each variation family in channel rows, whether
+ * `expandVariantRows` built them or the parent column was mapped directly.
+ * Children share a parent SKU; a parent row is keyed by its own SKU.
+ */
+export function variantFamilies(
+  marketplace: Marketplace,
+  headers: string[],
+  rows: SheetRow[]
+): number[][] {
+  const schema = variantSchemas[marketplace];
+  const sku = childSkuHeader(headers);
+  const parentage = schema.parentage && firstHeader(headers, schema.parentage);
+  const parentSku = firstHeader(headers, schema.parentSku);
+  if (!parentSku) return [];
+
+  const families = new Map<string, number[]>();
+  rows.forEach((row, index) => {
+    const isParent =
+      Boolean(parentage) &&
+      (row[parentage!] ?? "").trim().toLowerCase() === "parent";
+    const key = ((isParent && sku ? row[sku] : row[parentSku]) ?? "").trim();
+    if (key) families.set(key, [...(families.get(key) ?? []), index]);
+  });
+  return Array.from(families.values()).filter((family) => family.length > 1);
+}
+
+/**
+ * Rewrites filled template rows into variation families for the channel:
+ * relationship columns on every child and, where the channel wants one, a
+ * parent row carrying the shared copy ahead of its children.
+ */
+export function expandVariantRows(
+  marketplace: Marketplace,
+  headers: string[],
+  rows: SheetRow[],
+  groups: VariantGroup[]
+): SheetRow[] {
+  if (!groups.length) return rows;
+
+  const schema = variantSchemas[marketplace];
+  const columns = {
+    sku: childSkuHeader(headers),
+    parentage: schema.parentage && firstHeader(headers, schema.parentage),
+    parentSku: firstHeader(headers, schema.parentSku),
+    relationship:
+      schema.relationship && firstHeader(headers, schema.relationship),
+    theme: schema.theme && firstHeader(headers, schema.theme),
+    title: resolveHeaders(headers, "title")[0],
+    size: resolveHeaders(headers, "size")[0],
+    color: resolveHeaders(headers, "color")[0],
+  };
+  // Per-variant values that make no sense on a parent row.
+  const childOnly = new Set(
+    ["size", "color", "price", "mrp", "quantity"].flatMap((field) =>
+      resolveHeaders(headers, field)
+    )
+  );
+
+  const groupByRow = new Map<number, VariantGroup>();
+  groups.forEach((group) =>
+    group.rows.forEach((index) => groupByRow.set(index, group))
+  );
+
+  const output: SheetRow[] = [];
+  const emitted = new Set<VariantGroup>();
+
+  rows.forEach((row, index) => {
+    const group = groupByRow.get(index);
+    if (!group) {
+      // Standalone listings carry no relationship data.
+      const standalone: SheetRow = { ...row };
+      [columns.parentage, columns.relationship, columns.theme].forEach(
+        (header) => {
+          if (header) standalone[header] = "";
+        }
+      );
+      if (columns.parentSku && columns.parentSku !== columns.sku) {
+        standalone[columns.parentSku] = "";
+      }
+      output.push(standalone);
+      return;
+    }
+    // Families are emitted together at the position of their first child.
+    if (emitted.has(group)) return;
+    emitted.add(group);
+
+    const themeName = schema.themeNames[group.theme];
+
+    if (schema.parentRow) {
+      const parent: SheetRow = {};
+      headers.forEach((header) => {
+        parent[header] = childOnly.has(header) ? "" : row[header] ?? "";
+      });
+      if (columns.title) {
+        parent[columns.title] = stripVariantWords(row[columns.title] ?? "", [
+          columns.size ? row[columns.size] ?? "" : "",
+          columns.color ? row[columns.color] ?? "" : "",
+        ]);
+      }
+      if (columns.sku) parent[columns.sku] = group.parentSku;
+      if (columns.parentage) parent[columns.parentage] = "parent";
+      if (columns.parentSku && columns.parentSku !== columns.sku) {
+        parent[columns.parentSku] = "";
+      }
+      if (columns.relationship) parent[columns.relationship] = "";
+      if (columns.theme) parent[columns.theme] = themeName;
+      output.push(parent);
+    }
+
+    group.rows.forEach((childIndex) => {
+      const child: SheetRow = { ...rows[childIndex] };
+      if (columns.parentage) child[columns.parentage] = "child";
+      if (columns.parentSku) child[columns.parentSku] = group.parentSku;
+      if (columns.relationship) child[columns.relationship] = "Variation";
+      if (columns.theme) child[columns.theme] = themeName;
+      output.push(child);
+    });
+  });
+
+  return output;
+}
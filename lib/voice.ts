@@ -0,0 +1,175 @@
+export type VoiceLanguageId = "en" | "hinglish" | "hi" | "ta" | "bn";
+
+export type VoiceLanguage = {
+  id: VoiceLanguageId;
+  label: string;
+  /** BCP 47 tag for speech recognition and synthesis. */
+  locale: string;
+  /** Synthesis voices to try, best first, when no voice matches `locale`. */
+  voiceLocales: string[];
+  /** Reply-language instruction for the model. */
+  instruction: string;
+  /** How recognisers in this language tend to write "Jarvis". */
+  wakeAliases: string[];
+};
+
+export const voiceLanguages: VoiceLanguage[] = [
+  {
+    id: "en",
+    label: "English",
+    locale: "en-US",
+    voiceLocales: ["en-IN", "en"],
+    instruction: "Reply in English.",
+    wakeAliases: [],
+  },
+  {
+    id: "hinglish",
+    label: "Hinglish",
+    locale: "en-IN",
+    voiceLocales: ["en-IN", "hi-IN", "en"],
+    instruction:
+      "Reply in Hinglish: conversational Hindi mixed with English, written in Latin script.",
+    wakeAliases: ["जार्विस"],
+  },
+  {
+    id: "hi",
+    label: "हिन्दी (Hindi)",
+    locale: "hi-IN",
+    voiceLocales: ["hi-IN", "hi"],
+    instruction: "Reply in Hindi, written in Devanagari script.",
+    wakeAliases: ["जार्विस", "जारविस"],
+  },
+  {
+    id: "ta",
+    label: "தமிழ் (Tamil)",
+    locale: "ta-IN",
+    voiceLocales: ["ta-IN", "ta"],
+    instruction: "Reply in Tamil, written in Tamil script.",
+    wakeAliases: ["ஜார்விஸ்", "ஜார்வீஸ்"],
+  },
+  {
+    id: "bn",
+    label: "বাংলা (Bengali)",
+    locale: "bn-IN",
+    voiceLocales: ["bn-IN", "bn-BD", "bn"],
+    instruction: "Reply in Bengali, written in Bengali script.",
+    wakeAliases: ["জার্ভিস", "জারভিস"],
+  },
+];
+
+export const DEFAULT_LANGUAGE: VoiceLanguageId = "en";
+
+export function findLanguage(id: unknown): VoiceLanguage | undefined {
+  return voiceLanguages.find((language) => language.id === id);
+}
+
+/**
+ * Best installed synthesis voice for a language: an exact locale match, then
+ * the fallbacks in order, then any voice sharing the base language.
+ */
+export function pickVoice(
+  voices: SpeechSynthesisVoice[],
+  language: VoiceLanguage
+): SpeechSynthesisVoice | null {
+  const tag = (voice: SpeechSynthesisVoice) =>
+    voice.lang.replace("_", "-").toLowerCase();
+  for (const locale of [language.locale, ...language.voiceLocales]) {
+    const wanted = locale.toLowerCase();
+    const matches = voices.filter(
+      (voice) => tag(voice) === wanted || tag(voice).startsWith(`${wanted}-`)
+    );
+    if (matches.length) {
+      return matches.find((voice) => voice.localService) ?? matches[0];
+    }
+  }
+  return null;
+}
+
+/** Voice cockpit settings kept in the browser between visits. */
+export type VoiceSettings = {
+  wakePhrase: string;
+  language: VoiceLanguageId;
+};
+
+export const DEFAULT_WAKE_PHRASE = "Jarvis";
+
+/** Quiet time after the last recognised word that ends a hands-free turn. */
+export const END_OF_TURN_SILENCE_MS = 1400;
+
+/** How long a bare wake phrase keeps Jarvis waiting for the command. */
+export const WAKE_WINDOW_MS = 8000;
+
+const STORAGE_KEY = "jarvis.voice-settings";
+
+export const defaultVoiceSettings: VoiceSettings = {
+  wakePhrase: DEFAULT_WAKE_PHRASE,
+  language: DEFAULT_LANGUAGE,
+};
+
+export function loadVoiceSettings(): VoiceSettings {
+  if (typeof window === "undefined") return defaultVoiceSettings;
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "{}");
+    return {
+      wakePhrase:
+        typeof stored.wakePhrase === "string" && stored.wakePhrase.trim()
+          ? stored.wakePhrase
+          : DEFAULT_WAKE_PHRASE,
+      language: findLanguage(stored.language)?.id ?? DEFAULT_LANGUAGE,
+    };
+  } catch {
+    return defaultVoiceSettings;
+  }
+}
+
+export function saveVoiceSettings(settings: VoiceSettings): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Finds the wake phrase in a transcript and returns what was said after its
+ * last occurrence: `null` when the phrase was not spoken, `""` when it was
+ * spoken on its own. Matching ignores case and punctuation, so "Hey,
+ * Jarvis!" wakes "jarvis".
+ */
+export function afterWakePhrase(
+  transcript: string,
+  wakePhrase: string
+): string | null {
+  const phrase = words(wakePhrase);
+  const spoken = transcript.trim().split(/\s+/).filter(Boolean);
+  const normalised = spoken.map((word) => words(word).join(""));
+  if (!phrase.length) return transcript.trim();
+  for (let start = spoken.length - phrase.length; start >= 0; start -= 1) {
+    if (phrase.every((word, offset) => normalised[start + offset] === word)) {
+      return spoken
+        .slice(start + phrase.length)
+        .join(" ")
+        .replace(/^[\s,.!?:;-]+/, "");
+    }
+  }
+  return null;
+}
+
+/**
+ * Wake phrases to listen for: the configured one, plus its spellings in the
+ * recognition language while it is still the default "Jarvis".
+ */
+export function wakePhrases(
+  wakePhrase: string,
+  language: VoiceLanguage
+): string[] {
+  const phrase = wakePhrase.trim() || DEFAULT_WAKE_PHRASE;
+  return phrase.toLowerCase() === DEFAULT_WAKE_PHRASE.toLowerCase()
+    ? [phrase, ...language.wakeAliases]
+    : [phrase];
+}
@@ -0,0 +1,128 @@
+import {
+  Mapping,
+  MappingEntry,
+  Marketplace,
+  isExpression,
+  marketplaces,
+} from "@/lib/catalog";
+
+/**
+ * Bridge between the Catalog Autopilot and the assistant. The catalog panel
+ * publishes a compact snapshot of its state, the voice panel sends that
+ * snapshot with each request, and catalog tool calls come back as
+ * `CatalogAction`s dispatched on `window` for the catalog panel to apply.
+ */
+
+export type ChannelSnapshot = { templateHeaders: string[]; mapping: Mapping };
+
+export type CatalogWorkspace = {
+  activeMarketplace: Marketplace;
+  /** Marketplaces with a template attached. */
+  channels: Partial<Record<Marketplace, ChannelSnapshot>>;
+  rawHeaders: string[];
+  rowCount: number;
+  /** Validation totals for the focus marketplace. */
+  errorCount: number;
+  warningCount: number;
+};
+
+export type PreviewCondition = "missing" | "error" | "warning" | "issue";
+
+export type PreviewFilter = {
+  /** Template column to test, or null for any column. */
+  header: string | null;
+  condition: PreviewCondition;
+};
+
+export type CatalogAction =
+  | {
+      type: "map";
+      marketplace: Marketplace;
+      header: string;
+      entry: MappingEntry;
+    }
+  | { type: "marketplace"; marketplace: Marketplace }
+  | { type: "filter"; filter: PreviewFilter | null }
+  | { type: "export"; scope: "current" | "all" }
+  | { type: "enrich" };
+
+export const CATALOG_ACTION_EVENT = "jarvis:catalog-action";
+
+export const emptyWorkspace: CatalogWorkspace = {
+  activeMarketplace: "Amazon",
+  channels: {},
+  rawHeaders: [],
+  rowCount: 0,
+  errorCount: 0,
+  warningCount: 0,
+};
+
+let snapshot: CatalogWorkspace = emptyWorkspace;
+
+export function publishWorkspace(next: CatalogWorkspace) {
+  snapshot = next;
+}
+
+export function currentWorkspace(): CatalogWorkspace {
+  return snapshot;
+}
+
+const strings = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((entry): entry is string => typeof entry === "string")
+    : [];
+
+const count = (value: unknown): number =>
+  typeof value === "number" && Number.isFinite(value) ? value : 0;
+
+function readMapping(input: unknown): Mapping {
+  const mapping: Mapping = {};
+  if (!input || typeof input !== "object") return mapping;
+  Object.entries(input as Record<string, unknown>).forEach(
+    ([header, entry]) => {
+      if (
+        typeof entry === "string" ||
+        (isExpression(entry as MappingEntry) &&
+          typeof (entry as { expression: unknown }).expression === "string")
+      ) {
+        mapping[header] = entry as MappingEntry;
+      }
+    }
+  );
+  return mapping;
+}
+
+/** Rebuilds a snapshot from an untrusted request body. */
+export function readWorkspace(input: unknown): CatalogWorkspace {
+  if (!input || typeof input !== "object") return { ...emptyWorkspace };
+  const source = input as Record<string, unknown>;
+  const channelsInput =
+    source.channels && typeof source.channels === "object"
+      ? (source.channels as Record<string, Record<string, unknown>>)
+      : {};
+  const channels: CatalogWorkspace["channels"] = {};
+  marketplaces.forEach((marketplace) => {
+    const channel = channelsInput[marketplace];
+    if (!channel || typeof channel !== "object") return;
+    channels[marketplace] = {
+      templateHeaders: strings(channel.templateHeaders),
+      mapping: readMapping(channel.mapping),
+    };
+  });
+  return {
+    activeMarketplace:
+      marketplaces.find((entry) => entry === source.activeMarketplace) ??
+      emptyWorkspace.activeMarketplace,
+    channels,
+    rawHeaders: strings(source.rawHeaders),
+    rowCount: count(source.rowCount),
+    errorCount: count(source.errorCount),
+    warningCount: count(source.warningCount),
+  };
+}
+
+export function dispatchCatalogAction(action: CatalogAction) {
+  window.dispatchEvent(
+    new CustomEvent<CatalogAction>(CATALOG_ACTION_EVENT, { detail: action })
+  );
+}